@@ -0,0 +1,219 @@
+import type { Browser, BrowserContext, CDPSession, Page } from 'playwright';
+
+/** The isolated world the activity script runs in, out of reach of the page's own scripts. */
+const ACTIVITY_WORLD = '__tabnab_activity';
+const ACTIVITY_BINDING = '__tabnabActivity';
+
+// Reports the tab's visibility and focus whenever either changes, and returns them for the
+// first reading. Only the top frame reports; an iframe's focus is the tab's focus.
+const ACTIVITY_SCRIPT = `(() => {
+  if (window !== window.top) {
+    return undefined;
+  }
+  const state = () => ({
+    visible: document.visibilityState === 'visible',
+    focused: document.hasFocus(),
+  });
+  const report = () => {
+    try {
+      globalThis.${ACTIVITY_BINDING}(JSON.stringify(state()));
+    } catch {}
+  };
+  document.addEventListener('visibilitychange', report);
+  window.addEventListener('focus', report);
+  window.addEventListener('blur', report);
+  return state();
+})()`;
+
+/** What a tab last reported about itself. */
+export interface TabActivity {
+  visible: boolean;
+  focused: boolean;
+}
+
+interface TrackedTab {
+  page?: Page;
+  windowId?: number;
+  visible: boolean;
+  /** When the tab was last shown, on the tracker's own clock; 0 if never. */
+  shownAt: number;
+}
+
+/**
+ * Follows which tab Chrome shows as active, from CDP events rather than by polling every
+ * page. `Target` discovery events keep the set of open tabs current, and each tab reports
+ * its visibility and focus from an isolated world whenever they change, so the active tab
+ * is known without a round-trip per page when a tool asks for it.
+ *
+ * The focused tab wins. When Chrome itself is not focused, the visible tab in the window
+ * that was focused last is active, then the tab shown most recently.
+ */
+export class ActiveTabTracker {
+  private tabs = new Map<string, TrackedTab>();
+  private focusedTargetId: string | null = null;
+  private focusedWindowId: number | null = null;
+  private clock = 0;
+  private browser: Browser | null = null;
+  private session: CDPSession | null = null;
+  private ready: Promise<void> = Promise.resolve();
+
+  /**
+   * Starts following a newly connected browser, dropping what was known about the previous
+   * one. Failures leave the tracker empty, so callers fall back to their own heuristics.
+   */
+  attach(browser: Browser): Promise<void> {
+    this.reset();
+    this.browser = browser;
+    this.ready = this.subscribe(browser).catch(() => undefined);
+    return this.ready;
+  }
+
+  reset(): void {
+    const session = this.session;
+    this.browser = null;
+    this.session = null;
+    void session?.detach().catch(() => undefined);
+    this.tabs.clear();
+    this.focusedTargetId = null;
+    this.focusedWindowId = null;
+  }
+
+  /** The active tab, once the tabs open at attach time have reported. */
+  async activePage(): Promise<Page | undefined> {
+    await this.ready;
+    const targetId = this.activeTargetId();
+    return targetId ? this.tabs.get(targetId)?.page : undefined;
+  }
+
+  /** The window that was focused last, as a CDP window id. */
+  getFocusedWindowId(): number | undefined {
+    return this.focusedWindowId ?? undefined;
+  }
+
+  activeTargetId(): string | undefined {
+    if (this.focusedTargetId && this.tabs.has(this.focusedTargetId)) {
+      return this.focusedTargetId;
+    }
+    const entries = [...this.tabs.entries()].filter(([, tab]) => tab.shownAt > 0);
+    const latest = (candidates: [string, TrackedTab][]) =>
+      candidates.reduce<[string, TrackedTab] | undefined>(
+        (best, entry) => (!best || entry[1].shownAt > best[1].shownAt ? entry : best),
+        undefined
+      )?.[0];
+    const visible = entries.filter(([, tab]) => tab.visible);
+    return (
+      latest(visible.filter(([, tab]) => tab.windowId === this.focusedWindowId)) ??
+      latest(visible) ??
+      latest(entries)
+    );
+  }
+
+  private async subscribe(browser: Browser): Promise<void> {
+    const session = await browser.newBrowserCDPSession();
+    if (this.browser !== browser) {
+      await session.detach();
+      return;
+    }
+    this.session = session;
+    session.on('Target.targetCreated', ({ targetInfo }) => {
+      if (targetInfo.type === 'page' && !this.tabs.has(targetInfo.targetId)) {
+        this.tabs.set(targetInfo.targetId, { visible: false, shownAt: 0 });
+      }
+    });
+    session.on('Target.targetDestroyed', ({ targetId }) => {
+      this.tabs.delete(targetId);
+      if (this.focusedTargetId === targetId) {
+        this.focusedTargetId = null;
+      }
+    });
+    await session.send('Target.setDiscoverTargets', { discover: true });
+
+    const contexts = browser.contexts();
+    for (const context of contexts) {
+      this.watchContext(context);
+    }
+    await Promise.all(
+      contexts.flatMap((context) => context.pages()).map((page) => this.watch(page))
+    );
+  }
+
+  private watchContext(context: BrowserContext): void {
+    context.on('page', (page) => {
+      void this.watch(page);
+    });
+  }
+
+  /** Installs the activity script in the tab, and records its first reading. */
+  private async watch(page: Page): Promise<void> {
+    try {
+      const session = await page.context().newCDPSession(page);
+      const { targetInfo } = await session.send('Target.getTargetInfo');
+      const targetId = targetInfo.targetId;
+      const { windowId } = await session.send('Browser.getWindowForTarget', { targetId });
+      const tab = this.tabs.get(targetId) ?? { visible: false, shownAt: 0 };
+      this.tabs.set(targetId, { ...tab, page, windowId });
+
+      session.on('Runtime.bindingCalled', (event) => {
+        if (event.name === ACTIVITY_BINDING) {
+          this.record(targetId, parseActivity(event.payload));
+        }
+      });
+      await session.send('Runtime.addBinding', {
+        name: ACTIVITY_BINDING,
+        executionContextName: ACTIVITY_WORLD,
+      });
+      await session.send('Page.addScriptToEvaluateOnNewDocument', {
+        source: ACTIVITY_SCRIPT,
+        worldName: ACTIVITY_WORLD,
+      });
+
+      const { frameTree } = await session.send('Page.getFrameTree');
+      const { executionContextId } = await session.send('Page.createIsolatedWorld', {
+        frameId: frameTree.frame.id,
+        worldName: ACTIVITY_WORLD,
+      });
+      const { result } = await session.send('Runtime.evaluate', {
+        expression: ACTIVITY_SCRIPT,
+        contextId: executionContextId,
+        returnByValue: true,
+      });
+      this.record(targetId, parseActivity(result.value));
+    } catch {
+      // Closed while being set up, or not a tab CDP can attach to.
+    }
+  }
+
+  private record(targetId: string, activity: TabActivity | undefined): void {
+    const tab = this.tabs.get(targetId);
+    if (!tab || !activity) {
+      return;
+    }
+    if (activity.visible && !tab.visible) {
+      tab.shownAt = ++this.clock;
+    }
+    tab.visible = activity.visible;
+
+    if (activity.focused) {
+      this.focusedTargetId = targetId;
+      this.focusedWindowId = tab.windowId ?? null;
+    } else if (this.focusedTargetId === targetId) {
+      this.focusedTargetId = null;
+    }
+  }
+}
+
+function parseActivity(value: unknown): TabActivity | undefined {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    return undefined;
+  }
+  const { visible, focused } = parsed as Record<string, unknown>;
+  return { visible: visible === true, focused: focused === true };
+}
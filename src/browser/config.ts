@@ -0,0 +1,369 @@
+import { homedir } from 'node:os';
+import { isAbsolute, join, resolve } from 'node:path';
+
+export const DEFAULT_DEBUG_PORT = 9222;
+export const DEFAULT_CONNECT_TIMEOUT_MS = 30_000;
+export const DEFAULT_USER_DATA_DIR = join(homedir(), '.tabnab', 'chrome-profile');
+const MAX_CONNECT_TIMEOUT_MS = 300_000;
+
+/** Where the CDP connection goes: a URL Playwright can open, or a local unix socket. */
+export type CdpEndpoint = { kind: 'url'; url: string } | { kind: 'unix'; socketPath: string };
+
+/** How TabNab starts Chrome itself when nothing is listening on the debugging port. */
+export interface LaunchConfig {
+  userDataDir: string;
+  headless: boolean;
+  /** `chrome` starts the installed Google Chrome instead of Playwright's bundled Chromium. */
+  channel?: 'chrome';
+  /** A Chrome or Chromium binary, which takes precedence over the channel. */
+  executablePath?: string;
+  port: number;
+}
+
+export interface BrowserConfig {
+  endpoint: CdpEndpoint;
+  /** Sent with the CDP handshake, e.g. for an authenticating proxy in front of Chrome. */
+  headers: Record<string, string>;
+  timeoutMs: number;
+  /** Set in launch mode. */
+  launch?: LaunchConfig;
+}
+
+export class BrowserConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(
+      `Invalid browser connection settings:\n${issues.map((issue) => `  ${issue}`).join('\n')}`
+    );
+    this.name = 'BrowserConfigError';
+  }
+}
+
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/** What tab tools act in when they are not given a `browser`, unless `TABNAB_BROWSERS` is set. */
+export const DEFAULT_BROWSER_NAME = 'default';
+const BROWSER_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/** The raw settings of one browser, from environment variables or a `TABNAB_BROWSERS` entry. */
+interface BrowserSettings {
+  endpoint?: string;
+  port?: string;
+  headers?: string;
+  timeoutMs?: string;
+  mode?: string;
+  headless?: string;
+  userDataDir?: string;
+  channel?: string;
+  executablePath?: string;
+}
+
+type SettingNames = Record<keyof BrowserSettings, string>;
+
+const ENV_SETTING_NAMES: SettingNames = {
+  endpoint: 'TABNAB_CDP_ENDPOINT',
+  port: 'CHROME_DEBUG_PORT',
+  headers: 'TABNAB_CDP_HEADERS',
+  timeoutMs: 'TABNAB_CDP_TIMEOUT_MS',
+  mode: 'TABNAB_BROWSER_MODE',
+  headless: 'TABNAB_HEADLESS',
+  userDataDir: 'TABNAB_USER_DATA_DIR',
+  channel: 'TABNAB_BROWSER_CHANNEL',
+  executablePath: 'CHROME_PATH',
+};
+
+const PROFILE_SETTINGS = Object.keys(ENV_SETTING_NAMES) as (keyof BrowserSettings)[];
+
+export function browserConfigForPort(port = DEFAULT_DEBUG_PORT): BrowserConfig {
+  return {
+    endpoint: { kind: 'url', url: `http://localhost:${port}` },
+    headers: {},
+    timeoutMs: DEFAULT_CONNECT_TIMEOUT_MS,
+  };
+}
+
+/**
+ * Reads the connection settings from `TABNAB_CDP_ENDPOINT`, `TABNAB_CDP_HEADERS` and
+ * `TABNAB_CDP_TIMEOUT_MS`, falling back to `CHROME_DEBUG_PORT` on localhost, and the
+ * launch settings when `TABNAB_BROWSER_MODE` is `launch`. Every problem is collected,
+ * so a misconfigured server reports them all at startup.
+ */
+export function loadBrowserConfig(env: NodeJS.ProcessEnv = process.env): BrowserConfig {
+  const issues: string[] = [];
+  const config = parseBrowserSettings(
+    {
+      endpoint: env.TABNAB_CDP_ENDPOINT,
+      port: env.CHROME_DEBUG_PORT,
+      headers: env.TABNAB_CDP_HEADERS,
+      timeoutMs: env.TABNAB_CDP_TIMEOUT_MS,
+      mode: env.TABNAB_BROWSER_MODE,
+      headless: env.TABNAB_HEADLESS,
+      userDataDir: env.TABNAB_USER_DATA_DIR,
+      channel: env.TABNAB_BROWSER_CHANNEL,
+      executablePath: env.CHROME_PATH,
+    },
+    ENV_SETTING_NAMES,
+    DEFAULT_USER_DATA_DIR,
+    issues
+  );
+  if (issues.length > 0) {
+    throw new BrowserConfigError(issues);
+  }
+  return config;
+}
+
+/**
+ * Reads the named browser profiles in `TABNAB_BROWSERS`, a JSON object of profile names
+ * to settings such as `{"work":{"port":9222},"staging":{"port":9223}}`. Each entry takes
+ * `endpoint`, `port`, `headers`, `timeoutMs`, `mode`, `headless`, `userDataDir`, `channel`
+ * and `executablePath`, like the single-browser variables. The first profile is the default.
+ * Without `TABNAB_BROWSERS`, the single browser from `loadBrowserConfig` is the only
+ * profile, named `default`.
+ */
+export function loadBrowserProfiles(
+  env: NodeJS.ProcessEnv = process.env
+): Record<string, BrowserConfig> {
+  if (!env.TABNAB_BROWSERS) {
+    return { [DEFAULT_BROWSER_NAME]: loadBrowserConfig(env) };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(env.TABNAB_BROWSERS);
+  } catch {
+    value = undefined;
+  }
+  if (!isPlainObject(value) || Object.keys(value).length === 0) {
+    throw new BrowserConfigError([
+      'TABNAB_BROWSERS: must be a JSON object of profile names to settings, e.g. {"work":{"port":9222},"staging":{"port":9223}}.',
+    ]);
+  }
+
+  const issues: string[] = [];
+  const profiles: Record<string, BrowserConfig> = {};
+  const endpoints = new Map<string, string>();
+  for (const [name, entry] of Object.entries(value)) {
+    const label = `TABNAB_BROWSERS.${name}`;
+    if (!BROWSER_NAME.test(name)) {
+      issues.push(
+        `${label}: profile names may only contain letters, digits, "_" and "-", and must start with a letter or digit.`
+      );
+      continue;
+    }
+    if (!isPlainObject(entry)) {
+      issues.push(`${label}: must be an object of settings, e.g. {"port":9223}.`);
+      continue;
+    }
+    const unknown = Object.keys(entry).filter(
+      (key) => !PROFILE_SETTINGS.includes(key as keyof BrowserSettings)
+    );
+    if (unknown.length > 0) {
+      issues.push(
+        `${label}: unknown setting ${unknown.map((key) => `"${key}"`).join(', ')}. Use ${PROFILE_SETTINGS.join(', ')}.`
+      );
+      continue;
+    }
+
+    const settings: BrowserSettings = {};
+    for (const key of PROFILE_SETTINGS) {
+      const setting = entry[key];
+      if (setting !== undefined && setting !== null) {
+        settings[key] = typeof setting === 'object' ? JSON.stringify(setting) : String(setting);
+      }
+    }
+    const names = Object.fromEntries(
+      PROFILE_SETTINGS.map((key) => [key, `${label}.${key}`])
+    ) as SettingNames;
+    const profileIssues: string[] = [];
+    const config = parseBrowserSettings(
+      settings,
+      names,
+      `${DEFAULT_USER_DATA_DIR}-${name}`,
+      profileIssues
+    );
+    issues.push(...profileIssues);
+    if (profileIssues.length > 0) {
+      continue;
+    }
+
+    // Two profiles on one endpoint would drive the same Chrome under different policies.
+    const endpoint = describeEndpoint(config.endpoint);
+    const other = endpoints.get(endpoint);
+    if (other) {
+      issues.push(`${label}: uses ${endpoint} like "${other}"; give each profile its own Chrome.`);
+      continue;
+    }
+    endpoints.set(endpoint, name);
+    profiles[name] = config;
+  }
+
+  if (issues.length > 0) {
+    throw new BrowserConfigError(issues);
+  }
+  return profiles;
+}
+
+function parseBrowserSettings(
+  settings: BrowserSettings,
+  names: SettingNames,
+  defaultUserDataDir: string,
+  issues: string[]
+): BrowserConfig {
+  let endpoint: CdpEndpoint | undefined;
+  if (settings.endpoint) {
+    const parsed = parseCdpEndpoint(settings.endpoint);
+    if (typeof parsed === 'string') {
+      issues.push(`${names.endpoint}: ${parsed}`);
+    } else {
+      endpoint = parsed;
+    }
+  } else if (settings.port) {
+    const port = Number(settings.port);
+    if (Number.isInteger(port) && port > 0 && port < 65536) {
+      endpoint = browserConfigForPort(port).endpoint;
+    } else {
+      issues.push(
+        `${names.port}: "${settings.port}" is not a port number. Use the port passed to Chrome's --remote-debugging-port, e.g. ${DEFAULT_DEBUG_PORT}.`
+      );
+    }
+  }
+
+  const headers = settings.headers ? parseCdpHeaders(settings.headers) : {};
+  if (typeof headers === 'string') {
+    issues.push(`${names.headers}: ${headers}`);
+  }
+
+  let timeoutMs = DEFAULT_CONNECT_TIMEOUT_MS;
+  if (settings.timeoutMs) {
+    timeoutMs = Number(settings.timeoutMs);
+    if (!Number.isInteger(timeoutMs) || timeoutMs <= 0 || timeoutMs > MAX_CONNECT_TIMEOUT_MS) {
+      issues.push(
+        `${names.timeoutMs}: "${settings.timeoutMs}" must be a whole number of milliseconds between 1 and ${MAX_CONNECT_TIMEOUT_MS}.`
+      );
+    }
+  }
+
+  const resolvedEndpoint = endpoint ?? browserConfigForPort().endpoint;
+  let launch: LaunchConfig | undefined;
+  const mode = settings.mode ?? 'connect';
+  if (mode === 'launch') {
+    launch = parseLaunchConfig(settings, names, resolvedEndpoint, defaultUserDataDir, issues);
+  } else if (mode !== 'connect') {
+    issues.push(`${names.mode}: "${mode}" must be connect or launch.`);
+  }
+
+  return {
+    endpoint: resolvedEndpoint,
+    headers: typeof headers === 'string' ? {} : headers,
+    timeoutMs,
+    ...(launch && { launch }),
+  };
+}
+
+// Launching only makes sense for a debugging port on this machine, which Chrome is then
+// started with.
+function parseLaunchConfig(
+  settings: BrowserSettings,
+  names: SettingNames,
+  endpoint: CdpEndpoint,
+  defaultUserDataDir: string,
+  issues: string[]
+): LaunchConfig | undefined {
+  const url = endpoint.kind === 'url' ? new URL(endpoint.url) : null;
+  const local =
+    url?.protocol === 'http:' && (url.hostname === 'localhost' || url.hostname === '127.0.0.1');
+  if (!url || !local) {
+    issues.push(
+      `${names.mode}: launch starts Chrome on a local port, but the endpoint is ${describeEndpoint(endpoint)}. Use ${names.port} or an http://localhost:<port> ${names.endpoint}.`
+    );
+  }
+
+  const headless = (settings.headless ?? 'false').toLowerCase();
+  if (!['true', 'false', '1', '0'].includes(headless)) {
+    issues.push(`${names.headless}: "${settings.headless}" must be true or false.`);
+  }
+
+  const channel = (settings.channel ?? 'chromium').toLowerCase();
+  if (channel !== 'chromium' && channel !== 'chrome') {
+    issues.push(`${names.channel}: "${settings.channel}" must be chromium or chrome.`);
+  }
+
+  if (!url || !local) {
+    return undefined;
+  }
+  return {
+    userDataDir: resolve(settings.userDataDir || defaultUserDataDir),
+    headless: headless === 'true' || headless === '1',
+    ...(channel === 'chrome' && { channel }),
+    ...(settings.executablePath && { executablePath: settings.executablePath }),
+    port: Number(url.port || 80),
+  };
+}
+
+/**
+ * Accepts an `http(s)://host:port` DevTools address, a `ws(s)://…/devtools/browser/<id>`
+ * WebSocket URL, or `unix:///path/to.sock`. Returns a message saying how to fix anything
+ * else.
+ */
+export function parseCdpEndpoint(value: string): CdpEndpoint | string {
+  if (!URL.canParse(value)) {
+    return `"${value}" is not a URL. Use http://host:port for a DevTools address, ws://host:port/devtools/browser/<id> for a WebSocket URL, or unix:///path/to.sock for a socket.`;
+  }
+  const url = new URL(value);
+  switch (url.protocol) {
+    case 'http:':
+    case 'https:':
+      return { kind: 'url', url: value };
+    case 'ws:':
+    case 'wss:':
+      if (!url.pathname.startsWith('/devtools/browser/')) {
+        return `"${value}" is not a browser WebSocket URL. Use the webSocketDebuggerUrl listed at http://${url.host}/json/version, or the http:// address itself.`;
+      }
+      return { kind: 'url', url: value };
+    case 'unix:': {
+      const socketPath = decodeURIComponent(url.pathname);
+      if (url.host || !isAbsolute(socketPath)) {
+        return `"${value}" must name an absolute socket path, e.g. unix:///run/chrome/cdp.sock.`;
+      }
+      return { kind: 'unix', socketPath };
+    }
+    default:
+      return `"${url.protocol}" endpoints are not supported. Use http://, https://, ws://, wss:// or unix://.`;
+  }
+}
+
+/** Parses a JSON object of header names to string values. */
+export function parseCdpHeaders(raw: string): Record<string, string> | string {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return 'must be a JSON object, e.g. {"Authorization":"Bearer <token>"}.';
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'must be a JSON object, e.g. {"Authorization":"Bearer <token>"}.';
+  }
+  const headers: Record<string, string> = {};
+  for (const [name, headerValue] of Object.entries(value)) {
+    if (!HEADER_NAME.test(name)) {
+      return `"${name}" is not a valid header name.`;
+    }
+    if (typeof headerValue !== 'string') {
+      return `the value of "${name}" must be a string.`;
+    }
+    headers[name] = headerValue;
+  }
+  return headers;
+}
+
+/** The endpoint as shown in status reports and errors, without credentials or query. */
+export function describeEndpoint(endpoint: CdpEndpoint): string {
+  if (endpoint.kind === 'unix') {
+    return `unix://${endpoint.socketPath}`;
+  }
+  const url = new URL(endpoint.url);
+  return `${url.protocol}//${url.host}${url.pathname === '/' ? '' : url.pathname}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,43 +1,162 @@
-import { chromium, type Browser, type Page } from 'playwright';
+import { type Browser, type BrowserContext, chromium, type Page } from 'playwright';
+import { ActiveTabTracker } from './activeTab.js';
+import {
+  type BrowserConfig,
+  browserConfigForPort,
+  describeEndpoint,
+  type LaunchConfig,
+} from './config.js';
+import { type SocketProxy, startSocketProxy } from './socketProxy.js';
 
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  endpoint: string;
+  /** When the current connection was established, as an ISO 8601 timestamp. */
+  connectedAt?: string;
+  /** When the last connection was lost. */
+  disconnectedAt?: string;
+  /** Reconnection attempts made since the connection was lost. */
+  attempts: number;
+  /** When the next reconnection attempt is due, while reconnecting. */
+  nextRetryAt?: string;
+  lastError?: string;
+  /** Whether TabNab started this browser, and so closes it when the server stops. */
+  launched?: boolean;
+}
+
+export interface ReconnectOptions {
+  /** Delay before the first attempt; doubled after every failure. */
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  /** Attempts before giving up; the next tool call then tries once more. Unlimited by default. */
+  maxAttempts?: number;
+}
+
+export interface CdpConnectOptions {
+  headers: Record<string, string>;
+  timeout: number;
+}
+
+export interface BrowserConnectionOptions {
+  reconnect?: ReconnectOptions;
+  /** Opens the CDP connection; Playwright's `chromium.connectOverCDP` by default. */
+  connectBrowser?: (endpoint: string, options: CdpConnectOptions) => Promise<Browser>;
+  /** Starts Chrome in launch mode; Playwright's `chromium.launchPersistentContext` by default. */
+  launchBrowser?: (launch: LaunchConfig) => Promise<BrowserContext>;
+}
+
+export type ConnectionStatusListener = (
+  status: ConnectionStatus,
+  previous: ConnectionStatus
+) => void;
+
+/** Raised by tool calls made while there is no browser to talk to. */
+export class BrowserUnavailableError extends Error {
+  constructor(
+    message: string,
+    readonly status: ConnectionStatus
+  ) {
+    super(message);
+    this.name = 'BrowserUnavailableError';
+  }
+}
+
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+  initialDelayMs: 500,
+  maxDelayMs: 30_000,
+  maxAttempts: Number.POSITIVE_INFINITY,
+};
+
+/**
+ * A supervised CDP connection to Chrome. When the browser goes away mid-session (Chrome
+ * restarts, the debugging pipe drops), the connection retries in the background with
+ * exponential backoff and reports each state change to its listeners. Calls made while
+ * it is reconnecting fail fast with a `BrowserUnavailableError` instead of a raw
+ * Playwright error.
+ *
+ * In launch mode, a browser already listening on the port is reused; otherwise Chrome is
+ * started with the configured profile and attached to over CDP like any other. Only a
+ * browser the connection started itself is closed by `disconnect`, and when that browser
+ * exits the connection does not try to bring it back until it is next used.
+ */
 export class BrowserConnection {
   private browser: Browser | null = null;
-  private readonly debugPort: number;
+  private pending: Promise<Browser> | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private closing = false;
+  private status: ConnectionStatus;
+  private listeners = new Set<ConnectionStatusListener>();
+  private proxy: Promise<SocketProxy> | null = null;
+  private launched: BrowserContext | null = null;
+  private readonly activeTabs = new ActiveTabTracker();
+  private readonly config: BrowserConfig;
+  private readonly reconnect: Required<ReconnectOptions>;
+  private readonly connectBrowser: (
+    endpoint: string,
+    options: CdpConnectOptions
+  ) => Promise<Browser>;
+  private readonly launchBrowser: (launch: LaunchConfig) => Promise<BrowserContext>;
+
+  constructor(config: number | BrowserConfig = 9222, options: BrowserConnectionOptions = {}) {
+    this.config = typeof config === 'number' ? browserConfigForPort(config) : config;
+    this.reconnect = { ...DEFAULT_RECONNECT, ...options.reconnect };
+    this.connectBrowser =
+      options.connectBrowser ??
+      ((endpoint, connectOptions) => chromium.connectOverCDP(endpoint, connectOptions));
+    this.launchBrowser = options.launchBrowser ?? launchChrome;
+    this.status = { state: 'disconnected', endpoint: this.endpoint, attempts: 0 };
+  }
 
-  constructor(debugPort = 9222) {
-    this.debugPort = debugPort;
+  /** The endpoint as reported in status and errors. */
+  private get endpoint(): string {
+    return describeEndpoint(this.config.endpoint);
   }
 
   async connect(): Promise<Browser> {
     if (this.browser?.isConnected()) {
       return this.browser;
     }
+    if (this.status.state === 'reconnecting') {
+      throw new BrowserUnavailableError(
+        `Lost the connection to Chrome at ${this.endpoint}; reconnecting ` +
+          `(attempt ${this.status.attempts + 1}). Call get_connection_status to wait for it.`,
+        this.getStatus()
+      );
+    }
 
+    this.closing = false;
+    this.pending ??= this.open().finally(() => {
+      this.pending = null;
+    });
     try {
-      this.browser = await chromium.connectOverCDP(`http://localhost:${this.debugPort}`);
-
-      return this.browser;
+      return await this.pending;
     } catch (error) {
       throw new Error(
-        `Failed to connect to Chrome on port ${this.debugPort}. ` +
-          `Make sure Chrome is running with --remote-debugging-port=${this.debugPort}. ` +
+        `Failed to connect to Chrome at ${this.endpoint}. ${connectionHint(this.config)} ` +
           `Error: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
 
   async getActiveTab(): Promise<Page> {
-    const browser = await this.connect();
     const pages = await this.getAllTabs();
 
     if (pages.length === 0) {
       throw new Error('No tabs found in the browser');
     }
 
-    // Try to find the active tab by checking if the page has focus
-    // We'll use the most recently accessed page as a heuristic
-    // Fallback to the last page in the list (usually the most recent)
-    return pages[pages.length - 1];
+    const tracked = await this.getTrackedActiveTab();
+    return tracked && pages.includes(tracked) ? tracked : pages[pages.length - 1];
+  }
+
+  /**
+   * The tab Chrome shows as active, as followed from CDP events since the connection was
+   * made; undefined while disconnected or when the browser does not report it.
+   */
+  async getTrackedActiveTab(): Promise<Page | undefined> {
+    return this.browser ? this.activeTabs.activePage() : undefined;
   }
 
   async getAllTabs(): Promise<Page[]> {
@@ -47,13 +166,233 @@ export class BrowserConnection {
   }
 
   async disconnect(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
+    this.closing = true;
+    this.clearRetry();
+    const browser = this.browser;
+    this.browser = null;
+    this.activeTabs.reset();
+    if (browser) {
+      await browser.close();
     }
+    const launched = this.launched;
+    this.launched = null;
+    await launched?.close();
+    const proxy = this.proxy;
+    this.proxy = null;
+    await proxy?.then((started) => started.close()).catch(() => undefined);
+    this.setStatus({ state: 'disconnected', endpoint: this.endpoint, attempts: 0 });
   }
 
   isConnected(): boolean {
     return this.browser?.isConnected() ?? false;
   }
+
+  getStatus(): ConnectionStatus {
+    return { ...this.status };
+  }
+
+  onStatusChange(listener: ConnectionStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async open(): Promise<Browser> {
+    const reconnecting = this.status.state === 'reconnecting';
+    if (!reconnecting) {
+      this.setStatus({ ...this.status, state: 'connecting', nextRetryAt: undefined });
+    }
+
+    try {
+      const browser = await this.attach();
+      if (this.closing) {
+        await browser.close();
+        throw new Error('The connection was closed while connecting');
+      }
+      this.browser = browser;
+      browser.on('disconnected', () => this.handleDisconnect(browser));
+      void this.activeTabs.attach(browser);
+      this.setStatus({
+        state: 'connected',
+        endpoint: this.endpoint,
+        connectedAt: new Date().toISOString(),
+        disconnectedAt: this.status.disconnectedAt,
+        attempts: 0,
+        launched: this.launched !== null,
+      });
+      return browser;
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      if (!reconnecting) {
+        this.setStatus({ ...this.status, state: 'disconnected', lastError });
+      }
+      throw error;
+    }
+  }
+
+  private async attach(): Promise<Browser> {
+    const { url: endpoint, headers } = await this.resolveEndpoint();
+    const options = {
+      headers: { ...this.config.headers, ...headers },
+      timeout: this.config.timeoutMs,
+    };
+    try {
+      return await this.connectBrowser(endpoint, options);
+    } catch (error) {
+      // Nothing to reuse on the port, or the browser this connection started has gone.
+      if (!this.config.launch || this.launched) {
+        throw error;
+      }
+    }
+
+    const context = await this.launchBrowser(this.config.launch);
+    this.launched = context;
+    context.on('close', () => {
+      if (this.launched === context) {
+        this.launched = null;
+        this.stopSupervising();
+      }
+    });
+    return this.connectBrowser(endpoint, options);
+  }
+
+  /**
+   * A unix socket is reached through a loopback proxy, started on first use and kept; its
+   * token goes out with the configured headers.
+   */
+  private async resolveEndpoint(): Promise<{ url: string; headers?: Record<string, string> }> {
+    const { endpoint } = this.config;
+    if (endpoint.kind === 'url') {
+      return { url: endpoint.url };
+    }
+    this.proxy ??= startSocketProxy(endpoint.socketPath);
+    try {
+      return await this.proxy;
+    } catch (error) {
+      this.proxy = null;
+      throw error;
+    }
+  }
+
+  /**
+   * The browser this connection started was closed by someone else, most likely the user
+   * quitting it. Starting it again behind their back would defeat that, so the connection
+   * stops reconnecting; the next tool call launches it afresh.
+   */
+  private stopSupervising(): void {
+    this.clearRetry();
+    this.browser = null;
+    this.activeTabs.reset();
+    if (this.closing) {
+      return;
+    }
+    this.setStatus({
+      state: 'disconnected',
+      endpoint: this.endpoint,
+      disconnectedAt: new Date().toISOString(),
+      attempts: 0,
+    });
+  }
+
+  private handleDisconnect(browser: Browser): void {
+    if (this.browser !== browser) {
+      return;
+    }
+    this.browser = null;
+    this.activeTabs.reset();
+    if (this.closing) {
+      return;
+    }
+
+    this.setStatus({
+      state: 'reconnecting',
+      endpoint: this.endpoint,
+      disconnectedAt: new Date().toISOString(),
+      attempts: 0,
+    });
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry(): void {
+    const { attempts } = this.status;
+    if (attempts >= this.reconnect.maxAttempts) {
+      this.setStatus({ ...this.status, state: 'disconnected', nextRetryAt: undefined });
+      return;
+    }
+
+    const delay = Math.min(
+      this.reconnect.initialDelayMs * 2 ** attempts,
+      this.reconnect.maxDelayMs
+    );
+    this.setStatus({ ...this.status, nextRetryAt: new Date(Date.now() + delay).toISOString() });
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.retry();
+    }, delay);
+  }
+
+  private async retry(): Promise<void> {
+    this.setStatus({ ...this.status, attempts: this.status.attempts + 1, nextRetryAt: undefined });
+    this.pending ??= this.open().finally(() => {
+      this.pending = null;
+    });
+    try {
+      await this.pending;
+    } catch (error) {
+      if (this.closing) {
+        return;
+      }
+      const lastError = error instanceof Error ? error.message : String(error);
+      this.setStatus({ ...this.status, lastError });
+      this.scheduleRetry();
+    }
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private setStatus(next: ConnectionStatus): void {
+    const previous = this.status;
+    this.status = next;
+    for (const listener of this.listeners) {
+      listener({ ...next }, previous);
+    }
+  }
+}
+
+function connectionHint({ endpoint, launch }: BrowserConfig): string {
+  if (launch) {
+    return (
+      `Nothing was listening, and Chrome could not be started with the profile at ${launch.userDataDir}. ` +
+      'Set CHROME_PATH to a Chrome or Chromium binary, and close any other Chrome using that profile.'
+    );
+  }
+  if (endpoint.kind === 'unix') {
+    return "Make sure the socket forwards to Chrome's DevTools port.";
+  }
+  const url = new URL(endpoint.url);
+  if (url.protocol === 'ws:' || url.protocol === 'wss:') {
+    return 'WebSocket URLs change every time Chrome starts; check that this one is current.';
+  }
+  if (url.hostname === 'localhost' || url.hostname === '127.0.0.1') {
+    return `Make sure Chrome is running with --remote-debugging-port=${url.port || 80}.`;
+  }
+  return 'Make sure the endpoint is reachable from this machine.';
+}
+
+// Playwright's defaults suit tests; a managed browser keeps the window size of a normal one.
+function launchChrome(launch: LaunchConfig): Promise<BrowserContext> {
+  return chromium.launchPersistentContext(launch.userDataDir, {
+    headless: launch.headless,
+    ...(launch.executablePath
+      ? { executablePath: launch.executablePath }
+      : launch.channel && { channel: launch.channel }),
+    args: [`--remote-debugging-port=${launch.port}`],
+    viewport: null,
+  });
 }
@@ -0,0 +1,144 @@
+import type { Page } from 'playwright';
+import type { ElementDescriptor } from '../policy/types.js';
+
+/**
+ * Resolves what a selector actually points at, so policy decisions do not depend on how
+ * the selector happens to be spelled. Waits for the element the same way the action will,
+ * so a target that renders late is still described; returns undefined when it never appears.
+ */
+export async function resolveElementDescriptor(
+  page: Page,
+  selector: string,
+  timeout = 5000
+): Promise<ElementDescriptor | undefined> {
+  try {
+    await page.waitForSelector(selector, { timeout });
+    return (await page.$eval(selector, describeElement)) as ElementDescriptor;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Runs inside the page, so it must stay self-contained: no imports, module constants or
+ * helpers defined outside the function body.
+ */
+export function describeElement(element: Element): ElementDescriptor {
+  const PAYMENT_HOSTS = [
+    'js.stripe.com',
+    'checkout.stripe.com',
+    'paypal.com',
+    'paypalobjects.com',
+    'braintreegateway.com',
+    'adyen.com',
+    'checkoutshopper-live.adyen.com',
+    'squareup.com',
+    'pay.google.com',
+    'payments.amazon.com',
+    'klarna.com',
+    'checkout.com',
+  ];
+  const isPaymentUrl = (value: string | null | undefined): boolean => {
+    if (!value) {
+      return false;
+    }
+    try {
+      const host = new URL(value, element.ownerDocument.baseURI).hostname.toLowerCase();
+      return PAYMENT_HOSTS.some((entry) => host === entry || host.endsWith(`.${entry}`));
+    } catch {
+      return false;
+    }
+  };
+  const clean = (value: string | null | undefined): string | undefined => {
+    const trimmed = value?.replace(/\s+/g, ' ').trim();
+    return trimmed ? trimmed : undefined;
+  };
+  const attribute = (name: string) => clean(element.getAttribute(name));
+
+  const tagName = element.tagName.toLowerCase();
+  const rawType = attribute('type')?.toLowerCase();
+  const form = (element as HTMLButtonElement).form ?? element.closest('form');
+  // An untyped button only submits when it has a form to submit; elsewhere it is an
+  // ordinary button, as in most single-page apps.
+  const buttonType = form ? 'submit' : 'button';
+  const type =
+    rawType ?? (tagName === 'button' ? buttonType : tagName === 'input' ? 'text' : undefined);
+
+  const IMPLICIT_ROLES: Record<string, string> = {
+    a: element.hasAttribute('href') ? 'link' : 'generic',
+    button: 'button',
+    form: 'form',
+    img: 'img',
+    select: 'combobox',
+    textarea: 'textbox',
+    summary: 'button',
+  };
+  const INPUT_ROLES: Record<string, string> = {
+    button: 'button',
+    submit: 'button',
+    reset: 'button',
+    image: 'button',
+    checkbox: 'checkbox',
+    radio: 'radio',
+    range: 'slider',
+    search: 'searchbox',
+  };
+  const role =
+    attribute('role')?.split(' ')[0] ??
+    (tagName === 'input' ? (INPUT_ROLES[type ?? 'text'] ?? 'textbox') : IMPLICIT_ROLES[tagName]);
+
+  const labelledBy = attribute('aria-labelledby')
+    ?.split(' ')
+    .map((id) => clean(element.ownerDocument.getElementById(id)?.textContent))
+    .filter(Boolean)
+    .join(' ');
+  const labelElement =
+    (element as HTMLInputElement).labels?.[0] ?? element.closest('label') ?? undefined;
+  const isButtonInput = tagName === 'input' && ['submit', 'button', 'reset'].includes(type ?? '');
+  const accessibleName =
+    clean(labelledBy) ??
+    attribute('aria-label') ??
+    (isButtonInput ? attribute('value') : undefined) ??
+    clean(labelElement?.textContent) ??
+    attribute('alt') ??
+    clean(element.textContent) ??
+    attribute('title') ??
+    attribute('placeholder');
+
+  const isSubmitControl =
+    (tagName === 'button' || tagName === 'input') && (type === 'submit' || type === 'image');
+  const submitsForm = Boolean(form) && isSubmitControl && !(element as HTMLButtonElement).disabled;
+  const rawFormAction = attribute('formaction') ?? clean(form?.getAttribute('action'));
+  let formAction: string | undefined;
+  try {
+    formAction = rawFormAction
+      ? new URL(rawFormAction, element.ownerDocument.baseURI).href
+      : undefined;
+  } catch {
+    formAction = rawFormAction;
+  }
+  const formMethod = (
+    attribute('formmethod') ??
+    form?.getAttribute('method') ??
+    'get'
+  ).toLowerCase();
+
+  const view = element.ownerDocument.defaultView;
+  const inFrame = Boolean(view && view.top !== view);
+  const inPaymentFrame =
+    (inFrame && isPaymentUrl(view?.location.href)) ||
+    (tagName === 'iframe' && isPaymentUrl(element.getAttribute('src'))) ||
+    (tagName === 'iframe' && /payment|card/i.test(attribute('name') ?? attribute('title') ?? ''));
+
+  return {
+    tagName,
+    role,
+    accessibleName: accessibleName?.slice(0, 200),
+    ariaLabel: attribute('aria-label'),
+    name: attribute('name'),
+    type,
+    form: form ? { method: formMethod, action: formAction } : undefined,
+    inPaymentFrame,
+    submitsForm,
+  };
+}
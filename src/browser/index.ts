@@ -1,2 +1,15 @@
-export { BrowserConnection } from './connection.js';
+export {
+  type BrowserConfig,
+  BrowserConfigError,
+  DEFAULT_BROWSER_NAME,
+  loadBrowserConfig,
+  loadBrowserProfiles,
+} from './config.js';
+export {
+  BrowserConnection,
+  BrowserUnavailableError,
+  type ConnectionState,
+  type ConnectionStatus,
+} from './connection.js';
+export { describeElement, resolveElementDescriptor } from './element.js';
 export { TabRegistry } from './tabRegistry.js';
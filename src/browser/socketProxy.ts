@@ -0,0 +1,130 @@
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { stat } from 'node:fs/promises';
+import { type AddressInfo, createConnection, createServer, type Socket } from 'node:net';
+
+/** The request header that carries the proxy's per-run token. */
+export const PROXY_TOKEN_HEADER = 'x-tabnab-proxy-token';
+
+// Enough for any DevTools request line and headers; a client that sends more without
+// finishing its headers is not one of ours.
+const MAX_HEADER_BYTES = 16 * 1024;
+
+export interface SocketProxy {
+  /** The loopback address that forwards to the socket. */
+  url: string;
+  /** Headers every connection through the proxy has to send with its first request. */
+  headers: Record<string, string>;
+  close(): Promise<void>;
+}
+
+/**
+ * Forwards a loopback TCP port to a unix socket, since Playwright only speaks CDP over
+ * TCP. Chrome builds the WebSocket URL it hands out from the request's Host header, so
+ * the DevTools handshake and the WebSocket that follows both go through the proxy.
+ *
+ * A loopback port is open to every local user, while the socket may not be, so each
+ * connection has to present a token generated for this run in its first request's
+ * headers. Connections without it are refused before anything reaches the socket.
+ */
+export async function startSocketProxy(socketPath: string): Promise<SocketProxy> {
+  const info = await stat(socketPath).catch(() => null);
+  if (!info?.isSocket()) {
+    throw new Error(`No unix socket at ${socketPath}`);
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const sockets = new Set<Socket>();
+  const server = createServer((client) => {
+    sockets.add(client);
+    client.on('close', () => sockets.delete(client));
+    client.on('error', () => client.destroy());
+    readHeaders(client).then((head) => {
+      if (!head || !hasToken(head, token)) {
+        client.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+        return;
+      }
+      forward(client, head, socketPath, sockets);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    headers: { [PROXY_TOKEN_HEADER]: token },
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        server.close(() => resolve());
+      }),
+  };
+}
+
+/** Resolves with everything read up to the end of the first request's headers. */
+function readHeaders(client: Socket): Promise<Buffer | undefined> {
+  return new Promise((resolve) => {
+    let received = Buffer.alloc(0);
+    const onData = (chunk: Buffer) => {
+      received = Buffer.concat([received, chunk]);
+      if (received.includes('\r\n\r\n')) {
+        done(received);
+      } else if (received.length > MAX_HEADER_BYTES) {
+        done(undefined);
+      }
+    };
+    const onEnd = () => done(undefined);
+    const done = (head: Buffer | undefined) => {
+      client.off('data', onData);
+      client.off('end', onEnd);
+      client.off('close', onEnd);
+      client.pause();
+      resolve(head);
+    };
+    client.on('data', onData);
+    client.on('end', onEnd);
+    client.on('close', onEnd);
+  });
+}
+
+function hasToken(head: Buffer, token: string): boolean {
+  const headerBlock = head.subarray(0, head.indexOf('\r\n\r\n')).toString('latin1');
+  const expected = Buffer.from(token);
+  return headerBlock
+    .split('\r\n')
+    .slice(1)
+    .some((line) => {
+      const separator = line.indexOf(':');
+      if (separator < 0 || line.slice(0, separator).trim().toLowerCase() !== PROXY_TOKEN_HEADER) {
+        return false;
+      }
+      const presented = Buffer.from(line.slice(separator + 1).trim());
+      return presented.length === expected.length && timingSafeEqual(presented, expected);
+    });
+}
+
+function forward(client: Socket, head: Buffer, socketPath: string, sockets: Set<Socket>): void {
+  const upstream = createConnection(socketPath);
+  const close = () => {
+    client.destroy();
+    upstream.destroy();
+    sockets.delete(client);
+    sockets.delete(upstream);
+  };
+  sockets.add(upstream);
+  for (const socket of [client, upstream]) {
+    socket.on('error', close);
+    socket.on('close', close);
+  }
+  upstream.write(head);
+  client.pipe(upstream).pipe(client);
+  client.resume();
+}
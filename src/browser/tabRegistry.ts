@@ -30,6 +30,16 @@ export class TabRegistry {
     await Promise.all(pages.map((page) => this.getId(page)));
   }
 
+  /**
+   * Replaces every registered page, for a new browser connection whose Page objects are
+   * all new. A tab keeps its id when Chrome reports the same CDP target id for it.
+   */
+  async rebuild(pages: Page[]): Promise<void> {
+    this.map = new WeakMap();
+    this.reverse.clear();
+    await Promise.all(pages.map((page) => this.getId(page)));
+  }
+
   async getId(page: Page): Promise<string> {
     const existing = this.map.get(page);
     if (existing) {
@@ -51,16 +61,15 @@ export class TabRegistry {
     this.lastFocusedTabId = await this.getId(page);
   }
 
-  async getActivePage(pages: Page[]): Promise<Page | undefined> {
+  /**
+   * The tab Chrome shows as active, when the connection tracks it; otherwise the tab last
+   * acted in, the first ordinary web page, and finally the most recent page.
+   */
+  async getActivePage(pages: Page[], tracked?: Page): Promise<Page | undefined> {
     await this.refresh(pages);
 
-    // Active tab strategy: prefer a focused page if detectable (document.hasFocus),
-    // otherwise fall back to the last focused tab we observed, otherwise choose the
-    // first non-extension/non-devtools/non-blank tab, finally fall back to the most
-    // recent page (last in the list) to match BrowserConnection.getActiveTab() behavior.
-    const focused = await this.findFocusedPage(pages);
-    if (focused) {
-      return focused;
+    if (tracked && pages.includes(tracked)) {
+      return tracked;
     }
 
     if (this.lastFocusedTabId) {
@@ -77,13 +86,12 @@ export class TabRegistry {
     if (nonIgnored) {
       return nonIgnored;
     }
-    
-    // Fallback to last page (most recent) to match BrowserConnection.getActiveTab()
+
     return pages[pages.length - 1];
   }
 
-  async listTabs(pages: Page[]): Promise<TabSummary[]> {
-    const activePage = await this.getActivePage(pages);
+  async listTabs(pages: Page[], tracked?: Page): Promise<TabSummary[]> {
+    const activePage = await this.getActivePage(pages, tracked);
     const activeId = activePage ? await this.getId(activePage) : null;
 
     return Promise.all(
@@ -103,25 +111,6 @@ export class TabRegistry {
     );
   }
 
-  private async findFocusedPage(pages: Page[]): Promise<Page | null> {
-    const focusStates = await Promise.all(
-      pages.map(async (page) => {
-        const url = page.url();
-        if (isIgnoredUrl(url) || url === 'about:blank') {
-          return false;
-        }
-        try {
-          return (await page.evaluate(() => document.hasFocus())) as boolean;
-        } catch {
-          return false;
-        }
-      })
-    );
-
-    const index = focusStates.findIndex(Boolean);
-    return index >= 0 ? pages[index] : null;
-  }
-
   private async getTargetId(page: Page): Promise<string | undefined> {
     try {
       const session = await page.context().newCDPSession(page);
@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+
+import { existsSync } from 'node:fs';
+import { createInterface } from 'node:readline/promises';
+import { Writable } from 'node:stream';
+import { text } from 'node:stream/consumers';
+import { verifyAuditLog } from '../policy/auditChain.js';
+import {
+  DEFAULT_AUDIT_SIGNING_KEY_PATH,
+  loadPublicKey,
+  publicKeyPathFor,
+} from '../policy/auditKeys.js';
+import { loadPolicyConfig } from '../policy/policy.js';
+import { formatPolicyFileIssue, validatePolicyFile } from '../policy/policyFile.js';
+import {
+  resolveVaultPassphrase,
+  SecretVault,
+  storeKeyringPassphrase,
+  VaultError,
+  vaultPathFromEnv,
+} from '../policy/vault.js';
+
+const USAGE = `Usage:
+  tabnab policy validate <file>   Validate a policy file without starting the server
+  tabnab audit verify [file] [--public-key <pem>]
+                                  Verify the audit log, its rotated segments and signed checkpoints
+  tabnab vault init [--keyring]   Create the secret vault, optionally keeping the passphrase in the OS keyring
+  tabnab vault add <name> --domain <pattern> [--domain <pattern>...]
+                                  Store a secret, read from the terminal or stdin, for fill_secret
+  tabnab vault list               List secret names and their domains
+  tabnab vault remove <name>      Delete a secret`;
+
+/**
+ * Reads answers without echoing them: typed at a terminal, or one line each from piped
+ * stdin, which is read whole up front since readline drops lines nobody is waiting for.
+ */
+class HiddenPrompt {
+  private piped: string[] | undefined;
+
+  async ask(question: string): Promise<string> {
+    if (!process.stdin.isTTY) {
+      this.piped ??= (await text(process.stdin)).split(/\r?\n/);
+      return this.piped.shift() ?? '';
+    }
+
+    process.stderr.write(question);
+    const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+    const readline = createInterface({ input: process.stdin, output: muted, terminal: true });
+    try {
+      return await readline.question('');
+    } finally {
+      readline.close();
+      process.stderr.write('\n');
+    }
+  }
+}
+
+function policyValidate(args: string[]): number {
+  const [filePath] = args;
+  if (!filePath) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const result = validatePolicyFile(filePath);
+  if (!result.ok) {
+    for (const issue of result.issues) {
+      console.error(`${filePath}: ${formatPolicyFileIssue(issue)}`);
+    }
+    console.error(`${filePath}: ${result.issues.length} problem(s) found`);
+    return 1;
+  }
+
+  const { settings, config } = result.contents;
+  const format = Object.keys(settings).length > 0 ? 'legacy TABNAB_* settings' : 'policy document';
+  const domains = Object.keys(config.domainPolicies ?? {}).length;
+  console.log(`${filePath}: OK (${format}${domains > 0 ? `, ${domains} domain block(s)` : ''})`);
+  return 0;
+}
+
+async function auditVerify(args: string[]): Promise<number> {
+  const keyFlag = args.indexOf('--public-key');
+  const publicKeyArg = keyFlag >= 0 ? args[keyFlag + 1] : undefined;
+  const positional =
+    keyFlag >= 0 ? args.filter((_arg, index) => index !== keyFlag && index !== keyFlag + 1) : args;
+  if ((keyFlag >= 0 && !publicKeyArg) || positional.length > 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (publicKeyArg && !existsSync(publicKeyArg)) {
+    console.error(`${publicKeyArg}: public key not found`);
+    return 2;
+  }
+
+  const config = loadPolicyConfig();
+  const logPath = positional[0] ?? config.auditLogPath;
+  const publicKeyPath =
+    publicKeyArg ?? publicKeyPathFor(config.auditSigningKeyPath ?? DEFAULT_AUDIT_SIGNING_KEY_PATH);
+  const publicKey = existsSync(publicKeyPath) ? loadPublicKey(publicKeyPath) : undefined;
+  if (!publicKey) {
+    console.error(
+      `${logPath}: no public key at ${publicKeyPath}; checkpoint signatures not checked`
+    );
+  }
+
+  const result = await verifyAuditLog(logPath, { publicKey });
+  if (!result.ok && result.failure) {
+    const { file, line, seq, reason } = result.failure;
+    console.error(`${file}: line ${line}${seq !== undefined ? ` (seq ${seq})` : ''}: ${reason}`);
+    return 1;
+  }
+
+  if (result.startSeq) {
+    console.error(
+      `The log starts at seq ${result.startSeq}; earlier entries were pruned by retention.`
+    );
+  }
+  console.log(`${logPath}: OK (${result.entries} entries, ${result.checkpoints} checkpoint(s))`);
+  return 0;
+}
+
+async function unlockVault(prompt: HiddenPrompt): Promise<SecretVault> {
+  const passphrase = (await resolveVaultPassphrase()) ?? (await prompt.ask('Vault passphrase: '));
+  return SecretVault.open(vaultPathFromEnv(), passphrase);
+}
+
+async function vaultInit(args: string[], prompt: HiddenPrompt): Promise<number> {
+  const useKeyring = args.includes('--keyring');
+  let passphrase = process.env.TABNAB_VAULT_PASSPHRASE;
+  if (!passphrase) {
+    passphrase = await prompt.ask('New vault passphrase: ');
+    if ((await prompt.ask('Repeat the passphrase: ')) !== passphrase) {
+      console.error('The passphrases do not match.');
+      return 1;
+    }
+  }
+
+  const vault = await SecretVault.create(vaultPathFromEnv(), passphrase);
+  if (useKeyring) {
+    await storeKeyringPassphrase(passphrase);
+  }
+  console.log(
+    `${vault.filePath}: vault created${useKeyring ? ', passphrase stored in the OS keyring' : ''}`
+  );
+  return 0;
+}
+
+async function vaultAdd(args: string[], prompt: HiddenPrompt): Promise<number> {
+  const domains: string[] = [];
+  const positional: string[] = [];
+  for (let index = 0; index < args.length; index += 1) {
+    if (args[index] === '--domain') {
+      domains.push(args[index + 1] ?? '');
+      index += 1;
+    } else {
+      positional.push(args[index]);
+    }
+  }
+  const [name] = positional;
+  if (!name || positional.length > 1 || domains.length === 0 || domains.includes('')) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const vault = await unlockVault(prompt);
+  const value = await prompt.ask(`Value for ${name}: `);
+  if (!value) {
+    console.error('The secret value cannot be empty.');
+    return 1;
+  }
+  await vault.set(name, value, domains);
+  console.log(`${name}: stored for ${domains.join(', ')}`);
+  return 0;
+}
+
+async function vaultList(prompt: HiddenPrompt): Promise<number> {
+  const vault = await unlockVault(prompt);
+  for (const secret of await vault.list()) {
+    console.log(`${secret.name}\t${secret.domains.join(', ')}\t${secret.createdAt}`);
+  }
+  return 0;
+}
+
+async function vaultRemove(args: string[], prompt: HiddenPrompt): Promise<number> {
+  const [name] = args;
+  if (!name || args.length > 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const vault = await unlockVault(prompt);
+  if (!(await vault.remove(name))) {
+    console.error(`${name}: no such secret`);
+    return 1;
+  }
+  console.log(`${name}: removed`);
+  return 0;
+}
+
+async function vault(subcommand: string | undefined, args: string[]): Promise<number> {
+  const prompt = new HiddenPrompt();
+  try {
+    switch (subcommand) {
+      case 'init':
+        return await vaultInit(args, prompt);
+      case 'add':
+        return await vaultAdd(args, prompt);
+      case 'list':
+        return await vaultList(prompt);
+      case 'remove':
+        return await vaultRemove(args, prompt);
+      default:
+        console.error(USAGE);
+        return 2;
+    }
+  } catch (error) {
+    if (error instanceof VaultError) {
+      console.error(error.message);
+      return 1;
+    }
+    throw error;
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, subcommand, ...rest] = argv;
+
+  if (command === 'policy' && subcommand === 'validate') {
+    return policyValidate(rest);
+  }
+
+  if (command === 'audit' && subcommand === 'verify') {
+    return auditVerify(rest);
+  }
+
+  if (command === 'vault') {
+    return vault(subcommand, rest);
+  }
+
+  console.error(USAGE);
+  return 2;
+}
+
+process.exitCode = await main(process.argv.slice(2));
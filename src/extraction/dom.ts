@@ -1,15 +1,28 @@
 import { JSDOM } from 'jsdom';
+import type { TextSegment } from '../policy/prompts.js';
+import type { HiddenContentMode } from '../policy/types.js';
+import { HIDDEN_ATTRIBUTE } from './visibility.js';
 
 export interface DomSanitizeOptions {
   removeIframes?: boolean;
   maxChars?: number;
+  /** Replaces the values of hidden inputs, which often hold CSRF or session tokens. */
+  redactHiddenInputs?: boolean;
+  /**
+   * What to do with elements the live page marked as hidden: `drop` removes them, and
+   * `quarantine` (the default) keeps them with their `data-tabnab-hidden` reason.
+   */
+  hiddenContent?: HiddenContentMode;
 }
 
 export interface SanitizedDomResult {
   html: string;
   truncated: boolean;
+  redactedHiddenInputs: number;
 }
 
+const HIDDEN_INPUT_MARKER = '[REDACTED:hidden_input]';
+
 const INLINE_EVENT_HANDLER = /^on/i;
 
 export function sanitizeDom(html: string, options: DomSanitizeOptions = {}): SanitizedDomResult {
@@ -20,12 +33,28 @@ export function sanitizeDom(html: string, options: DomSanitizeOptions = {}): San
     node.remove();
   });
 
+  if (options.hiddenContent === 'drop') {
+    document.querySelectorAll(`[${HIDDEN_ATTRIBUTE}]`).forEach((node) => {
+      node.remove();
+    });
+  }
+
   if (options.removeIframes) {
     document.querySelectorAll('iframe').forEach((node) => {
       node.remove();
     });
   }
 
+  let redactedHiddenInputs = 0;
+  if (options.redactHiddenInputs) {
+    document.querySelectorAll('input[type="hidden" i][value]').forEach((node) => {
+      if (node.getAttribute('value')) {
+        node.setAttribute('value', HIDDEN_INPUT_MARKER);
+        redactedHiddenInputs += 1;
+      }
+    });
+  }
+
   document.querySelectorAll('*').forEach((node) => {
     for (const attribute of Array.from(node.attributes)) {
       if (INLINE_EVENT_HANDLER.test(attribute.name)) {
@@ -37,7 +66,144 @@ export function sanitizeDom(html: string, options: DomSanitizeOptions = {}): San
   const serialized = document.documentElement?.outerHTML ?? '';
   const maxChars = options.maxChars ?? 200_000;
   const truncated = serialized.length > maxChars;
-  const htmlOutput = truncated ? `${serialized.slice(0, maxChars)}\n<!-- TRUNCATED -->` : serialized;
+  const htmlOutput = truncated
+    ? `${serialized.slice(0, maxChars)}\n<!-- TRUNCATED -->`
+    : serialized;
+
+  return { html: htmlOutput, truncated, redactedHiddenInputs };
+}
+
+// Inline styles that keep an element's text from being seen. Without layout this is a
+// static approximation; the live page is needed to catch hiding done by stylesheets.
+const HIDING_STYLE =
+  /(?:^|;)\s*(?:display\s*:\s*none|visibility\s*:\s*hidden|opacity\s*:\s*0(?:\.0*)?\s*(?:;|$)|font-size\s*:\s*0(?:px|em|rem|%)?\s*(?:;|$)|(?:left|top|text-indent)\s*:\s*-\d{3,}px)/i;
+
+const BLOCK_ELEMENTS =
+  'address, article, aside, blockquote, br, dd, div, dl, dt, fieldset, figcaption, figure, footer, form, h1, h2, h3, h4, h5, h6, header, hr, li, main, nav, ol, p, pre, section, table, td, th, tr, ul';
+
+const ATTRIBUTE_SOURCES: [string, TextSegment['source']][] = [
+  ['alt', 'alt_text'],
+  ['title', 'title_attribute'],
+  ['aria-label', 'aria_label'],
+  ['aria-description', 'aria_label'],
+  ['placeholder', 'placeholder'],
+];
+
+/**
+ * Removes the innermost blocks, comments and attributes whose text `matches`. Blocks are
+ * checked from the inside out, so a match takes its paragraph or list item with it and
+ * not the whole section around it.
+ */
+export function stripMatchingElements(
+  html: string,
+  matches: (text: string) => boolean
+): { text: string; removed: number } {
+  const dom = new JSDOM(html);
+  const { document, NodeFilter } = dom.window;
+  let removed = 0;
+
+  const comments: Node[] = [];
+  const walker = document.createTreeWalker(document, NodeFilter.SHOW_COMMENT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    comments.push(node);
+  }
+  for (const node of comments) {
+    if (matches(node.nodeValue ?? '')) {
+      node.parentNode?.removeChild(node);
+      removed += 1;
+    }
+  }
+
+  for (const [attribute] of ATTRIBUTE_SOURCES) {
+    document.querySelectorAll(`[${attribute}]`).forEach((node) => {
+      if (matches(node.getAttribute(attribute) ?? '')) {
+        node.removeAttribute(attribute);
+        removed += 1;
+      }
+    });
+  }
+
+  const blocks = Array.from(
+    document.querySelectorAll(`${BLOCK_ELEMENTS}, template, [${HIDDEN_ATTRIBUTE}]`)
+  ).reverse();
+  for (const node of blocks) {
+    const text =
+      node.localName === 'template'
+        ? (node as HTMLTemplateElement).content.textContent
+        : node.textContent;
+    if (node.isConnected && matches(text ?? '')) {
+      node.remove();
+      removed += 1;
+    }
+  }
+
+  return { text: dom.serialize(), removed };
+}
+
+/**
+ * Splits a page into the pieces of text a prompt-injection scan should see, labelled by
+ * where they came from: visible text, text in hidden elements, attributes that are read
+ * out or shown on hover, `<meta>` descriptions and comments.
+ */
+export function collectTextSegments(html: string): TextSegment[] {
+  const dom = new JSDOM(html);
+  const { document, NodeFilter } = dom.window;
+  const segments: TextSegment[] = [];
+  const push = (text: string | null | undefined, source: TextSegment['source']) => {
+    const trimmed = text?.trim();
+    if (trimmed) {
+      segments.push({ text: trimmed, source });
+    }
+  };
+
+  document.querySelectorAll('meta[content]').forEach((node) => {
+    const name = (node.getAttribute('name') ?? node.getAttribute('property') ?? '').toLowerCase();
+    if (/description|keywords|title/.test(name)) {
+      push(node.getAttribute('content'), 'meta');
+    }
+  });
+
+  const comments = document.createTreeWalker(document, NodeFilter.SHOW_COMMENT);
+  for (let node = comments.nextNode(); node; node = comments.nextNode()) {
+    push(node.nodeValue, 'comment');
+  }
+
+  for (const [attribute, source] of ATTRIBUTE_SOURCES) {
+    document.querySelectorAll(`[${attribute}]`).forEach((node) => {
+      push(node.getAttribute(attribute), source);
+    });
+  }
+
+  // Elements the live page found hidden are scanned separately, with their selectors.
+  document.querySelectorAll(`script, style, noscript, [${HIDDEN_ATTRIBUTE}]`).forEach((node) => {
+    node.remove();
+  });
+  // Keeps the text of adjacent blocks from running together into one word.
+  document.querySelectorAll(BLOCK_ELEMENTS).forEach((node) => {
+    node.append('\n');
+  });
+  document.querySelectorAll('template').forEach((node) => {
+    push(node.content.textContent, 'hidden_element');
+    node.remove();
+  });
+  const hidden = Array.from(
+    document.querySelectorAll('[hidden], [aria-hidden="true" i], [style]')
+  ).filter(
+    (node) =>
+      node.hasAttribute('hidden') ||
+      node.getAttribute('aria-hidden')?.toLowerCase() === 'true' ||
+      HIDING_STYLE.test(node.getAttribute('style') ?? '')
+  );
+  for (const node of hidden) {
+    // Nested hidden elements are reported with their outermost hidden ancestor.
+    if (node.isConnected && !hidden.some((other) => other !== node && other.contains(node))) {
+      push(node.textContent, 'hidden_element');
+    }
+  }
+  for (const node of hidden) {
+    node.remove();
+  }
 
-  return { html: htmlOutput, truncated };
+  push(document.body?.textContent, 'text');
+  return segments;
 }
@@ -2,12 +2,16 @@ import { Readability } from '@mozilla/readability';
 import { JSDOM } from 'jsdom';
 import type { Page } from 'playwright';
 import TurndownService from 'turndown';
-import { sanitizeDom, type DomSanitizeOptions, type SanitizedDomResult } from './dom.js';
+import type { HiddenContentMode } from '../policy/types.js';
+import { type DomSanitizeOptions, sanitizeDom } from './dom.js';
+import { HIDDEN_ATTRIBUTE, type HiddenText, snapshotPage } from './visibility.js';
 
 export interface ExtractedContent {
   title: string;
   markdown: string;
   url: string;
+  /** Text the page does not show, whether it was dropped or quarantined. */
+  hiddenText: HiddenText[];
 }
 
 export interface ExtractedDomContent {
@@ -15,6 +19,32 @@ export interface ExtractedDomContent {
   url: string;
   html: string;
   truncated: boolean;
+  redactedHiddenInputs: number;
+  hiddenText: HiddenText[];
+}
+
+export interface MarkdownExtractOptions {
+  hiddenContent?: HiddenContentMode;
+}
+
+const HIDDEN_PLACEHOLDER = /⟦tabnab-hidden:(\d+)⟧/g;
+
+// A quarantine block, as written by `quarantineBlock`.
+const QUARANTINE_BLOCK = /^> \[!HIDDEN\].*(?:\n>.*)*\n?/gm;
+
+/** Removes the paragraphs, list blocks and quarantine blocks whose text `matches`. */
+export function stripMatchingBlocks(
+  markdown: string,
+  matches: (text: string) => boolean
+): { text: string; removed: number } {
+  const blocks = markdown.split(/\n{2,}/);
+  const kept = blocks.filter((block) => !matches(block));
+  return { text: kept.join('\n\n'), removed: blocks.length - kept.length };
+}
+
+/** Removes quarantined hidden text, leaving what the page actually shows. */
+export function stripQuarantineBlocks(markdown: string): string {
+  return markdown.replace(QUARANTINE_BLOCK, '');
 }
 
 export class MarkdownExtractor {
@@ -34,40 +64,61 @@ export class MarkdownExtractor {
     });
   }
 
-  async extractFromPage(page: Page): Promise<ExtractedContent> {
+  /**
+   * Hidden elements are taken out before Readability sees the page. With `quarantine`
+   * (the default) their text is put back as marked blocks where they stood; with `drop`
+   * it is left out.
+   */
+  async extractFromPage(
+    page: Page,
+    options: MarkdownExtractOptions = {}
+  ): Promise<ExtractedContent> {
     const url = page.url();
-    const html = await page.content();
+    const snapshot = await snapshotPage(page);
+    const quarantine = (options.hiddenContent ?? 'quarantine') === 'quarantine';
+
+    const dom = new JSDOM(snapshot.html, { url });
+    const { document } = dom.window;
+    document.querySelectorAll(`[${HIDDEN_ATTRIBUTE}]`).forEach((node, index) => {
+      if (quarantine) {
+        node.replaceWith(document.createTextNode(` ⟦tabnab-hidden:${index}⟧ `));
+      } else {
+        node.remove();
+      }
+    });
+    const prepared = dom.serialize();
 
     // Use Mozilla's Readability to extract the main content
-    const dom = new JSDOM(html, { url });
-    const reader = new Readability(dom.window.document);
+    const reader = new Readability(document);
     const article = reader.parse();
 
-    if (!article) {
+    let title: string;
+    let contentHtml: string;
+    if (article) {
+      title = article.title || 'Untitled';
+      contentHtml = article.content || '';
+    } else {
       // Fallback to basic extraction if Readability fails
-      const title = await page.title();
-      const bodyHtml = (await page.evaluate(() => {
-        const article = document.querySelector('article');
-        const main = document.querySelector('main');
-        const content = article || main || document.body;
-        return content.innerHTML;
-      })) as string;
-
-      const markdown = this.turndown.turndown(bodyHtml);
-      return {
-        title,
-        markdown: markdown.trim(),
-        url,
-      };
+      title = await page.title();
+      const fallback = new JSDOM(prepared).window.document;
+      const content =
+        fallback.querySelector('article') ?? fallback.querySelector('main') ?? fallback.body;
+      contentHtml = content?.innerHTML ?? '';
     }
 
-    // Convert the extracted HTML to Markdown
-    const markdown = this.turndown.turndown(article.content || '');
+    const markdown = this.turndown
+      .turndown(contentHtml)
+      .replace(HIDDEN_PLACEHOLDER, (_placeholder, index: string) => {
+        const hidden = snapshot.hidden[Number(index)];
+        return hidden ? `\n\n${quarantineBlock(hidden)}\n\n` : '';
+      })
+      .replace(/\n{3,}/g, '\n\n');
 
     return {
-      title: article.title || 'Untitled',
+      title,
       markdown: markdown.trim(),
       url,
+      hiddenText: snapshot.hidden,
     };
   }
 
@@ -81,14 +132,22 @@ export class MarkdownExtractor {
   ): Promise<ExtractedDomContent> {
     const url = page.url();
     const title = await page.title();
-    const html = await page.content();
-    const sanitized = sanitizeDom(html, options);
+    const snapshot = await snapshotPage(page);
+    const sanitized = sanitizeDom(snapshot.html, options);
 
     return {
       title,
       url,
       html: sanitized.html,
       truncated: sanitized.truncated,
+      redactedHiddenInputs: sanitized.redactedHiddenInputs,
+      hiddenText: snapshot.hidden,
     };
   }
 }
+
+// The text is collapsed onto one quoted line, so it cannot end the block and pass itself
+// off as page content.
+function quarantineBlock(hidden: HiddenText): string {
+  return `> [!HIDDEN] Not visible on the page (${hidden.reason}) at \`${hidden.selector}\`:\n> ${hidden.text}`;
+}
@@ -0,0 +1,204 @@
+import type { Page } from 'playwright';
+
+/** Why an element's text cannot be seen on the rendered page. */
+export type HiddenReason =
+  | 'display_none'
+  | 'visibility_hidden'
+  | 'transparent'
+  | 'zero_size'
+  | 'clipped'
+  | 'off_screen'
+  | 'same_color'
+  | 'aria_hidden';
+
+export interface HiddenText {
+  selector: string;
+  reason: HiddenReason;
+  text: string;
+}
+
+export interface VisibilitySnapshot {
+  /** The page's HTML, with each hidden element marked by `data-tabnab-hidden`. */
+  html: string;
+  /** The marked elements, in document order. */
+  hidden: HiddenText[];
+}
+
+export const HIDDEN_ATTRIBUTE = 'data-tabnab-hidden';
+
+/** Serializes the page with the elements a reader cannot see marked, using computed styles. */
+export async function snapshotPage(page: Page): Promise<VisibilitySnapshot> {
+  return (await page.$eval('html', snapshotVisibility)) as VisibilitySnapshot;
+}
+
+/**
+ * Runs inside the page, so it must stay self-contained: no imports, module constants or
+ * helpers defined outside the function body. The live page is not modified; hidden
+ * elements are marked on a copy, and only the outermost element of a hidden subtree is
+ * reported.
+ */
+export function snapshotVisibility(root: Element): VisibilitySnapshot {
+  const MARKER = 'data-tabnab-hidden';
+  const MAX_HIDDEN = 200;
+  const MAX_TEXT_LENGTH = 2000;
+  const SKIPPED = new Set(['HEAD', 'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE']);
+  const CLIPPED =
+    /^rect\(\s*0(?:px)?\s*,?\s*0(?:px)?\s*,?\s*0(?:px)?\s*,?\s*0(?:px)?\s*\)$|^inset\(\s*(?:50|100)%\s*\)$/;
+
+  const document = root.ownerDocument;
+  const view = document.defaultView;
+  const hidden: HiddenText[] = [];
+
+  const parseColor = (value: string): number[] | undefined => {
+    const match = value.match(/rgba?\(([^)]+)\)/);
+    if (!match) {
+      return undefined;
+    }
+    const parts = match[1]
+      .split(/[\s,/]+/)
+      .filter(Boolean)
+      .map(Number);
+    return [parts[0], parts[1], parts[2], parts[3] ?? 1];
+  };
+
+  // The nearest opaque background behind the element; white when nothing sets one, and
+  // unknown when an image is in the way.
+  const backgroundOf = (element: Element): number[] | undefined => {
+    for (let node: Element | null = element; node; node = node.parentElement) {
+      const style = view?.getComputedStyle(node);
+      if (!style) {
+        return undefined;
+      }
+      if (style.backgroundImage && style.backgroundImage !== 'none') {
+        return undefined;
+      }
+      const color = parseColor(style.backgroundColor);
+      if (color && color[3] > 0) {
+        return color;
+      }
+    }
+    return [255, 255, 255, 1];
+  };
+
+  const hasOwnText = (element: Element) =>
+    Array.from(element.childNodes).some(
+      (node) => node.nodeType === 3 && Boolean(node.nodeValue?.trim())
+    );
+
+  const hiddenReason = (element: Element): HiddenReason | undefined => {
+    const style = view?.getComputedStyle(element);
+    if (!style) {
+      return undefined;
+    }
+    if ((element as HTMLElement).hidden || style.display === 'none') {
+      return 'display_none';
+    }
+    if (style.visibility === 'hidden' || style.visibility === 'collapse') {
+      return 'visibility_hidden';
+    }
+    if (Number.parseFloat(style.opacity) === 0) {
+      return 'transparent';
+    }
+    if (element.getAttribute('aria-hidden')?.toLowerCase() === 'true') {
+      return 'aria_hidden';
+    }
+    if (CLIPPED.test(style.clip ?? '') || CLIPPED.test(style.clipPath ?? '')) {
+      return 'clipped';
+    }
+    if (Number.parseFloat(style.fontSize) < 1) {
+      return 'zero_size';
+    }
+
+    const rect = element.getBoundingClientRect();
+    const clipsOverflow = style.overflow !== 'visible' && style.overflow !== '';
+    if (clipsOverflow && (rect.width <= 1 || rect.height <= 1)) {
+      return 'zero_size';
+    }
+    if (rect.width > 0 && rect.height > 0 && view) {
+      const pageWidth = Math.max(document.documentElement.scrollWidth, view.innerWidth);
+      const left = rect.left + view.scrollX;
+      const top = rect.top + view.scrollY;
+      if (left + rect.width <= 0 || top + rect.height <= 0 || left >= pageWidth) {
+        return 'off_screen';
+      }
+    }
+    if (Number.parseFloat(style.textIndent) <= -999) {
+      return 'off_screen';
+    }
+
+    if (hasOwnText(element)) {
+      const color = parseColor(style.color);
+      if (color && color[3] === 0) {
+        return 'transparent';
+      }
+      const background = backgroundOf(element);
+      if (
+        color &&
+        background &&
+        color.slice(0, 3).every((channel, index) => Math.abs(channel - background[index]) <= 8)
+      ) {
+        return 'same_color';
+      }
+    }
+    return undefined;
+  };
+
+  const selectorOf = (element: Element): string => {
+    const escapeIdent = (value: string) =>
+      typeof CSS !== 'undefined' ? CSS.escape(value) : value.replace(/[^\w-]/g, '\\$&');
+    const parts: string[] = [];
+    for (let node: Element | null = element; node && parts.length < 5; node = node.parentElement) {
+      const tag = node.tagName.toLowerCase();
+      if (node.id && document.querySelectorAll(`#${escapeIdent(node.id)}`).length === 1) {
+        parts.unshift(`#${escapeIdent(node.id)}`);
+        break;
+      }
+      if (tag === 'body' || tag === 'html') {
+        parts.unshift(tag);
+        break;
+      }
+      const siblings = Array.from(node.parentElement?.children ?? []).filter(
+        (sibling) => sibling.tagName === node?.tagName
+      );
+      parts.unshift(
+        siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})` : tag
+      );
+    }
+    return parts.join(' > ');
+  };
+
+  const visit = (element: Element, copy: Element) => {
+    const children = Array.from(element.children);
+    const copies = Array.from(copy.children);
+    children.forEach((child, index) => {
+      const childCopy = copies[index];
+      const text = child.textContent?.replace(/\s+/g, ' ').trim();
+      if (!childCopy || SKIPPED.has(child.tagName) || !text) {
+        return;
+      }
+      const reason = hidden.length < MAX_HIDDEN ? hiddenReason(child) : undefined;
+      // A visible descendant of a visibility:hidden element is still shown.
+      const overridden =
+        reason === 'visibility_hidden' &&
+        Array.from(child.querySelectorAll('*')).some(
+          (node) => view?.getComputedStyle(node).visibility === 'visible'
+        );
+      if (reason && !overridden) {
+        childCopy.setAttribute(MARKER, reason);
+        hidden.push({ selector: selectorOf(child), reason, text: text.slice(0, MAX_TEXT_LENGTH) });
+        return;
+      }
+      visit(child, childCopy);
+    });
+  };
+
+  const copy = root.cloneNode(true) as Element;
+  // Only this snapshot may mark elements: a marker the page wrote itself would take visible
+  // text out of the scan, which trusts that marked text is reported in `hidden`.
+  for (const node of [copy, ...Array.from(copy.querySelectorAll(`[${MARKER}]`))]) {
+    node.removeAttribute(MARKER);
+  }
+  visit(root, copy);
+  const doctype = document.doctype ? `<!DOCTYPE ${document.doctype.name}>` : '';
+  return { html: `${doctype}${copy.outerHTML}`, hidden };
+}
@@ -1,23 +1,39 @@
 #!/usr/bin/env node
 
+import { BrowserConfigError, describeEndpoint, loadBrowserProfiles } from '../browser/config.js';
+import { PolicySettingsError } from '../policy/policy.js';
+import { PolicyConfigError } from '../policy/policyFile.js';
+import { SecretConfigError } from '../policy/secrets.js';
 import { TabNabMCPServer } from './server.js';
 
-const DEFAULT_DEBUG_PORT = 9222;
-
 async function main() {
-  const debugPort = process.env.CHROME_DEBUG_PORT
-    ? Number.parseInt(process.env.CHROME_DEBUG_PORT, 10)
-    : DEFAULT_DEBUG_PORT;
-
-  console.error(`Starting TabNab MCP Server (Chrome debug port: ${debugPort})`);
-
-  const server = new TabNabMCPServer(debugPort);
-
   try {
+    const browsers = loadBrowserProfiles();
+    const chrome = Object.entries(browsers).map(([name, config]) => {
+      const endpoint = describeEndpoint(config.endpoint);
+      const label = Object.keys(browsers).length > 1 ? `${name}: ${endpoint}` : endpoint;
+      return config.launch
+        ? `${label}, launched with the profile at ${config.launch.userDataDir} if not running`
+        : label;
+    });
+    console.error(
+      `Starting TabNab MCP Server (Chrome endpoint${chrome.length > 1 ? 's' : ''}: ${chrome.join('; ')})`
+    );
+
+    const server = new TabNabMCPServer({ browsers });
     await server.start();
     console.error('TabNab MCP Server is running');
   } catch (error) {
-    console.error('Failed to start TabNab MCP Server:', error);
+    if (
+      error instanceof PolicyConfigError ||
+      error instanceof PolicySettingsError ||
+      error instanceof BrowserConfigError ||
+      error instanceof SecretConfigError
+    ) {
+      console.error(`Failed to start TabNab MCP Server: ${error.message}`);
+    } else {
+      console.error('Failed to start TabNab MCP Server:', error);
+    }
     process.exit(1);
   }
 }
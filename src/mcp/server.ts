@@ -1,20 +1,44 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   type CallToolRequest,
   CallToolRequestSchema,
+  ErrorCode,
+  ListResourcesRequestSchema,
   type ListToolsRequest,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { MCPTools } from './tools.js';
+import type { ConnectionStatus } from '../browser/connection.js';
+import {
+  type ActivateTabInput,
+  type BrowserSelectionInput,
+  MCPTools,
+  type MCPToolsOptions,
+  type QueryAuditLogInput,
+  type ScreenshotInput,
+  toolInputSecrets,
+} from './tools.js';
 import { fail } from '../lib/response.js';
+import { scrubSecrets } from '../policy/secrets.js';
+import { isToolEnabled } from '../policy/toolPermissions.js';
+import {
+  AUDIT_OUTCOMES,
+  type AuditOutcome,
+  type PolicyConfig,
+  TOOL_NAMES,
+} from '../policy/types.js';
+
+const AUDIT_RESOURCE_URI = 'tabnab://audit/recent';
 
 export class TabNabMCPServer {
   private server: Server;
   private tools: MCPTools;
 
-  constructor(debugPort = 9222) {
-    this.tools = new MCPTools(debugPort);
+  constructor(options: number | MCPToolsOptions = 9222) {
+    this.tools = new MCPTools(options);
     this.server = new Server(
       {
         name: 'tabnab',
@@ -22,11 +46,18 @@ export class TabNabMCPServer {
       },
       {
         capabilities: {
-          tools: {},
+          tools: { listChanged: true },
+          resources: {},
+          logging: {},
         },
       }
     );
 
+    this.server.oninitialized = () => {
+      const client = this.server.getClientVersion();
+      this.tools.setClientInfo(client && { name: client.name, version: client.version });
+    };
+
     this.setupHandlers();
   }
 
@@ -40,7 +71,12 @@ export class TabNabMCPServer {
             description: 'Get the URL and title of the currently active browser tab',
             inputSchema: {
               type: 'object',
-              properties: {},
+              properties: {
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
+              },
               required: [],
             },
           },
@@ -49,7 +85,12 @@ export class TabNabMCPServer {
             description: 'List all open tabs with their IDs, URLs, titles, and active state',
             inputSchema: {
               type: 'object',
-              properties: {},
+              properties: {
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
+              },
               required: [],
             },
           },
@@ -59,6 +100,10 @@ export class TabNabMCPServer {
             inputSchema: {
               type: 'object',
               properties: {
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
                 tabId: {
                   type: 'string',
                   description: 'Tab identifier returned by list_tabs',
@@ -86,6 +131,10 @@ export class TabNabMCPServer {
                   type: 'boolean',
                   description: 'Whether to include prompt-injection warnings',
                 },
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
                 tabId: {
                   type: 'string',
                   description: 'Optional tab identifier returned by list_tabs',
@@ -108,6 +157,10 @@ export class TabNabMCPServer {
                   type: 'string',
                   description: 'CSS selector for the element to click',
                 },
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
                 tabId: {
                   type: 'string',
                   description: 'Optional tab identifier returned by list_tabs',
@@ -134,6 +187,46 @@ export class TabNabMCPServer {
                   type: 'string',
                   description: 'Value to fill into the input field',
                 },
+                valueRef: {
+                  type: 'string',
+                  description:
+                    'Name of a locally stored secret to fill instead of value; the secret is never returned',
+                },
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
+                tabId: {
+                  type: 'string',
+                  description: 'Optional tab identifier returned by list_tabs',
+                },
+                confirmationId: {
+                  type: 'string',
+                  description: 'Optional confirmation ID from confirm_action',
+                },
+              },
+              required: ['selector'],
+            },
+          },
+          {
+            name: 'fill_secret',
+            description:
+              'Fill an input field with a secret from the local vault. The secret is only filled on pages within its registered domains and is never returned',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Name of the vault secret, as registered with `tabnab vault add`',
+                },
+                selector: {
+                  type: 'string',
+                  description: 'CSS selector for the input field',
+                },
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
                 tabId: {
                   type: 'string',
                   description: 'Optional tab identifier returned by list_tabs',
@@ -143,7 +236,7 @@ export class TabNabMCPServer {
                   description: 'Optional confirmation ID from confirm_action',
                 },
               },
-              required: ['selector', 'value'],
+              required: ['name', 'selector'],
             },
           },
           {
@@ -156,6 +249,10 @@ export class TabNabMCPServer {
                   type: 'string',
                   description: 'Text to type',
                 },
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
                 tabId: {
                   type: 'string',
                   description: 'Optional tab identifier returned by list_tabs',
@@ -178,6 +275,10 @@ export class TabNabMCPServer {
                   type: 'string',
                   description: 'Key to press (e.g., Enter, Escape)',
                 },
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
                 tabId: {
                   type: 'string',
                   description: 'Optional tab identifier returned by list_tabs',
@@ -204,6 +305,10 @@ export class TabNabMCPServer {
                   type: 'number',
                   description: 'Timeout in milliseconds',
                 },
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
                 tabId: {
                   type: 'string',
                   description: 'Optional tab identifier returned by list_tabs',
@@ -230,6 +335,10 @@ export class TabNabMCPServer {
                   type: 'string',
                   description: 'load, domcontentloaded, or networkidle',
                 },
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
                 tabId: {
                   type: 'string',
                   description: 'Optional tab identifier returned by list_tabs',
@@ -261,6 +370,10 @@ export class TabNabMCPServer {
                   type: 'number',
                   description: 'Maximum number of items to return',
                 },
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
                 tabId: {
                   type: 'string',
                   description: 'Optional tab identifier returned by list_tabs',
@@ -287,6 +400,10 @@ export class TabNabMCPServer {
                   type: 'string',
                   description: 'Optional file path to save the screenshot',
                 },
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
                 tabId: {
                   type: 'string',
                   description: 'Optional tab identifier returned by list_tabs',
@@ -301,7 +418,8 @@ export class TabNabMCPServer {
           },
           {
             name: 'confirm_action',
-            description: 'Confirm a pending action',
+            description:
+              'Confirm a pending action. When approvals are handled out of band, this waits for the user to approve or deny it instead',
             inputSchema: {
               type: 'object',
               properties: {
@@ -309,6 +427,11 @@ export class TabNabMCPServer {
                   type: 'string',
                   description: 'Confirmation ID from a needs_confirmation response',
                 },
+                waitMs: {
+                  type: 'number',
+                  description:
+                    'How long to wait for an out-of-band decision in milliseconds (default: 0, max: 120000)',
+                },
               },
               required: ['confirmationId'],
             },
@@ -336,18 +459,145 @@ export class TabNabMCPServer {
               required: [],
             },
           },
+          {
+            name: 'query_audit_log',
+            description:
+              'Read back recent audit log entries, redacted, to check what was allowed, denied or confirmed',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                since: {
+                  type: 'string',
+                  description: 'Only entries at or after this ISO 8601 timestamp',
+                },
+                until: {
+                  type: 'string',
+                  description: 'Only entries at or before this ISO 8601 timestamp',
+                },
+                toolName: {
+                  type: 'string',
+                  description: 'Only entries for this tool, e.g. fill_input',
+                },
+                outcome: {
+                  type: 'string',
+                  enum: [...AUDIT_OUTCOMES],
+                  description: 'Only entries with this outcome',
+                },
+                sessionId: {
+                  type: 'string',
+                  description: 'Only entries from this session',
+                },
+                reasonCodes: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Only entries carrying any of these reason codes',
+                },
+                domain: {
+                  type: 'string',
+                  description:
+                    'Only entries whose URL matches this domain pattern, e.g. example.com or .example.com',
+                },
+                limit: {
+                  type: 'number',
+                  description:
+                    'Maximum number of most recent entries to return (default: 50, max: 500)',
+                },
+              },
+              required: [],
+            },
+          },
+          {
+            name: 'get_connection_status',
+            description:
+              'Report whether Chrome is connected. While it is reconnecting, wait and call again instead of retrying actions',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                browser: {
+                  type: 'string',
+                  description: 'Optional browser profile name returned by list_browsers',
+                },
+              },
+              required: [],
+            },
+          },
+          {
+            name: 'list_browsers',
+            description:
+              'List the configured browser profiles, their connection state and the policy that applies in each. Pass a name as browser to other tools to act in that profile',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+              required: [],
+            },
+          },
+        ].filter((tool) => this.tools.isToolEnabled(tool.name)),
+      };
+    });
+
+    // The audit log is also readable as a resource, for clients that show resources to the
+    // user. It follows the query_audit_log tool permission.
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      if (!this.tools.isToolEnabled('query_audit_log')) {
+        return { resources: [] };
+      }
+      return {
+        resources: [
+          {
+            uri: AUDIT_RESOURCE_URI,
+            name: 'Recent audit events',
+            description:
+              'The most recent audit log entries, redacted. Accepts query_audit_log filters as query parameters, e.g. ?toolName=fill_input&limit=20',
+            mimeType: 'application/json',
+          },
+        ],
+      };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const parsed = URL.canParse(uri) ? new URL(uri) : null;
+      if (
+        !parsed ||
+        `${parsed.protocol}//${parsed.host}${parsed.pathname}` !== AUDIT_RESOURCE_URI
+      ) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+      if (!this.tools.isToolEnabled('query_audit_log')) {
+        throw new McpError(ErrorCode.InvalidRequest, 'The audit log is disabled by policy');
+      }
+
+      const result = await this.tools.queryAuditLog(auditQueryFromParams(parsed.searchParams));
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(result, null, 2),
+          },
         ],
       };
     });
 
     // Handle tool calls
     this.server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
+      const { name, arguments: args } = request.params;
       try {
-        const { name, arguments: args } = request.params;
+        if (!this.tools.isToolEnabled(name)) {
+          const result = await this.tools.rejectDisabledTool(name);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
 
         switch (name) {
           case 'get_active_tab': {
-            const result = await this.tools.getActiveTab();
+            const result = await this.tools.getActiveTab(args as BrowserSelectionInput);
             return {
               content: [
                 {
@@ -358,7 +608,7 @@ export class TabNabMCPServer {
             };
           }
           case 'list_tabs': {
-            const result = await this.tools.listTabs();
+            const result = await this.tools.listTabs(args as BrowserSelectionInput);
             return {
               content: [
                 {
@@ -369,7 +619,7 @@ export class TabNabMCPServer {
             };
           }
           case 'activate_tab': {
-            const result = await this.tools.activateTab(args as { tabId: string });
+            const result = await this.tools.activateTab(args as ActivateTabInput);
             return {
               content: [
                 {
@@ -416,7 +666,26 @@ export class TabNabMCPServer {
 
           case 'fill_input': {
             const result = await this.tools.fillInput(
-              args as { selector: string; value: string; tabId?: string; confirmationId?: string }
+              args as {
+                selector: string;
+                value?: string;
+                valueRef?: string;
+                tabId?: string;
+                confirmationId?: string;
+              }
+            );
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+          case 'fill_secret': {
+            const result = await this.tools.fillSecret(
+              args as { name: string; selector: string; tabId?: string; confirmationId?: string }
             );
             return {
               content: [
@@ -510,13 +779,7 @@ export class TabNabMCPServer {
           }
 
           case 'screenshot_tab': {
-            const screenshotArgs = args || {};
-            const result = await this.tools.screenshotTab({
-              fullPage: (screenshotArgs as { fullPage?: boolean }).fullPage ?? false,
-              path: (screenshotArgs as { path?: string }).path,
-              tabId: (screenshotArgs as { tabId?: string }).tabId,
-              confirmationId: (screenshotArgs as { confirmationId?: string }).confirmationId,
-            });
+            const result = await this.tools.screenshotTab((args ?? {}) as ScreenshotInput);
             return {
               content: [
                 {
@@ -528,7 +791,7 @@ export class TabNabMCPServer {
           }
           case 'confirm_action': {
             const result = await this.tools.confirmAction(
-              args as { confirmationId: string }
+              args as { confirmationId: string; waitMs?: number }
             );
             return {
               content: [
@@ -561,12 +824,48 @@ export class TabNabMCPServer {
               ],
             };
           }
+          case 'query_audit_log': {
+            const result = await this.tools.queryAuditLog(args as QueryAuditLogInput);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+          case 'get_connection_status': {
+            const result = await this.tools.getConnectionStatus(args as BrowserSelectionInput);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+          case 'list_browsers': {
+            const result = await this.tools.listBrowsers();
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
 
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+        const errorMessage = scrubSecrets(
+          error instanceof Error ? error.message : 'An unknown error occurred',
+          toolInputSecrets(name, args)
+        );
         return {
           content: [
             {
@@ -580,19 +879,99 @@ export class TabNabMCPServer {
     });
   }
 
-  async start(): Promise<void> {
-    const transport = new StdioServerTransport();
+  async connect(transport: Transport): Promise<void> {
     await this.server.connect(transport);
-
-    // Handle cleanup on exit
-    process.on('SIGINT', async () => {
-      await this.tools.disconnect();
-      process.exit(0);
+    this.tools.onPolicyChange((next, previous) => {
+      if (toolListChanged(next, previous)) {
+        this.server.sendToolListChanged().catch((error: unknown) => {
+          console.error('Failed to send tool list change notification:', error);
+        });
+      }
     });
-
-    process.on('SIGTERM', async () => {
-      await this.tools.disconnect();
-      process.exit(0);
+    this.tools.onConnectionChange((status, previous, browser) => {
+      const message = connectionMessage(status, previous);
+      if (!message) {
+        return;
+      }
+      console.error(message.text);
+      this.server
+        .sendLoggingMessage({
+          level: message.level,
+          logger: 'tabnab.browser',
+          data: { message: message.text, browser, ...status },
+        })
+        .catch((error: unknown) => {
+          console.error('Failed to send connection log notification:', error);
+        });
     });
+    this.tools.watchPolicy();
+    await this.tools.startConfirmationChannel();
+  }
+
+  async start(): Promise<void> {
+    await this.connect(new StdioServerTransport());
+
+    // Handle cleanup on exit. Buffered audit entries are flushed even if disconnecting
+    // fails, so no events are lost.
+    const shutdown = async () => {
+      try {
+        await this.tools.disconnect();
+      } finally {
+        await this.tools.flushAuditLog();
+        process.exit(0);
+      }
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  }
+}
+
+function toolListChanged(next: PolicyConfig, previous: PolicyConfig): boolean {
+  return TOOL_NAMES.some((name) => isToolEnabled(name, next) !== isToolEnabled(name, previous));
+}
+
+/** Describes a change of connection state, for stderr and MCP log notifications. */
+function connectionMessage(
+  status: ConnectionStatus,
+  previous: ConnectionStatus
+): { level: 'info' | 'warning' | 'error'; text: string } | undefined {
+  if (status.state === previous.state) {
+    return undefined;
   }
+  switch (status.state) {
+    case 'connected':
+      return previous.state === 'reconnecting'
+        ? { level: 'info', text: `Reconnected to Chrome at ${status.endpoint}.` }
+        : undefined;
+    case 'reconnecting':
+      return {
+        level: 'warning',
+        text: `Lost the connection to Chrome at ${status.endpoint}; reconnecting.`,
+      };
+    case 'disconnected':
+      return previous.state === 'reconnecting'
+        ? {
+            level: 'error',
+            text: `Gave up reconnecting to Chrome at ${status.endpoint} after ${status.attempts} attempts.`,
+          }
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function auditQueryFromParams(params: URLSearchParams): QueryAuditLogInput {
+  const limit = params.get('limit');
+  const reasonCodes = params.get('reasonCodes');
+  return {
+    since: params.get('since') ?? undefined,
+    until: params.get('until') ?? undefined,
+    toolName: params.get('toolName') ?? undefined,
+    outcome: (params.get('outcome') as AuditOutcome | null) ?? undefined,
+    sessionId: params.get('sessionId') ?? undefined,
+    reasonCodes: reasonCodes ? reasonCodes.split(',').filter(Boolean) : undefined,
+    domain: params.get('domain') ?? undefined,
+    limit: limit ? Number(limit) : undefined,
+  };
 }
@@ -1,5 +1,115 @@
+import { domainToASCII } from 'node:url';
 import type { PolicyConfig } from './types.js';
 
+/**
+ * A parsed allowlist entry. Entries can be written as:
+ * - `example.com` — the exact host only
+ * - `*.example.com` — any subdomain, but not the apex
+ * - `.example.com` — the apex plus any subdomain
+ * - `https://intranet.local:8443` — optionally pinned to a scheme and/or port
+ */
+export interface DomainPattern {
+  scheme?: string;
+  host: string;
+  port?: string;
+  includeApex: boolean;
+  includeSubdomains: boolean;
+}
+
+const DOMAIN_PATTERN =
+  /^(?:([a-z][a-z0-9+.-]*):\/\/)?(\*\.|\.)?(\[[0-9a-f:.]+\]|[^/:?#\s[\]*]+)(?::(\d{1,5}))?\/?$/i;
+const PATH_PREFIX_ENTRY = /^(.*?):(\/(?!\/).*)$/;
+const DEFAULT_PORTS: Record<string, string> = {
+  http: '80',
+  https: '443',
+  ws: '80',
+  wss: '443',
+};
+
+const patternCache = new Map<string, DomainPattern | null>();
+
+export function parseDomainPattern(entry: string): DomainPattern | null {
+  const cached = patternCache.get(entry);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const pattern = parseDomainPatternUncached(entry);
+  patternCache.set(entry, pattern);
+  return pattern;
+}
+
+export function formatDomainPattern(pattern: DomainPattern): string {
+  const scheme = pattern.scheme ? `${pattern.scheme}://` : '';
+  const wildcard = pattern.includeSubdomains ? (pattern.includeApex ? '.' : '*.') : '';
+  const isDefaultPort =
+    pattern.scheme !== undefined && pattern.port === DEFAULT_PORTS[pattern.scheme];
+  const port = pattern.port && !isDefaultPort ? `:${pattern.port}` : '';
+  return `${scheme}${wildcard}${pattern.host}${port}`;
+}
+
+/**
+ * Canonicalizes an allowlist entry (lowercase, punycode, default ports dropped) so that
+ * equivalent spellings compare equal. Returns null for entries that cannot be parsed.
+ */
+export function normalizeDomainPattern(entry: string): string | null {
+  const pattern = parseDomainPattern(entry);
+  return pattern ? formatDomainPattern(pattern) : null;
+}
+
+/**
+ * Returns how specifically an allowlist entry matches the URL, or -1 when it does not match.
+ * More host labels always win; at equal depth an exact host beats a wildcard, and a
+ * pinned scheme or port beats an unpinned one.
+ */
+export function domainPatternSpecificity(url: URL, entry: string): number {
+  const pattern = parseDomainPattern(entry);
+  if (!pattern) {
+    return -1;
+  }
+
+  const scheme = url.protocol.replace(/:$/, '').toLowerCase();
+  if (pattern.scheme && pattern.scheme !== scheme) {
+    return -1;
+  }
+
+  if (pattern.port && pattern.port !== (url.port || DEFAULT_PORTS[scheme])) {
+    return -1;
+  }
+
+  const host = url.hostname.toLowerCase();
+  const isApex = host === pattern.host;
+  const isSubdomain = host.endsWith(`.${pattern.host}`);
+  const matchesHost = isApex
+    ? pattern.includeApex || !pattern.includeSubdomains
+    : pattern.includeSubdomains && isSubdomain;
+  if (!matchesHost) {
+    return -1;
+  }
+
+  const isExactEntry = !pattern.includeSubdomains;
+  return (
+    pattern.host.split('.').length * 10 +
+    (isExactEntry ? 4 : 0) +
+    (pattern.scheme ? 2 : 0) +
+    (pattern.port ? 1 : 0)
+  );
+}
+
+export function findBestDomainMatch(
+  url: URL,
+  entries: Iterable<string>
+): { pattern: string; specificity: number } | null {
+  let best: { pattern: string; specificity: number } | null = null;
+  for (const pattern of entries) {
+    const specificity = domainPatternSpecificity(url, pattern);
+    if (specificity >= 0 && (!best || specificity > best.specificity)) {
+      best = { pattern, specificity };
+    }
+  }
+  return best;
+}
+
 export function parseAllowedDomains(raw: string | undefined): string[] {
   if (!raw) {
     return [];
@@ -7,8 +117,8 @@ export function parseAllowedDomains(raw: string | undefined): string[] {
 
   return raw
     .split(',')
-    .map((entry) => entry.trim().toLowerCase())
-    .filter(Boolean);
+    .map((entry) => normalizeDomainPattern(entry.trim()))
+    .filter((entry): entry is string => Boolean(entry));
 }
 
 export function parseAllowedPathPrefixes(raw: string | undefined): Record<string, string[]> {
@@ -24,12 +134,13 @@ export function parseAllowedPathPrefixes(raw: string | undefined): Record<string
       continue;
     }
 
-    const [domain, pathPrefix] = entry.split(':');
-    if (!domain || !pathPrefix) {
+    const match = entry.match(PATH_PREFIX_ENTRY);
+    if (!match) {
       continue;
     }
 
-    const normalizedDomain = domain.trim().toLowerCase();
+    const [, domain, pathPrefix] = match;
+    const normalizedDomain = normalizeDomainPattern(domain.trim());
     const normalizedPrefix = pathPrefix.trim();
     if (!normalizedDomain || !normalizedPrefix.startsWith('/')) {
       continue;
@@ -42,21 +153,36 @@ export function parseAllowedPathPrefixes(raw: string | undefined): Record<string
   return prefixes;
 }
 
-export function isUrlAllowed(url: URL, config: PolicyConfig): { allowed: boolean; reasonCodes: string[] } {
+/**
+ * Path prefixes come from the most specific key in `allowedPathPrefixes` that matches the
+ * URL, independently of which allowlist entry admitted the host. This lets a broad
+ * `.example.com` entry coexist with a tighter `admin.example.com` prefix list.
+ */
+export function resolvePathPrefixes(
+  url: URL,
+  allowedPathPrefixes: Record<string, string[]>
+): string[] | undefined {
+  const best = findBestDomainMatch(url, Object.keys(allowedPathPrefixes));
+  return best ? allowedPathPrefixes[best.pattern] : undefined;
+}
+
+export function isUrlAllowed(
+  url: URL,
+  config: PolicyConfig
+): { allowed: boolean; reasonCodes: string[] } {
   const reasonCodes: string[] = [];
-  const host = url.hostname.toLowerCase();
 
   if (config.allowedDomains.length === 0) {
     reasonCodes.push('allowlist_missing');
     return { allowed: false, reasonCodes };
   }
 
-  if (!config.allowedDomains.includes(host)) {
+  if (!findBestDomainMatch(url, config.allowedDomains)) {
     reasonCodes.push('allowlist_blocked');
     return { allowed: false, reasonCodes };
   }
 
-  const prefixes = config.allowedPathPrefixes[host];
+  const prefixes = resolvePathPrefixes(url, config.allowedPathPrefixes);
   if (prefixes && prefixes.length > 0) {
     const isAllowedPrefix = prefixes.some((prefix) => url.pathname.startsWith(prefix));
     if (!isAllowedPrefix) {
@@ -67,3 +193,34 @@ export function isUrlAllowed(url: URL, config: PolicyConfig): { allowed: boolean
 
   return { allowed: true, reasonCodes };
 }
+
+function parseDomainPatternUncached(entry: string): DomainPattern | null {
+  const match = entry.trim().match(DOMAIN_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, rawScheme, wildcard, rawHost, rawPort] = match;
+  const lowerHost = rawHost.toLowerCase().replace(/\.$/, '');
+  const host = lowerHost.startsWith('[') ? lowerHost : domainToASCII(lowerHost);
+  if (!host) {
+    return null;
+  }
+
+  const scheme = rawScheme?.toLowerCase();
+  const portNumber = rawPort ? Number.parseInt(rawPort, 10) : undefined;
+  if (portNumber !== undefined && (portNumber <= 0 || portNumber > 65535)) {
+    return null;
+  }
+
+  // A pinned scheme without a port means the scheme's default port, as in a URL origin.
+  const port = portNumber !== undefined ? String(portNumber) : scheme && DEFAULT_PORTS[scheme];
+
+  return {
+    scheme,
+    host,
+    port: port || undefined,
+    includeApex: wildcard !== '*.',
+    includeSubdomains: wildcard !== undefined,
+  };
+}
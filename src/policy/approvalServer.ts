@@ -0,0 +1,204 @@
+import { randomBytes } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { ConfirmationStore, PendingConfirmation } from './confirmations.js';
+
+export interface ApprovalServerOptions {
+  port?: number;
+  /** Where approval links are announced. Never the MCP channel, so the agent cannot see them. */
+  notify?: (message: string) => void;
+}
+
+const MAX_BODY_BYTES = 1024;
+const SECURITY_HEADERS = {
+  'Cache-Control': 'no-store',
+  'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'",
+  'Referrer-Policy': 'no-referrer',
+  'X-Frame-Options': 'DENY',
+};
+
+/**
+ * A human-facing approval page on loopback. Each confirmation gets a one-time token that is
+ * only ever printed to stderr; the page shows the pending action and approving or denying
+ * it consumes the token. Requests are only accepted with a loopback `Host` header so that
+ * a page in the controlled browser cannot reach the server through DNS rebinding.
+ */
+export class ApprovalServer {
+  private server: Server | null = null;
+  private port = 0;
+  private tokens = new Map<string, string>();
+  private unsubscribe: (() => void) | null = null;
+  private notify: (message: string) => void;
+
+  constructor(
+    private confirmations: ConfirmationStore,
+    private options: ApprovalServerOptions = {}
+  ) {
+    this.notify = options.notify ?? ((message) => console.error(message));
+  }
+
+  get isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.baseUrl();
+    }
+
+    const server = createServer((request, response) => {
+      this.handle(request, response).catch(() => {
+        this.respond(response, 500, 'Internal error');
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.port = (server.address() as AddressInfo).port;
+    this.unsubscribe = this.confirmations.onCreate((entry) => this.announce(entry));
+    return this.baseUrl();
+  }
+
+  async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.tokens.clear();
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private baseUrl(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  private announce(entry: PendingConfirmation): void {
+    const token = randomBytes(32).toString('base64url');
+    this.tokens.set(token, entry.id);
+    this.notify(`TabNab approval required: ${entry.summary}\n  ${this.baseUrl()}/approve/${token}`);
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (!this.isLoopbackHost(request.headers.host)) {
+      this.respond(response, 403, 'Forbidden');
+      return;
+    }
+
+    const match = request.url?.match(/^\/approve\/([A-Za-z0-9_-]{43})$/);
+    const token = match?.[1];
+    const confirmationId = token ? this.tokens.get(token) : undefined;
+    const entry = confirmationId ? this.confirmations.get(confirmationId) : null;
+    if (!token || !entry || entry.approved || entry.denied) {
+      if (token) {
+        this.tokens.delete(token);
+      }
+      this.respond(response, 404, 'This approval link is invalid, expired or already used.');
+      return;
+    }
+
+    if (request.method === 'GET') {
+      this.respond(response, 200, this.renderPrompt(entry), true);
+      return;
+    }
+
+    if (request.method !== 'POST') {
+      this.respond(response, 405, 'Method not allowed');
+      return;
+    }
+
+    const origin = request.headers.origin;
+    if (origin && !this.isLoopbackHost(safeHost(origin))) {
+      this.respond(response, 403, 'Forbidden');
+      return;
+    }
+
+    const decision = new URLSearchParams(await readBody(request)).get('decision');
+    if (decision !== 'approve' && decision !== 'deny') {
+      this.respond(response, 400, 'Missing decision');
+      return;
+    }
+
+    this.tokens.delete(token);
+    if (decision === 'approve') {
+      this.confirmations.approve(entry.id);
+    } else {
+      this.confirmations.deny(entry.id);
+    }
+    this.respond(response, 200, decision === 'approve' ? 'Approved.' : 'Denied.');
+  }
+
+  private isLoopbackHost(host: string | undefined): boolean {
+    return (
+      host === `127.0.0.1:${this.port}` ||
+      host === `localhost:${this.port}` ||
+      host === `[::1]:${this.port}`
+    );
+  }
+
+  private renderPrompt(entry: PendingConfirmation): string {
+    return `<!doctype html>
+<html><head><meta charset="utf-8"><title>TabNab approval</title>
+<style>body{font-family:system-ui,sans-serif;max-width:40rem;margin:4rem auto}button{font-size:1rem;margin-right:1rem}</style>
+</head><body>
+<h1>Approve this action?</h1>
+<p><strong>${escapeHtml(entry.toolName)}</strong></p>
+<p>${escapeHtml(entry.summary)}</p>
+<form method="post">
+<button name="decision" value="approve">Approve</button>
+<button name="decision" value="deny">Deny</button>
+</form>
+</body></html>`;
+  }
+
+  private respond(response: ServerResponse, status: number, body: string, html = false): void {
+    if (response.headersSent) {
+      return;
+    }
+    response.writeHead(status, {
+      ...SECURITY_HEADERS,
+      'Content-Type': html ? 'text/html; charset=utf-8' : 'text/plain; charset=utf-8',
+    });
+    response.end(body);
+  }
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        request.destroy();
+        reject(new Error('Request body too large'));
+      }
+    });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+function safeHost(origin: string): string | undefined {
+  try {
+    return new URL(origin).host;
+  } catch {
+    return undefined;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -1,30 +1,293 @@
-import { appendFile, mkdir } from 'node:fs/promises';
-import { dirname } from 'node:path';
 import { randomUUID } from 'node:crypto';
-import type { AuditEvent, PolicyConfig } from './types.js';
+import { appendFile, mkdir, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import {
+  type ChainHead,
+  checkpointPayload,
+  checkpointsPathFor,
+  hashAuditEntry,
+  readChainHead,
+  readChainStart,
+} from './auditChain.js';
+import { type AuditSigningKey, loadOrCreateSigningKey, signCheckpoint } from './auditKeys.js';
+import {
+  expiredAuditSegments,
+  listAuditSegments,
+  pruneAuditSegments,
+  readSegmentStart,
+  rotateAuditLog,
+} from './auditRotation.js';
+import { type AuditSink, createAuditSink } from './auditSinks.js';
 import { redactAuditEvent } from './redaction.js';
+import { PolicyStore } from './store.js';
+import type {
+  AuditCheckpoint,
+  AuditEvent,
+  AuditEventInput,
+  AuditSinkConfig,
+  PolicyConfig,
+} from './types.js';
+
+const DEFAULT_CHECKPOINT_INTERVAL = 50;
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_ROTATE_HOURS = 24;
+const DEFAULT_RETENTION_DAYS = 30;
+const FLUSH_DELAY_MS = 200;
+const FLUSH_BATCH_SIZE = 64;
+const HOUR_MS = 60 * 60 * 1000;
+
+// One writer per file, shared by every logger, since each entry links to the one written
+// before it.
+const writers = new Map<string, AuditLogWriter>();
+const signingKeys = new Map<string, AuditSigningKey>();
+// Sinks keep their backoff state and spool across policy reloads that leave them unchanged.
+const sinks = new Map<string, AuditSink>();
 
 export class AuditLogger {
-  constructor(private config: PolicyConfig) {}
+  private policy: PolicyStore;
+  private paths = new Set<string>();
 
-  async logEvent(event: Omit<AuditEvent, 'id' | 'timestamp'>): Promise<string> {
+  constructor(config: PolicyConfig | PolicyStore) {
+    this.policy = config instanceof PolicyStore ? config : new PolicyStore(config);
+  }
+
+  /**
+   * Chains the event and queues it for the next batched write. Call `flush` to wait until
+   * everything logged so far is on disk and has been offered to the configured sinks.
+   */
+  async logEvent(event: AuditEventInput): Promise<string> {
+    const config = this.policy.current();
     const id = randomUUID();
     const timestamp = new Date().toISOString();
-    const sanitized = redactAuditEvent(event, this.config.selectorLogMode);
-    const serialized: AuditEvent = {
-      id,
-      timestamp,
-      ...sanitized,
-    };
+    const sanitized = redactAuditEvent(event, config.selectorLogMode);
 
-    await ensureDirectory(this.config.auditLogPath);
-    await appendFile(this.config.auditLogPath, `${JSON.stringify(serialized)}\n`, 'utf8');
+    this.paths.add(config.auditLogPath);
+    await writerFor(config.auditLogPath).append(config, { id, timestamp, ...sanitized });
 
     return id;
   }
+
+  async flush(): Promise<void> {
+    await Promise.all([...this.paths].map((path) => writerFor(path).flush()));
+  }
+}
+
+function writerFor(path: string): AuditLogWriter {
+  let writer = writers.get(path);
+  if (!writer) {
+    writer = new AuditLogWriter(path);
+    writers.set(path, writer);
+  }
+  return writer;
+}
+
+function sinkFor(logPath: string, config: AuditSinkConfig): AuditSink {
+  const key = `${logPath}\0${JSON.stringify(config)}`;
+  let sink = sinks.get(key);
+  if (!sink) {
+    sink = createAuditSink(logPath, config);
+    sinks.set(key, sink);
+  }
+  return sink;
+}
+
+/**
+ * Buffers chained entries and appends them in batches. The active file is rotated into a
+ * compressed segment once it outgrows `auditMaxBytes` or `auditRotateHours`, and segments
+ * older than `auditRetentionDays` are deleted. The chain runs on across segments.
+ *
+ * Each batch is forwarded to `auditSinks` once it is on disk. The file stays the record of
+ * truth: a sink that fails spools the batch and retries on its own, without holding up
+ * the log.
+ */
+class AuditLogWriter {
+  private head: ChainHead | null = null;
+  private initializing: Promise<void> | null = null;
+  private config: PolicyConfig | null = null;
+  private pending: AuditEvent[] = [];
+  private pendingCheckpoints: string[] = [];
+  private segmentBytes = 0;
+  private segmentStartedAt: number | undefined;
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async append(
+    config: PolicyConfig,
+    event: Omit<AuditEvent, 'seq' | 'prevHash' | 'hash'>
+  ): Promise<AuditEvent> {
+    this.config = config;
+    this.initializing ??= this.initialize().catch((error: unknown) => {
+      this.initializing = null;
+      throw error;
+    });
+    await this.initializing;
+
+    const head = this.head as ChainHead;
+    const linked = { ...event, seq: head.seq + 1, prevHash: head.hash };
+    const entry: AuditEvent = { ...linked, hash: hashAuditEntry(head.hash, linked) };
+    this.head = { seq: entry.seq, hash: entry.hash };
+    this.pending.push(entry);
+
+    const interval = config.auditCheckpointInterval ?? DEFAULT_CHECKPOINT_INTERVAL;
+    if (entry.seq % interval === 0) {
+      this.pendingCheckpoints.push(`${JSON.stringify(createCheckpoint(config, entry))}\n`);
+    }
+
+    this.scheduleFlush();
+    return entry;
+  }
+
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const run = this.flushing.catch(() => undefined).then(() => this.writePending());
+    this.flushing = run;
+    return run;
+  }
+
+  private async initialize(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    this.head = await readChainHead(this.path);
+    this.segmentBytes = await fileSize(this.path);
+    this.segmentStartedAt = await readSegmentStart(this.path);
+  }
+
+  private scheduleFlush(): void {
+    if (this.pending.length >= FLUSH_BATCH_SIZE) {
+      this.flush().catch(reportFlushError);
+      return;
+    }
+    this.timer ??= setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(reportFlushError);
+    }, FLUSH_DELAY_MS);
+  }
+
+  private async writePending(): Promise<void> {
+    const entries = this.pending.splice(0);
+    if (entries.length > 0) {
+      const data = entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+      try {
+        if (this.shouldRotate(Buffer.byteLength(data))) {
+          await this.rotate(entries[0]);
+        }
+        await appendFile(this.path, data, { encoding: 'utf8', mode: 0o600 });
+      } catch (error) {
+        this.pending.unshift(...entries);
+        throw error;
+      }
+      this.segmentBytes += Buffer.byteLength(data);
+      this.segmentStartedAt ??= Date.now();
+      await this.forward(entries);
+    }
+
+    const checkpoints = this.pendingCheckpoints.splice(0);
+    if (checkpoints.length > 0) {
+      try {
+        await appendFile(checkpointsPathFor(this.path), checkpoints.join(''), {
+          encoding: 'utf8',
+          mode: 0o600,
+        });
+      } catch (error) {
+        this.pendingCheckpoints.unshift(...checkpoints);
+        throw error;
+      }
+    }
+  }
+
+  private async forward(entries: AuditEvent[]): Promise<void> {
+    const configs = (this.config as PolicyConfig).auditSinks ?? [];
+    await Promise.all(
+      configs.map((config) => sinkFor(this.path, config).write(entries).catch(reportSinkError))
+    );
+  }
+
+  private shouldRotate(incomingBytes: number): boolean {
+    if (this.segmentBytes === 0) {
+      return false;
+    }
+
+    const config = this.config as PolicyConfig;
+    const maxBytes = config.auditMaxBytes ?? DEFAULT_MAX_BYTES;
+    const rotateAfterMs = (config.auditRotateHours ?? DEFAULT_ROTATE_HOURS) * HOUR_MS;
+    const startedAt = this.segmentStartedAt ?? Date.now();
+    return this.segmentBytes + incomingBytes > maxBytes || Date.now() - startedAt >= rotateAfterMs;
+  }
+
+  /** Rotates the active log before `next`, the first entry of the batch being written. */
+  private async rotate(next: AuditEvent): Promise<void> {
+    const config = this.config as PolicyConfig;
+    await rotateAuditLog(this.path);
+    this.segmentBytes = 0;
+    this.segmentStartedAt = undefined;
+
+    const retentionMs = (config.auditRetentionDays ?? DEFAULT_RETENTION_DAYS) * 24 * HOUR_MS;
+    const now = Date.now();
+    const expired = new Set(
+      (await expiredAuditSegments(this.path, retentionMs, now)).map((segment) => segment.path)
+    );
+    if (expired.size === 0) {
+      return;
+    }
+
+    // Vouch for where the chain will start before deleting anything, so that verification
+    // can tell retention apart from entries cut off the front of the log.
+    const kept = (await listAuditSegments(this.path)).find((segment) => !expired.has(segment.path));
+    const start = (kept && (await readChainStart(kept.path))) ?? {
+      seq: next.seq - 1,
+      hash: next.prevHash,
+    };
+    await appendFile(
+      checkpointsPathFor(this.path),
+      `${JSON.stringify(createCheckpoint(config, start, 'retention'))}\n`,
+      { encoding: 'utf8', mode: 0o600 }
+    );
+    await pruneAuditSegments(this.path, retentionMs, now);
+  }
+}
+
+function createCheckpoint(
+  config: PolicyConfig,
+  entry: ChainHead,
+  kind?: AuditCheckpoint['kind']
+): AuditCheckpoint {
+  const keyPath = config.auditSigningKeyPath;
+  const cacheKey = keyPath ?? '';
+  let key = signingKeys.get(cacheKey);
+  if (!key) {
+    key = loadOrCreateSigningKey(keyPath);
+    signingKeys.set(cacheKey, key);
+  }
+
+  const unsigned = {
+    ...(kind ? { kind } : {}),
+    seq: entry.seq,
+    hash: entry.hash,
+    timestamp: new Date().toISOString(),
+    keyId: key.keyId,
+  };
+  return { ...unsigned, signature: signCheckpoint(key.privateKey, checkpointPayload(unsigned)) };
+}
+
+async function fileSize(path: string): Promise<number> {
+  try {
+    return (await stat(path)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+function reportFlushError(error: unknown): void {
+  console.error('Failed to write audit log, will retry on the next flush:', error);
 }
 
-async function ensureDirectory(filePath: string): Promise<void> {
-  const directory = dirname(filePath);
-  await mkdir(directory, { recursive: true });
+function reportSinkError(error: unknown): void {
+  console.error('Failed to forward audit entries:', error);
 }
@@ -0,0 +1,339 @@
+import { createHash, type KeyObject } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { access, open } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import type { Readable } from 'node:stream';
+import { createGunzip } from 'node:zlib';
+import { keyIdFor, verifyCheckpointSignature } from './auditKeys.js';
+import { listAuditSegments } from './auditRotation.js';
+import type { AuditCheckpoint, AuditEvent } from './types.js';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const TAIL_CHUNK_BYTES = 64 * 1024;
+
+export interface ChainHead {
+  seq: number;
+  hash: string;
+}
+
+export interface AuditVerificationResult {
+  ok: boolean;
+  entries: number;
+  checkpoints: number;
+  /**
+   * Set when the oldest remaining entry is not the first ever written, because older
+   * segments were pruned by retention.
+   */
+  startSeq?: number;
+  /** The first broken link, if any. Line numbers are 1-based. */
+  failure?: { file: string; line: number; seq?: number; reason: string };
+}
+
+export function checkpointsPathFor(logPath: string): string {
+  return `${logPath}.checkpoints`;
+}
+
+export function hashAuditEntry(prevHash: string, entry: Omit<AuditEvent, 'hash'>): string {
+  return createHash('sha256')
+    .update(`${prevHash}\n${JSON.stringify(entry)}`)
+    .digest('hex');
+}
+
+export function checkpointPayload(checkpoint: Omit<AuditCheckpoint, 'signature'>): string {
+  const tag =
+    checkpoint.kind === 'retention' ? 'tabnab-audit-retention' : 'tabnab-audit-checkpoint';
+  return `${tag}\n${checkpoint.keyId}\n${checkpoint.seq}\n${checkpoint.hash}\n${checkpoint.timestamp}`;
+}
+
+/**
+ * Reads the last entry of an existing log so that new entries continue its chain. Lines
+ * written before hash chaining existed are anchored by the hash of the raw line. When the
+ * active file is empty or missing, the chain continues from the newest rotated segment.
+ */
+export async function readChainHead(logPath: string): Promise<ChainHead> {
+  let lastLine = await readLastLine(logPath);
+  if (lastLine === undefined) {
+    const newest = (await listAuditSegments(logPath)).at(-1);
+    if (newest) {
+      for await (const line of readAuditLines(newest.path)) {
+        if (line.trim()) {
+          lastLine = line;
+        }
+      }
+    }
+  }
+  if (lastLine === undefined) {
+    return { seq: 0, hash: GENESIS_HASH };
+  }
+
+  const parsed = safeParse(lastLine);
+  if (parsed && typeof parsed.hash === 'string' && typeof parsed.seq === 'number') {
+    return { seq: parsed.seq, hash: parsed.hash };
+  }
+  return { seq: 0, hash: sha256(lastLine) };
+}
+
+/** The link a log or segment's first chained entry continues from, if it has one. */
+export async function readChainStart(path: string): Promise<ChainHead | undefined> {
+  for await (const line of readAuditLines(path)) {
+    const entry = safeParse(line);
+    if (entry && typeof entry.seq === 'number' && typeof entry.prevHash === 'string') {
+      return { seq: entry.seq - 1, hash: entry.prevHash };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Walks the rotated segments, the active log and the checkpoint file, and reports the first
+ * broken link: an edited or reordered entry, a removed entry, a forged checkpoint, or a log
+ * truncated behind its last checkpoint. A log that no longer starts at the first entry
+ * ever written must be accounted for by a retention record for the entries before it.
+ */
+export async function verifyAuditLog(
+  logPath: string,
+  options: { publicKey?: KeyObject; checkpointsPath?: string } = {}
+): Promise<AuditVerificationResult> {
+  const heads = new Map<number, string>();
+  let entries = 0;
+  let previousLine: string | undefined;
+  let head: ChainHead | null = null;
+  let startSeq: number | undefined;
+  let start: { file: string; line: number; prevHash: string } | undefined;
+  let lineNumber = 0;
+
+  const fail = (file: string, line: number, reason: string, seq?: number) => ({
+    ok: false,
+    entries,
+    checkpoints: 0,
+    ...(startSeq ? { startSeq } : {}),
+    failure: { file, line, seq, reason },
+  });
+
+  const files = [...(await listAuditSegments(logPath)).map((segment) => segment.path), logPath];
+  for (const file of files) {
+    lineNumber = 0;
+    try {
+      for await (const line of readAuditLines(file)) {
+        lineNumber += 1;
+        if (!line.trim()) {
+          continue;
+        }
+
+        const entry = safeParse(line);
+        if (!entry) {
+          return fail(file, lineNumber, 'entry is not valid JSON');
+        }
+
+        if (typeof entry.hash !== 'string') {
+          if (head) {
+            return fail(file, lineNumber, 'unchained entry after the chain started');
+          }
+          previousLine = line;
+          continue;
+        }
+
+        const seq = typeof entry.seq === 'number' ? entry.seq : undefined;
+        // Without older segments or legacy lines to link to, the oldest entry anchors the
+        // chain wherever it starts.
+        if (!head && !previousLine && seq !== undefined && seq > 1) {
+          startSeq = seq;
+          start = { file, line: lineNumber, prevHash: entry.prevHash as string };
+          head = { seq: seq - 1, hash: start.prevHash };
+        }
+
+        const expectedPrev: string =
+          head?.hash ?? (previousLine ? sha256(previousLine) : GENESIS_HASH);
+        const expectedSeq: number = (head?.seq ?? 0) + 1;
+        if (seq !== expectedSeq) {
+          return fail(file, lineNumber, `expected seq ${expectedSeq}, found ${seq}`, seq);
+        }
+        if (entry.prevHash !== expectedPrev) {
+          return fail(file, lineNumber, 'prevHash does not match the previous entry', seq);
+        }
+
+        const { hash, ...rest } = entry;
+        if (hashAuditEntry(rest.prevHash as string, rest as Omit<AuditEvent, 'hash'>) !== hash) {
+          return fail(file, lineNumber, 'entry hash does not match its contents', seq);
+        }
+
+        head = { seq: seq as number, hash };
+        heads.set(head.seq, hash);
+        entries += 1;
+      }
+    } catch (error) {
+      return fail(file, lineNumber, `segment could not be read: ${(error as Error).message}`);
+    }
+  }
+
+  const checkpointsPath = options.checkpointsPath ?? checkpointsPathFor(logPath);
+  const expectedKeyId = options.publicKey ? keyIdFor(options.publicKey) : undefined;
+  let checkpoints = 0;
+  let retained = false;
+  lineNumber = 0;
+  for await (const line of readAuditLines(checkpointsPath)) {
+    lineNumber += 1;
+    if (!line.trim()) {
+      continue;
+    }
+
+    const checkpoint = safeParse(line) as AuditCheckpoint | null;
+    if (!checkpoint || typeof checkpoint.signature !== 'string') {
+      return { ...fail(checkpointsPath, lineNumber, 'checkpoint is not valid JSON'), checkpoints };
+    }
+    if (expectedKeyId && checkpoint.keyId !== expectedKeyId) {
+      return {
+        ...fail(
+          checkpointsPath,
+          lineNumber,
+          `checkpoint signed by unknown key ${checkpoint.keyId}`,
+          checkpoint.seq
+        ),
+        checkpoints,
+      };
+    }
+    if (
+      options.publicKey &&
+      !verifyCheckpointSignature(
+        options.publicKey,
+        checkpointPayload(checkpoint),
+        checkpoint.signature
+      )
+    ) {
+      return {
+        ...fail(checkpointsPath, lineNumber, 'checkpoint signature is invalid', checkpoint.seq),
+        checkpoints,
+      };
+    }
+
+    if (checkpoint.kind === 'retention') {
+      retained ||= checkpoint.seq === (startSeq ?? 0) - 1 && checkpoint.hash === start?.prevHash;
+      continue;
+    }
+    if (startSeq && checkpoint.seq < startSeq) {
+      checkpoints += 1;
+      continue;
+    }
+
+    const recorded = heads.get(checkpoint.seq);
+    if (recorded === undefined) {
+      return {
+        ...fail(
+          checkpointsPath,
+          lineNumber,
+          `checkpoint refers to entry ${checkpoint.seq}, which is missing from the log (truncated?)`,
+          checkpoint.seq
+        ),
+        checkpoints,
+      };
+    }
+    if (recorded !== checkpoint.hash) {
+      return {
+        ...fail(
+          checkpointsPath,
+          lineNumber,
+          `entry ${checkpoint.seq} differs from its checkpoint`,
+          checkpoint.seq
+        ),
+        checkpoints,
+      };
+    }
+    checkpoints += 1;
+  }
+
+  if (start && !retained) {
+    return {
+      ...fail(
+        start.file,
+        start.line,
+        `entries before seq ${startSeq} are missing and no retention record accounts for them (truncated?)`,
+        startSeq
+      ),
+      checkpoints,
+    };
+  }
+
+  return { ok: true, entries, checkpoints, ...(startSeq ? { startSeq } : {}) };
+}
+
+/** Streams the lines of an audit log or rotated segment, decompressing `.gz` segments. */
+export async function* readAuditLines(path: string): AsyncGenerator<string> {
+  try {
+    await access(path);
+  } catch {
+    return;
+  }
+
+  const file = createReadStream(path);
+  const stream: Readable = path.endsWith('.gz') ? file.pipe(createGunzip()) : file;
+  // Decompression errors surface on the gunzip stream, not the readline iterator.
+  const failed = new Promise<never>((_resolve, reject) => stream.once('error', reject));
+  failed.catch(() => undefined);
+  const lines = createInterface({ input: stream, crlfDelay: Number.POSITIVE_INFINITY });
+  const iterator = lines[Symbol.asyncIterator]();
+  try {
+    while (true) {
+      const next = await Promise.race([iterator.next(), failed]);
+      if (next.done) {
+        return;
+      }
+      yield next.value;
+    }
+  } finally {
+    lines.close();
+    stream.destroy();
+    file.destroy();
+  }
+}
+
+async function readLastLine(path: string): Promise<string | undefined> {
+  let handle: Awaited<ReturnType<typeof open>>;
+  try {
+    handle = await open(path, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  try {
+    const { size } = await handle.stat();
+    let position = size;
+    let tail = Buffer.alloc(0);
+    while (position > 0) {
+      const length = Math.min(TAIL_CHUNK_BYTES, position);
+      position -= length;
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, position);
+      tail = Buffer.concat([buffer, tail]);
+      const trimmed = tail.toString('utf8').replace(/\n+$/, '');
+      const newline = trimmed.lastIndexOf('\n');
+      if (newline >= 0) {
+        return trimmed.slice(newline + 1);
+      }
+      if (position === 0) {
+        return trimmed || undefined;
+      }
+    }
+    return undefined;
+  } finally {
+    await handle.close();
+  }
+}
+
+function safeParse(line: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(line);
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
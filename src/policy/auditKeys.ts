@@ -0,0 +1,76 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  type KeyObject,
+  sign,
+  verify,
+} from 'node:crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+export const DEFAULT_AUDIT_SIGNING_KEY_PATH = join(homedir(), '.tabnab', 'audit-signing-key.pem');
+
+export interface AuditSigningKey {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  keyId: string;
+}
+
+/**
+ * Loads the Ed25519 checkpoint signing key, generating it on first use. The private key
+ * is written with owner-only permissions next to a `.pub.pem` copy of the public key,
+ * which is what reviewers should keep to verify logs independently.
+ */
+export function loadOrCreateSigningKey(keyPath = DEFAULT_AUDIT_SIGNING_KEY_PATH): AuditSigningKey {
+  let pem: string;
+  try {
+    pem = readFileSync(keyPath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+    mkdirSync(dirname(keyPath), { recursive: true, mode: 0o700 });
+    writeFileSync(keyPath, pem, { mode: 0o600, flag: 'wx' });
+    writeFileSync(publicKeyPathFor(keyPath), publicKey.export({ type: 'spki', format: 'pem' }), {
+      mode: 0o644,
+    });
+  }
+
+  const privateKey = createPrivateKey(pem);
+  const publicKey = createPublicKey(privateKey);
+  return { privateKey, publicKey, keyId: keyIdFor(publicKey) };
+}
+
+export function loadPublicKey(path: string): KeyObject {
+  return createPublicKey(readFileSync(path, 'utf8'));
+}
+
+export function publicKeyPathFor(keyPath: string): string {
+  return keyPath.replace(/(\.pem)?$/, '.pub.pem');
+}
+
+export function keyIdFor(publicKey: KeyObject): string {
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+export function signCheckpoint(key: KeyObject, payload: string): string {
+  return sign(null, Buffer.from(payload, 'utf8'), key).toString('base64');
+}
+
+export function verifyCheckpointSignature(
+  key: KeyObject,
+  payload: string,
+  signature: string
+): boolean {
+  try {
+    return verify(null, Buffer.from(payload, 'utf8'), key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,113 @@
+import type { AuditSink } from './auditSinks.js';
+import { postJson } from './auditWebhook.js';
+import type { AuditEvent, OtlpAuditSinkConfig } from './types.js';
+
+const DEFAULT_SERVICE_NAME = 'tabnab';
+const SCOPE_NAME = 'tabnab.audit';
+
+type AnyValue =
+  | { stringValue: string }
+  | { intValue: string }
+  | { arrayValue: { values: AnyValue[] } };
+
+interface KeyValue {
+  key: string;
+  value: AnyValue;
+}
+
+export class OtlpAuditSink implements AuditSink {
+  private readonly url: string;
+
+  constructor(
+    readonly name: string,
+    private readonly config: OtlpAuditSinkConfig,
+    private readonly timeoutMs: number
+  ) {
+    this.url = otlpLogsUrl(config.endpoint);
+  }
+
+  async write(entries: AuditEvent[]): Promise<void> {
+    const body = toOtlpLogs(entries, this.config.serviceName ?? DEFAULT_SERVICE_NAME);
+    await postJson(this.url, body, this.config.headers, this.timeoutMs);
+  }
+}
+
+/** Collectors are usually configured by base URL, so a bare endpoint gets `/v1/logs`. */
+export function otlpLogsUrl(endpoint: string): string {
+  const url = new URL(endpoint);
+  if (url.pathname === '/' || url.pathname === '') {
+    url.pathname = '/v1/logs';
+  }
+  return url.toString();
+}
+
+/** Builds an OTLP/JSON `ExportLogsServiceRequest` with one log record per entry. */
+export function toOtlpLogs(entries: AuditEvent[], serviceName: string) {
+  return {
+    resourceLogs: [
+      {
+        resource: { attributes: [stringAttribute('service.name', serviceName)] },
+        scopeLogs: [
+          {
+            scope: { name: SCOPE_NAME },
+            logRecords: entries.map((entry) => {
+              const [severityNumber, severityText] = severityFor(entry);
+              return {
+                timeUnixNano: `${Date.parse(entry.timestamp)}000000`,
+                severityNumber,
+                severityText,
+                body: { stringValue: JSON.stringify(entry) },
+                attributes: attributesFor(entry),
+              };
+            }),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function severityFor(entry: AuditEvent): [number, string] {
+  switch (entry.outcome) {
+    case 'failed':
+      return [17, 'ERROR'];
+    case 'denied':
+      return [13, 'WARN'];
+    default:
+      return [9, 'INFO'];
+  }
+}
+
+function attributesFor(entry: AuditEvent): KeyValue[] {
+  const attributes: KeyValue[] = [
+    stringAttribute('tabnab.audit.id', entry.id),
+    { key: 'tabnab.audit.seq', value: { intValue: String(entry.seq) } },
+    stringAttribute('tabnab.tool', entry.toolName),
+    stringAttribute('tabnab.action', entry.actionType),
+    stringAttribute('tabnab.outcome', entry.outcome),
+  ];
+  const optional: [string, string | undefined][] = [
+    ['tabnab.session_id', entry.sessionId],
+    ['tabnab.tab_id', entry.tabId],
+    ['tabnab.browser', entry.browser],
+    ['tabnab.error_code', entry.errorCode],
+    ['tabnab.secret_name', entry.secretName],
+    ['url.full', entry.url],
+  ];
+  for (const [key, value] of optional) {
+    if (value !== undefined) {
+      attributes.push(stringAttribute(key, value));
+    }
+  }
+  if (entry.reasonCodes?.length) {
+    attributes.push({
+      key: 'tabnab.reason_codes',
+      value: { arrayValue: { values: entry.reasonCodes.map((code) => ({ stringValue: code })) } },
+    });
+  }
+  return attributes;
+}
+
+function stringAttribute(key: string, value: string): KeyValue {
+  return { key, value: { stringValue: value } };
+}
@@ -0,0 +1,142 @@
+import { findBestDomainMatch, normalizeDomainPattern } from './allowlist.js';
+import { readAuditLines } from './auditChain.js';
+import { listAuditSegments } from './auditRotation.js';
+import { redactAuditEvent } from './redaction.js';
+import type { AuditEvent, AuditOutcome, SelectorLogMode } from './types.js';
+
+export const DEFAULT_AUDIT_QUERY_LIMIT = 50;
+export const MAX_AUDIT_QUERY_LIMIT = 500;
+
+export interface AuditQuery {
+  /** Inclusive lower bound on the entry timestamp. */
+  since?: Date;
+  /** Inclusive upper bound on the entry timestamp. */
+  until?: Date;
+  toolName?: string;
+  outcome?: AuditOutcome;
+  sessionId?: string;
+  /** Matches entries carrying any of these reason codes. */
+  reasonCodes?: string[];
+  /** An allowlist-style domain pattern, such as `example.com` or `.example.com`. */
+  domain?: string;
+  limit?: number;
+}
+
+/** An audit entry as returned to agents and reviewers, without its chain hashes. */
+export type AuditEventView = Omit<AuditEvent, 'prevHash' | 'hash'>;
+
+export interface AuditQueryResult {
+  events: AuditEventView[];
+  /** True when more entries matched than `limit`; only the most recent are returned. */
+  truncated: boolean;
+}
+
+/**
+ * Reads the rotated segments and the active log and returns the most recent matching
+ * entries, oldest first. Segments rotated before `since` are skipped without being read.
+ * Entries are passed through `redactAuditEvent` again, so a log written under a looser
+ * `selectorLogMode` is not read back in plaintext.
+ */
+export async function queryAuditLog(
+  logPath: string,
+  query: AuditQuery,
+  selectorLogMode: SelectorLogMode
+): Promise<AuditQueryResult> {
+  const limit = Math.min(query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT, MAX_AUDIT_QUERY_LIMIT);
+  const domain = query.domain ? (normalizeDomainPattern(query.domain) ?? query.domain) : undefined;
+  const since = query.since?.getTime();
+  const until = query.until?.getTime();
+
+  const segments = await listAuditSegments(logPath);
+  const files = [
+    ...segments
+      .filter((segment) => since === undefined || segment.rotatedAt.getTime() >= since)
+      .map((segment) => segment.path),
+    logPath,
+  ];
+
+  const matches: AuditEvent[] = [];
+  let matched = 0;
+  for (const file of files) {
+    for await (const line of readAuditLines(file)) {
+      const entry = parseEntry(line);
+      if (!entry || !matchesQuery(entry, query, { since, until, domain })) {
+        continue;
+      }
+      matched += 1;
+      matches.push(entry);
+      if (matches.length > limit) {
+        matches.shift();
+      }
+    }
+  }
+
+  return {
+    events: matches.map((entry) => ({
+      id: entry.id,
+      timestamp: entry.timestamp,
+      seq: entry.seq,
+      ...redactAuditEvent(entry, selectorLogMode),
+    })),
+    truncated: matched > matches.length,
+  };
+}
+
+function matchesQuery(
+  entry: AuditEvent,
+  query: AuditQuery,
+  bounds: { since?: number; until?: number; domain?: string }
+): boolean {
+  const timestamp = Date.parse(entry.timestamp);
+  if (bounds.since !== undefined && !(timestamp >= bounds.since)) {
+    return false;
+  }
+  if (bounds.until !== undefined && !(timestamp <= bounds.until)) {
+    return false;
+  }
+  if (query.toolName && entry.toolName !== query.toolName) {
+    return false;
+  }
+  if (query.outcome && entry.outcome !== query.outcome) {
+    return false;
+  }
+  if (query.sessionId && entry.sessionId !== query.sessionId) {
+    return false;
+  }
+  if (
+    query.reasonCodes?.length &&
+    !query.reasonCodes.some((code) => entry.reasonCodes?.includes(code))
+  ) {
+    return false;
+  }
+  if (bounds.domain) {
+    const url = parseUrl(entry.url);
+    if (!url || !findBestDomainMatch(url, [bounds.domain])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function parseEntry(line: string): AuditEvent | null {
+  if (!line.trim()) {
+    return null;
+  }
+  try {
+    const value = JSON.parse(line) as AuditEvent;
+    return value && typeof value === 'object' && typeof value.toolName === 'string' ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseUrl(value: string | undefined): URL | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
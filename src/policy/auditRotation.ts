@@ -0,0 +1,140 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import { open, readdir, rename, unlink } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+
+const SEGMENT_STAMP = '\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}-\\d{3}Z';
+const HEAD_CHUNK_BYTES = 64 * 1024;
+
+export interface AuditSegment {
+  path: string;
+  /** When the segment was rotated out of the active log. */
+  rotatedAt: Date;
+  compressed: boolean;
+}
+
+/**
+ * Rotated segments sit next to the active log as `<name>-<rotation time><ext>.gz`, so
+ * `audit.log` rotates to `audit-2026-01-31T12-00-00-000Z.log.gz`. A segment whose
+ * compression was interrupted keeps its uncompressed name.
+ */
+export function segmentPathFor(logPath: string, rotatedAt: Date): string {
+  const extension = extname(logPath);
+  const stem = basename(logPath, extension);
+  const stamp = rotatedAt.toISOString().replace(/[:.]/g, '-');
+  return join(dirname(logPath), `${stem}-${stamp}${extension}`);
+}
+
+/** Lists the rotated segments of a log, oldest first. */
+export async function listAuditSegments(logPath: string): Promise<AuditSegment[]> {
+  const extension = extname(logPath);
+  const stem = basename(logPath, extension);
+  const pattern = new RegExp(
+    `^${escapeRegExp(stem)}-(${SEGMENT_STAMP})${escapeRegExp(extension)}(\\.gz)?$`
+  );
+
+  let names: string[];
+  try {
+    names = await readdir(dirname(logPath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const segments: AuditSegment[] = [];
+  for (const name of names) {
+    const match = name.match(pattern);
+    if (!match) {
+      continue;
+    }
+    const [date, time] = match[1].split('T');
+    const [hours, minutes, seconds, millis] = time.replace(/Z$/, '').split('-');
+    segments.push({
+      path: join(dirname(logPath), name),
+      rotatedAt: new Date(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`),
+      compressed: Boolean(match[2]),
+    });
+  }
+
+  // A segment that exists both ways was interrupted before its uncompressed copy was
+  // removed; the uncompressed copy is the complete one.
+  const uncompressed = new Set(segments.filter((s) => !s.compressed).map((s) => s.path));
+  return segments
+    .filter((segment) => !segment.compressed || !uncompressed.has(segment.path.slice(0, -3)))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Moves the active log aside and compresses it. The caller starts a new active file with
+ * its next write, continuing the hash chain from the segment's last entry.
+ */
+export async function rotateAuditLog(logPath: string, now = new Date()): Promise<string> {
+  const segmentPath = segmentPathFor(logPath, now);
+  await rename(logPath, segmentPath);
+
+  const compressedPath = `${segmentPath}.gz`;
+  await pipeline(
+    createReadStream(segmentPath),
+    createGzip(),
+    createWriteStream(compressedPath, { mode: 0o600 })
+  );
+  await unlink(segmentPath);
+  return compressedPath;
+}
+
+/** Lists the rotated segments older than the retention window, oldest first. */
+export async function expiredAuditSegments(
+  logPath: string,
+  retentionMs: number,
+  now = Date.now()
+): Promise<AuditSegment[]> {
+  return (await listAuditSegments(logPath)).filter(
+    (segment) => now - segment.rotatedAt.getTime() > retentionMs
+  );
+}
+
+/** Deletes rotated segments older than the retention window and returns their paths. */
+export async function pruneAuditSegments(
+  logPath: string,
+  retentionMs: number,
+  now = Date.now()
+): Promise<string[]> {
+  const removed: string[] = [];
+  for (const segment of await expiredAuditSegments(logPath, retentionMs, now)) {
+    await unlink(segment.path);
+    removed.push(segment.path);
+  }
+  return removed;
+}
+
+/** Reads the timestamp of a log's first entry, which is when its segment started. */
+export async function readSegmentStart(logPath: string): Promise<number | undefined> {
+  let handle: Awaited<ReturnType<typeof open>>;
+  try {
+    handle = await open(logPath, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  try {
+    const buffer = Buffer.alloc(HEAD_CHUNK_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, HEAD_CHUNK_BYTES, 0);
+    const firstLine = buffer.subarray(0, bytesRead).toString('utf8').split('\n')[0];
+    const timestamp = Date.parse((JSON.parse(firstLine) as { timestamp?: string }).timestamp ?? '');
+    return Number.isNaN(timestamp) ? undefined : timestamp;
+  } catch {
+    return undefined;
+  } finally {
+    await handle.close();
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
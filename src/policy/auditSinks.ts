@@ -0,0 +1,222 @@
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { OtlpAuditSink } from './auditOtlp.js';
+import { SyslogAuditSink } from './auditSyslog.js';
+import { WebhookAuditSink } from './auditWebhook.js';
+import type { AuditEvent, AuditSinkConfig, FileAuditSinkConfig } from './types.js';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_RETRY_INITIAL_MS = 1000;
+const DEFAULT_RETRY_MAX_MS = 60_000;
+const DEFAULT_SPOOL_MAX_BYTES = 50 * 1024 * 1024;
+const SPOOL_BATCH_SIZE = 100;
+
+/** A destination that chained audit entries are forwarded to. */
+export interface AuditSink {
+  readonly name: string;
+  /** Delivers a batch of entries in order, rejecting unless all of them were accepted. */
+  write(entries: AuditEvent[]): Promise<void>;
+}
+
+/** Builds the sink described by `config`, wrapped so failed deliveries are spooled and retried. */
+export function createAuditSink(logPath: string, config: AuditSinkConfig): SpooledAuditSink {
+  const name = auditSinkName(config);
+  return new SpooledAuditSink(createDeliverySink(name, config), spoolPathFor(logPath, name), {
+    retryInitialMs: config.retryInitialMs ?? DEFAULT_RETRY_INITIAL_MS,
+    retryMaxMs: config.retryMaxMs ?? DEFAULT_RETRY_MAX_MS,
+    spoolMaxBytes: config.spoolMaxBytes ?? DEFAULT_SPOOL_MAX_BYTES,
+  });
+}
+
+/** A sink's configured name, or its type and a short hash of its settings. */
+export function auditSinkName(config: AuditSinkConfig): string {
+  if (config.name) {
+    return config.name;
+  }
+  const digest = createHash('sha256').update(JSON.stringify(config)).digest('hex');
+  return `${config.type}-${digest.slice(0, 8)}`;
+}
+
+/** Undelivered entries wait next to the log in `<log>.spool/<sink name>.jsonl`. */
+export function spoolPathFor(logPath: string, sinkName: string): string {
+  return join(`${logPath}.spool`, `${sinkName.replace(/[^\w.-]/g, '_')}.jsonl`);
+}
+
+function createDeliverySink(name: string, config: AuditSinkConfig): AuditSink {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  switch (config.type) {
+    case 'file':
+      return new FileAuditSink(name, config);
+    case 'syslog':
+      return new SyslogAuditSink(name, config, timeoutMs);
+    case 'otlp':
+      return new OtlpAuditSink(name, config, timeoutMs);
+    case 'webhook':
+      return new WebhookAuditSink(name, config, timeoutMs);
+  }
+}
+
+export class FileAuditSink implements AuditSink {
+  constructor(
+    readonly name: string,
+    private readonly config: FileAuditSinkConfig
+  ) {}
+
+  async write(entries: AuditEvent[]): Promise<void> {
+    await mkdir(dirname(this.config.path), { recursive: true });
+    const data = entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+    await appendFile(this.config.path, data, { encoding: 'utf8', mode: 0o600 });
+  }
+}
+
+interface SpoolOptions {
+  retryInitialMs: number;
+  retryMaxMs: number;
+  spoolMaxBytes: number;
+}
+
+/**
+ * Delivers through another sink, keeping entries it could not deliver in a spool file.
+ * While the sink is backing off, new entries go straight to the spool; the spool is always
+ * drained before anything newer is sent, so the sink receives entries in chain order.
+ * `write` only rejects when the spool itself cannot be written.
+ */
+export class SpooledAuditSink implements AuditSink {
+  readonly name: string;
+  private delayMs: number;
+  private retryAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly sink: AuditSink,
+    readonly spoolPath: string,
+    private readonly options: SpoolOptions
+  ) {
+    this.name = sink.name;
+    this.delayMs = options.retryInitialMs;
+  }
+
+  write(entries: AuditEvent[]): Promise<void> {
+    const run = this.queue
+      .catch(() => undefined)
+      .then(() => (Date.now() < this.retryAt ? this.spool(entries) : this.deliver(entries)));
+    this.queue = run;
+    return run;
+  }
+
+  private async deliver(entries: AuditEvent[]): Promise<void> {
+    try {
+      await this.drainSpool();
+      if (entries.length > 0) {
+        await this.sink.write(entries);
+      }
+    } catch (error) {
+      await this.spool(entries);
+      this.backOff(error);
+      return;
+    }
+    this.delayMs = this.options.retryInitialMs;
+    this.retryAt = 0;
+  }
+
+  private backOff(error: unknown): void {
+    const delay = this.delayMs;
+    this.retryAt = Date.now() + delay;
+    this.delayMs = Math.min(delay * 2, this.options.retryMaxMs);
+    console.error(
+      `Audit sink ${this.name} is unavailable, spooling entries and retrying in ${delay}ms:`,
+      error instanceof Error ? error.message : error
+    );
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    // The spool outlives the process, so a pending retry should not keep it running.
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.write([]).catch(reportSpoolError);
+    }, delay);
+    this.timer.unref();
+  }
+
+  private async drainSpool(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.spoolPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    // A line cut short by a crash mid-append is skipped.
+    const entries = raw.split('\n').flatMap(parseSpoolLine);
+    let delivered = 0;
+    try {
+      while (delivered < entries.length) {
+        const batch = entries.slice(delivered, delivered + SPOOL_BATCH_SIZE);
+        await this.sink.write(batch);
+        delivered += batch.length;
+      }
+    } catch (error) {
+      if (delivered > 0) {
+        await replaceFile(this.spoolPath, entries.slice(delivered));
+      }
+      throw error;
+    }
+    await unlink(this.spoolPath);
+  }
+
+  private async spool(entries: AuditEvent[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    const data = entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+    await mkdir(dirname(this.spoolPath), { recursive: true, mode: 0o700 });
+    if ((await fileSize(this.spoolPath)) + Buffer.byteLength(data) > this.options.spoolMaxBytes) {
+      console.error(
+        `Audit sink ${this.name} spool is full, dropping ${entries.length} entries from the sink`
+      );
+      return;
+    }
+    await appendFile(this.spoolPath, data, { encoding: 'utf8', mode: 0o600 });
+  }
+}
+
+function parseSpoolLine(line: string): AuditEvent[] {
+  if (!line.trim()) {
+    return [];
+  }
+  try {
+    return [JSON.parse(line) as AuditEvent];
+  } catch {
+    return [];
+  }
+}
+
+async function replaceFile(path: string, entries: AuditEvent[]): Promise<void> {
+  const temporary = `${path}.tmp`;
+  await writeFile(temporary, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''), {
+    encoding: 'utf8',
+    mode: 0o600,
+  });
+  await rename(temporary, path);
+}
+
+async function fileSize(path: string): Promise<number> {
+  try {
+    return (await stat(path)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+function reportSpoolError(error: unknown): void {
+  console.error('Failed to write audit sink spool:', error);
+}
@@ -0,0 +1,111 @@
+import { createSocket } from 'node:dgram';
+import { connect, isIPv6, type NetConnectOpts } from 'node:net';
+import { hostname } from 'node:os';
+import type { AuditSink } from './auditSinks.js';
+import type { AuditEvent, AuditOutcome, SyslogAuditSinkConfig } from './types.js';
+
+const DEFAULT_FACILITY = 13; // log audit
+const DEFAULT_APP_NAME = 'tabnab';
+// Structured data IDs need an enterprise number; 32473 is reserved for documentation.
+const SD_ID = 'tabnab@32473';
+const BOM = '\uFEFF';
+
+const SEVERITIES: Record<AuditOutcome, number> = {
+  failed: 3,
+  denied: 4,
+  needs_confirmation: 5,
+  confirmed: 6,
+  allowed: 6,
+};
+
+export class SyslogAuditSink implements AuditSink {
+  constructor(
+    readonly name: string,
+    private readonly config: SyslogAuditSinkConfig,
+    private readonly timeoutMs: number
+  ) {}
+
+  async write(entries: AuditEvent[]): Promise<void> {
+    const messages = entries.map((entry) => formatSyslogMessage(entry, this.config));
+    const { transport, host = '127.0.0.1', port = 514, path = '' } = this.config;
+    if (transport === 'udp') {
+      await sendDatagrams(host, port, messages);
+      return;
+    }
+
+    // RFC 6587 octet counting, so messages may contain newlines.
+    const data = messages.map((message) => `${Buffer.byteLength(message)} ${message}`).join('');
+    const options: NetConnectOpts = transport === 'unix' ? { path } : { host, port };
+    await sendStream(options, data, this.timeoutMs);
+  }
+}
+
+/**
+ * Formats an entry as an RFC 5424 message. The tool name is the MSGID, the entry's id,
+ * position and outcome are structured data, and the message is the entry as JSON.
+ */
+export function formatSyslogMessage(
+  entry: AuditEvent,
+  options: Pick<SyslogAuditSinkConfig, 'facility' | 'appName'> = {}
+): string {
+  const priority =
+    (options.facility ?? DEFAULT_FACILITY) * 8 + (SEVERITIES[entry.outcome] ?? SEVERITIES.allowed);
+  const params: Record<string, string | number | undefined> = {
+    id: entry.id,
+    seq: entry.seq,
+    outcome: entry.outcome,
+    sessionId: entry.sessionId,
+    tabId: entry.tabId,
+  };
+  const structuredData = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${String(value).replace(/["\\\]]/g, '\\$&')}"`)
+    .join('');
+
+  return [
+    `<${priority}>1`,
+    entry.timestamp,
+    headerField(hostname(), 255),
+    headerField(options.appName ?? DEFAULT_APP_NAME, 48),
+    String(process.pid),
+    headerField(entry.toolName, 32),
+    `[${SD_ID}${structuredData}]`,
+    `${BOM}${JSON.stringify(entry)}`,
+  ].join(' ');
+}
+
+// Header fields are printable ASCII without spaces; "-" stands for an empty value.
+function headerField(value: string, maxLength: number): string {
+  return value.replace(/[^\x21-\x7e]/g, '').slice(0, maxLength) || '-';
+}
+
+async function sendDatagrams(host: string, port: number, messages: string[]): Promise<void> {
+  const socket = createSocket(isIPv6(host) ? 'udp6' : 'udp4');
+  try {
+    for (const message of messages) {
+      await new Promise<void>((resolve, reject) => {
+        socket.send(message, port, host, (error) => (error ? reject(error) : resolve()));
+      });
+    }
+  } finally {
+    socket.close();
+  }
+}
+
+function sendStream(options: NetConnectOpts, data: string, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let sent = false;
+    const socket = connect(options);
+    // Once everything is written the socket is only waiting for the server to close it.
+    socket.setTimeout(timeoutMs, () =>
+      socket.destroy(sent ? undefined : new Error(`Timed out after ${timeoutMs}ms`))
+    );
+    socket.on('error', reject);
+    socket.on('connect', () => {
+      socket.end(data, () => {
+        sent = true;
+        resolve();
+      });
+    });
+  });
+}
@@ -0,0 +1,34 @@
+import type { AuditSink } from './auditSinks.js';
+import type { AuditEvent, WebhookAuditSinkConfig } from './types.js';
+
+export class WebhookAuditSink implements AuditSink {
+  constructor(
+    readonly name: string,
+    private readonly config: WebhookAuditSinkConfig,
+    private readonly timeoutMs: number
+  ) {}
+
+  async write(entries: AuditEvent[]): Promise<void> {
+    await postJson(this.config.url, { events: entries }, this.config.headers, this.timeoutMs);
+  }
+}
+
+/** POSTs a JSON body, rejecting on a network error, a timeout or a non-2xx response. */
+export async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> | undefined,
+  timeoutMs: number
+): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { ...headers, 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  // Drain the body so the connection can be reused.
+  await response.arrayBuffer().catch(() => undefined);
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status} ${response.statusText}`.trim());
+  }
+}
@@ -1,4 +1,24 @@
-import { randomUUID } from 'node:crypto';
+import { createHash, randomUUID } from 'node:crypto';
+
+/**
+ * What a confirmation was issued for: the page, the browser and tab, and a hash of the
+ * validated tool input. Each input field is hashed separately so a mismatch can name the fields that
+ * changed; fields that may carry typed text are never previewed.
+ */
+export interface ConfirmationBinding {
+  url: string;
+  tabId?: string;
+  /** Tab ids are only unique within a browser. */
+  browser?: string;
+  inputHash: string;
+  fields: Record<string, { hash: string; preview?: string }>;
+}
+
+export interface ConfirmationDifference {
+  field: string;
+  approved?: string;
+  requested?: string;
+}
 
 export interface PendingConfirmation {
   id: string;
@@ -6,19 +26,42 @@ export interface PendingConfirmation {
   toolName: string;
   expiresAt: number;
   approved: boolean;
+  denied: boolean;
+  binding?: ConfirmationBinding;
+  /** The `needs_confirmation` audit event this confirmation was issued with. */
+  auditId?: string;
 }
 
+export type ConsumeResult =
+  | { status: 'consumed'; entry: PendingConfirmation }
+  | { status: 'mismatch'; entry: PendingConfirmation; differences: ConfirmationDifference[] }
+  | { status: 'unavailable' };
+
+const UNBOUND_FIELDS = new Set(['confirmationId']);
+const PRIVATE_FIELDS: readonly string[] = ['value', 'text'];
+const PREVIEW_LENGTH = 120;
+
+export type ConfirmationStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+type CreateListener = (entry: PendingConfirmation) => void;
+
 export class ConfirmationStore {
   private pending = new Map<string, PendingConfirmation>();
+  private createListeners = new Set<CreateListener>();
+  private decisionWaiters = new Map<string, Set<() => void>>();
 
-  constructor(private ttlMs = 5 * 60 * 1000, private maxEntries = 50) {}
+  constructor(
+    private ttlMs = 5 * 60 * 1000,
+    private maxEntries = 50
+  ) {}
 
-  create(summary: string, toolName: string): PendingConfirmation {
+  create(summary: string, toolName: string, binding?: ConfirmationBinding): PendingConfirmation {
     this.cleanup();
     if (this.pending.size >= this.maxEntries) {
       const oldest = this.pending.keys().next().value;
       if (oldest) {
         this.pending.delete(oldest);
+        this.notifyDecision(oldest);
       }
     }
 
@@ -30,37 +73,128 @@ export class ConfirmationStore {
       toolName,
       expiresAt,
       approved: false,
+      denied: false,
+      binding,
     };
     this.pending.set(id, entry);
+    for (const listener of this.createListeners) {
+      listener(entry);
+    }
     return entry;
   }
 
+  onCreate(listener: CreateListener): () => void {
+    this.createListeners.add(listener);
+    return () => {
+      this.createListeners.delete(listener);
+    };
+  }
+
+  get(id: string): PendingConfirmation | null {
+    return this.getValidEntry(id);
+  }
+
   approve(id: string): PendingConfirmation | null {
     const entry = this.getValidEntry(id);
-    if (!entry) {
+    if (!entry || entry.denied) {
       return null;
     }
 
     entry.approved = true;
+    this.notifyDecision(id);
     return entry;
   }
 
-  consumeApproved(id: string, toolName: string): PendingConfirmation | null {
+  /**
+   * Consumes an approved confirmation for the same tool. When the confirmation was bound
+   * to an action, the requested action must match it exactly; a mismatch leaves the
+   * approval in place and reports what differs.
+   */
+  consume(id: string, toolName: string, binding?: ConfirmationBinding): ConsumeResult {
     const entry = this.getValidEntry(id);
     if (!entry || !entry.approved || entry.toolName !== toolName) {
-      return null;
+      return { status: 'unavailable' };
+    }
+
+    if (entry.binding) {
+      const differences = diffConfirmationBindings(entry.binding, binding);
+      if (differences.length > 0) {
+        return { status: 'mismatch', entry, differences };
+      }
     }
 
     this.pending.delete(id);
-    return entry;
+    return { status: 'consumed', entry };
   }
 
+  /**
+   * Denied entries are kept until they expire so that a caller waiting on the decision
+   * can tell a denial apart from an unknown ID.
+   */
   deny(id: string): boolean {
-    return this.pending.delete(id);
+    const entry = this.getValidEntry(id);
+    if (!entry || entry.denied) {
+      return false;
+    }
+
+    entry.approved = false;
+    entry.denied = true;
+    this.notifyDecision(id);
+    return true;
+  }
+
+  status(id: string): ConfirmationStatus {
+    const entry = this.getValidEntry(id);
+    if (!entry) {
+      return 'expired';
+    }
+    return entry.approved ? 'approved' : entry.denied ? 'denied' : 'pending';
+  }
+
+  /**
+   * Resolves once the confirmation is approved, denied or expires, or with `pending`
+   * when `timeoutMs` elapses first.
+   */
+  async waitForDecision(id: string, timeoutMs: number): Promise<ConfirmationStatus> {
+    const current = this.status(id);
+    const entry = this.pending.get(id);
+    if (current !== 'pending' || timeoutMs <= 0 || !entry) {
+      return current;
+    }
+
+    await new Promise<void>((resolve) => {
+      const waiters = this.decisionWaiters.get(id) ?? new Set<() => void>();
+      this.decisionWaiters.set(id, waiters);
+      const done = () => {
+        clearTimeout(timer);
+        waiters.delete(done);
+        if (waiters.size === 0) {
+          this.decisionWaiters.delete(id);
+        }
+        resolve();
+      };
+      const timer = setTimeout(
+        done,
+        Math.min(timeoutMs, Math.max(entry.expiresAt - Date.now(), 0))
+      );
+      waiters.add(done);
+    });
+
+    return this.status(id);
   }
 
   clear(): void {
+    const ids = [...this.pending.keys()];
     this.pending.clear();
+    for (const id of ids) {
+      this.notifyDecision(id);
+    }
+  }
+
+  private notifyDecision(id: string): void {
+    for (const waiter of [...(this.decisionWaiters.get(id) ?? [])]) {
+      waiter();
+    }
   }
 
   private getValidEntry(id: string): PendingConfirmation | null {
@@ -86,3 +220,99 @@ export class ConfirmationStore {
     }
   }
 }
+
+/**
+ * `privateFields` names the input fields that are hashed but never previewed; callers
+ * pass the fields their schema marks secret.
+ */
+export function bindConfirmation(
+  input: Record<string, unknown>,
+  context: { url: string; tabId?: string; browser?: string },
+  privateFields: readonly string[] = PRIVATE_FIELDS
+): ConfirmationBinding {
+  const fields: ConfirmationBinding['fields'] = {};
+  const bound: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(input)) {
+    if (UNBOUND_FIELDS.has(field) || value === undefined) {
+      continue;
+    }
+
+    const canonical = canonicalJson(value);
+    bound[field] = value;
+    fields[field] = {
+      hash: sha256(canonical),
+      preview: privateFields.includes(field) ? undefined : preview(value, canonical),
+    };
+  }
+
+  return {
+    url: context.url,
+    tabId: context.tabId,
+    browser: context.browser,
+    inputHash: sha256(canonicalJson(bound)),
+    fields,
+  };
+}
+
+export function diffConfirmationBindings(
+  approved: ConfirmationBinding,
+  requested: ConfirmationBinding | undefined
+): ConfirmationDifference[] {
+  if (!requested) {
+    return [{ field: 'input' }];
+  }
+
+  const differences: ConfirmationDifference[] = [];
+  if (approved.url !== requested.url) {
+    differences.push({ field: 'url', approved: approved.url, requested: requested.url });
+  }
+  if (approved.browser !== requested.browser) {
+    differences.push({
+      field: 'browser',
+      approved: approved.browser,
+      requested: requested.browser,
+    });
+  }
+  if (approved.tabId !== requested.tabId) {
+    differences.push({ field: 'tabId', approved: approved.tabId, requested: requested.tabId });
+  }
+  if (approved.inputHash === requested.inputHash) {
+    return differences;
+  }
+
+  const names = new Set([...Object.keys(approved.fields), ...Object.keys(requested.fields)]);
+  for (const field of [...names].sort()) {
+    const before = approved.fields[field];
+    const after = requested.fields[field];
+    if (before?.hash !== after?.hash) {
+      differences.push({
+        field: `input.${field}`,
+        approved: before?.preview,
+        requested: after?.preview,
+      });
+    }
+  }
+  return differences;
+}
+
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) => {
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      return Object.fromEntries(
+        Object.entries(nested as Record<string, unknown>).sort(([a], [b]) =>
+          a < b ? -1 : a > b ? 1 : 0
+        )
+      );
+    }
+    return nested;
+  });
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function preview(value: unknown, canonical: string): string {
+  const text = typeof value === 'string' ? value : canonical;
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
@@ -0,0 +1,207 @@
+import { redactUrl } from './redaction.js';
+import { CONTENT_DETECTORS, type ContentDetector, type ContentRedactionConfig } from './types.js';
+
+const REGEX_RULE = /^\/(.+)\/([a-z]*)$/s;
+const TOKEN_CHAR = '[\\w+/=-]';
+
+/** How many values each detector replaced; `custom` counts matches of policy patterns. */
+export type RedactionCounts = Partial<Record<ContentDetector | 'custom', number>>;
+
+export interface ContentRedactionResult {
+  text: string;
+  counts: RedactionCounts;
+}
+
+interface TextDetector {
+  id: ContentDetector;
+  pattern: RegExp;
+  /** Rejects matches that only look like a secret. */
+  accept?: (match: string) => boolean;
+  /** Rewrites the match instead of replacing it outright. */
+  rewrite?: (match: string) => string;
+}
+
+// Run in order, so the specific formats claim their matches before the entropy check.
+const TEXT_DETECTORS: TextDetector[] = [
+  { id: 'url_token', pattern: /\bhttps?:\/\/[^\s<>"'()]+/g, rewrite: redactUrlTokens },
+  { id: 'jwt', pattern: /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]*/g },
+  { id: 'aws_key', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+  { id: 'gcp_token', pattern: /\b(?:AIza[\w-]{35}|ya29\.[\w-]{20,})/g },
+  { id: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_\w{22,255})\b/g },
+  { id: 'card_number', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: isCardNumber },
+  {
+    id: 'high_entropy',
+    pattern: new RegExp(`(?<!${TOKEN_CHAR})${TOKEN_CHAR}{32,}(?!${TOKEN_CHAR})`, 'g'),
+    accept: isHighEntropy,
+  },
+];
+
+export function redactionMarker(detector: ContentDetector | 'custom'): string {
+  return `[REDACTED:${detector}]`;
+}
+
+/**
+ * Replaces secrets in extracted page content with `[REDACTED:<detector>]`. Policy patterns
+ * run first, then the built-in detectors enabled in `config`. Hidden input values are
+ * handled while the DOM is sanitized, since they never reach the Markdown.
+ */
+export function redactContent(
+  text: string,
+  config: ContentRedactionConfig | undefined
+): ContentRedactionResult {
+  const counts: RedactionCounts = {};
+  if (!config?.enabled) {
+    return { text, counts };
+  }
+
+  const count = (id: ContentDetector | 'custom') => {
+    counts[id] = (counts[id] ?? 0) + 1;
+  };
+
+  let result = text;
+  for (const pattern of config.patterns ?? []) {
+    result = result.replace(compilePattern(pattern), (match) => {
+      if (!match) {
+        return match;
+      }
+      count('custom');
+      return redactionMarker('custom');
+    });
+  }
+
+  const enabled = new Set<ContentDetector>(config.detectors ?? CONTENT_DETECTORS);
+  for (const detector of TEXT_DETECTORS) {
+    if (!enabled.has(detector.id)) {
+      continue;
+    }
+    result = result.replace(detector.pattern, (match) => {
+      if (detector.accept && !detector.accept(match)) {
+        return match;
+      }
+      const replacement = detector.rewrite ? detector.rewrite(match) : redactionMarker(detector.id);
+      if (replacement !== match) {
+        count(detector.id);
+      }
+      return replacement;
+    });
+  }
+
+  return { text: result, counts };
+}
+
+export function mergeRedactionCounts(...all: RedactionCounts[]): RedactionCounts {
+  const merged: RedactionCounts = {};
+  for (const counts of all) {
+    for (const [id, value] of Object.entries(counts) as [keyof RedactionCounts, number][]) {
+      merged[id] = (merged[id] ?? 0) + value;
+    }
+  }
+  return merged;
+}
+
+export function buildRedactionWarnings(counts: RedactionCounts): string[] {
+  const entries = Object.entries(counts).filter(([, value]) => value > 0);
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const total = entries.reduce((sum, [, value]) => sum + value, 0);
+  const detail = entries.map(([id, value]) => `${id}: ${value}`).join(', ');
+  return [`Redacted ${total} value${total === 1 ? '' : 's'} from the page content (${detail}).`];
+}
+
+/**
+ * Parses `TABNAB_CONTENT_REDACTION`: `on` enables every detector, `off` disables
+ * redaction, and a comma-separated list of detector names enables just those. Throws
+ * naming every unknown detector, since skipping a misspelled one would leave its secrets
+ * in the page content.
+ */
+export function parseContentRedaction(raw: string): ContentRedactionConfig {
+  const value = raw.trim().toLowerCase();
+  if (['', 'off', 'false', '0'].includes(value)) {
+    return { enabled: false };
+  }
+  if (['on', 'true', '1', 'all'].includes(value)) {
+    return { enabled: true };
+  }
+
+  const detectors: ContentDetector[] = [];
+  const problems: string[] = [];
+  for (const entry of value.split(',').map((part) => part.trim())) {
+    if (isContentDetector(entry)) {
+      detectors.push(entry);
+    } else if (entry) {
+      problems.push(`"${entry}" is not a detector (use ${CONTENT_DETECTORS.join(', ')})`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+  return { enabled: true, detectors };
+}
+
+function isContentDetector(value: string): value is ContentDetector {
+  return (CONTENT_DETECTORS as readonly string[]).includes(value);
+}
+
+// Policy files validate patterns as they load, so one that fails to compile here throws
+// rather than silently redacting less.
+function compilePattern(pattern: string): RegExp {
+  const match = pattern.match(REGEX_RULE);
+  if (match) {
+    return new RegExp(match[1], `${match[2].replace(/[gy]/g, '')}g`);
+  }
+  return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+}
+
+// `redactUrl` also normalizes the URL, which should only show up where it redacted something.
+function redactUrlTokens(url: string): string {
+  const redacted = redactUrl(url);
+  return redacted.includes('REDACTED') ? redacted : url;
+}
+
+// Card numbers are 13 to 19 digits, optionally grouped, with a valid Luhn check digit.
+function isCardNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19 || /^(\d)\1+$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Keys and tokens mix letters and digits; hex needs less entropy per character than
+// base64 to look random. Lowercase slugs and words fall short of both.
+function isHighEntropy(token: string): boolean {
+  if (!/\d/.test(token) || !/[a-z]/i.test(token)) {
+    return false;
+  }
+  if (/^[0-9a-f]+$/i.test(token)) {
+    return shannonEntropy(token) >= 3;
+  }
+  return /[a-z]/.test(token) && /[A-Z]/.test(token) && shannonEntropy(token) >= 4;
+}
+
+function shannonEntropy(value: string): number {
+  const frequencies = new Map<string, number>();
+  for (const char of value) {
+    frequencies.set(char, (frequencies.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const frequency of frequencies.values()) {
+    const probability = frequency / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
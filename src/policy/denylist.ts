@@ -0,0 +1,86 @@
+import { findBestDomainMatch, parseAllowedDomains, parseAllowedPathPrefixes } from './allowlist.js';
+import type { PolicyConfig } from './types.js';
+
+const patternCache = new Map<string, RegExp>();
+
+export function parseDeniedDomains(raw: string | undefined): string[] {
+  return parseAllowedDomains(raw);
+}
+
+export function parseDeniedPathPatterns(raw: string | undefined): Record<string, string[]> {
+  return parseAllowedPathPrefixes(raw);
+}
+
+/**
+ * Matches a URL path against a deny pattern. `*` matches within one path segment, `**`
+ * matches across segments, and a pattern also covers everything beneath the path it
+ * names, so `/settings` fences off `/settings/keys` too. Matching is case-insensitive.
+ */
+export function matchesPathPattern(pathname: string, pattern: string): boolean {
+  const regex = compilePathPattern(pattern);
+  if (regex.test(pathname)) {
+    return true;
+  }
+
+  const decoded = safeDecodePath(pathname);
+  return decoded !== pathname && regex.test(decoded);
+}
+
+/**
+ * Denied domains and path patterns are evaluated before the allowlist. Unlike path
+ * prefixes, every matching key in `deniedPathPatterns` applies, so a broad
+ * `.example.com` rule cannot be shadowed by a more specific entry.
+ */
+export function isUrlDenied(
+  url: URL,
+  config: PolicyConfig
+): { denied: boolean; reasonCodes: string[] } {
+  const deniedDomains = config.deniedDomains ?? [];
+  if (findBestDomainMatch(url, deniedDomains)) {
+    return { denied: true, reasonCodes: ['denylist_blocked'] };
+  }
+
+  for (const [domain, patterns] of Object.entries(config.deniedPathPatterns ?? {})) {
+    if (!findBestDomainMatch(url, [domain])) {
+      continue;
+    }
+
+    if (patterns.some((pattern) => matchesPathPattern(url.pathname, pattern))) {
+      return { denied: true, reasonCodes: ['denylist_blocked'] };
+    }
+  }
+
+  return { denied: false, reasonCodes: [] };
+}
+
+function compilePathPattern(pattern: string): RegExp {
+  const cached = patternCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const trimmed = pattern.length > 1 ? pattern.replace(/\/+$/, '') : '';
+  const source = trimmed
+    .split(/(\*\*|\*)/)
+    .map((part) => {
+      if (part === '**') {
+        return '.*';
+      }
+      if (part === '*') {
+        return '[^/]*';
+      }
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  const regex = new RegExp(`^${source}(?:/.*)?$`, 'i');
+  patternCache.set(pattern, regex);
+  return regex;
+}
+
+function safeDecodePath(pathname: string): string {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    return pathname;
+  }
+}
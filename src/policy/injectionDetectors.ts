@@ -0,0 +1,343 @@
+import type {
+  DetectionText,
+  InjectionDetector,
+  InjectionMatch,
+  InjectionSeverity,
+} from './prompts.js';
+import { TOOL_NAMES } from './types.js';
+
+interface PhraseRule {
+  id: string;
+  severity: InjectionSeverity;
+  /** Matched against the normalized text; every pattern needs the `g` flag. */
+  patterns: RegExp[];
+  /**
+   * When set, a match only counts if the text just before it ends with this pattern or the
+   * match starts a line. Checked over a bounded slice rather than with a lookbehind, which
+   * would rescan the whole run of whitespace at every position.
+   */
+  precededBy?: RegExp;
+}
+
+// How far back `precededBy` looks.
+const PRECEDING_CONTEXT = 64;
+
+// Zero-width characters, bidirectional controls and the byte order mark render as nothing.
+const INVISIBLE_RANGE = '\\u200B-\\u200F\\u202A-\\u202E\\u2060-\\u2064\\u2066-\\u2069\\uFEFF';
+const INVISIBLE_CHARACTER = new RegExp(`^[${INVISIBLE_RANGE}]$`, 'u');
+
+const INVISIBLE_CHARACTERS = new RegExp(`[${INVISIBLE_RANGE}]|[\\u{E0000}-\\u{E007F}]`, 'gu');
+
+// Unicode tag characters mirror ASCII but render as nothing, which makes them a channel
+// for instructions a reader cannot see.
+const TAG_CHARACTER = /^[\u{E0000}-\u{E007F}]$/u;
+
+// Cyrillic and Greek letters drawn like the Latin letters at the same position.
+const CONFUSABLES = new Map(
+  [
+    ['АВЕКМНОРСТХІЈЅ', 'ABEKMHOPCTXIJS'],
+    ['аеорсухіјѕԁԛԝ', 'aeopcyxijsdqw'],
+    ['ΑΒΕΖΗΙΚΜΝΟΡΤΥΧ', 'ABEZHIKMNOPTYX'],
+    ['αεικνορυχ', 'aeikvopux'],
+  ].flatMap(([from, to]) => [...from].map((char, index): [string, string] => [char, to[index]]))
+);
+
+// Tool names turn up in documentation and changelogs; only a call or a request to make one
+// counts as an attempt to steer the agent.
+const TOOL_NAME = `(?:${TOOL_NAMES.join('|')})`;
+
+const PHRASE_RULES: PhraseRule[] = [
+  {
+    id: 'ignore_previous_instructions',
+    severity: 'high',
+    patterns: [
+      /\b(?:ignore|disregard|forget|skip|override)\s+(?:(?:all|any|the|your|of|my)\s+)*(?:previous|prior|above|earlier|preceding|former|original|initial)\s+(?:instructions?|prompts?|directions?|directives?|rules|guidelines|messages?|context)/gi,
+      /\bdisregard\s+(?:all\s+|everything\s+)?(?:the\s+|that\s+is\s+)?above\b/gi,
+      /\bforget\s+(?:everything|all)\s+(?:above|before|you\s+(?:were|have\s+been)\s+told)/gi,
+      // Spanish and Portuguese, French, Italian, German, Dutch.
+      /\bignor[ae]\s+(?:(?:todas|todos)\s+)?(?:las|los|as|os)\s+(?:instrucciones|instru[cç][õo]es|indicaciones|indica[cç][õo]es)\s+(?:anteriores|previas|pr[eé]vias)/gi,
+      /\bignore[rz]?\s+(?:toutes\s+)?les\s+(?:instructions|consignes)\s+(?:pr[eé]c[eé]dentes|ant[eé]rieures|ci-dessus)/gi,
+      /\bignora\s+(?:tutte\s+)?le\s+istruzioni\s+(?:precedenti|sopra|di\s+prima)/gi,
+      /\bignorier(?:e|en\s+sie)\s+(?:alle\s+)?(?:vorherigen|bisherigen|obigen|vorangegangenen)\s+(?:anweisungen|instruktionen|befehle)/gi,
+      /\bnegeer\s+(?:alle\s+)?(?:vorige|eerdere|voorgaande)\s+(?:instructies|opdrachten)/gi,
+      // Russian, Chinese, Japanese, Korean.
+      /(?:игнорируй|игнорируйте|забудь|забудьте)\s+(?:все\s+)?(?:предыдущие|прежние|вышеуказанные)\s+(?:инструкции|указания|команды)/giu,
+      /(?:忽略|无视|忽视|忘记)(?:掉)?(?:之前|以上|先前|上面|前面|所有|全部|的)+(?:指令|指示|提示词?|说明)/gu,
+      /(?:以前|前|上記|これまで)の(?:すべての)?(?:指示|命令|プロンプト)を(?:すべて)?無視/gu,
+      /이전\s*(?:의\s*)?(?:모든\s*)?(?:지시|명령|지침)(?:을|를|은|는)?\s*(?:모두\s*)?무시/gu,
+    ],
+  },
+  {
+    id: 'role_override',
+    severity: 'high',
+    patterns: [
+      /\byou\s+are\s+now\s+(?:in\s+)?(?:an?\s+)?(?:developer|dan|jailbreak|jailbroken|unrestricted|unfiltered|god|admin)\s+mode\b/gi,
+      /\byou\s+are\s+no\s+longer\s+(?:an?\s+)?(?:ai|assistant|bound|restricted|limited)\b/gi,
+      /\bfrom\s+now\s+on,?\s+you\s+(?:are|will|must|shall)\s+(?:act|respond|answer|obey|ignore|only)\b/gi,
+      /\bact\s+as\s+an?\s+(?:agent|ai|unrestricted|different\s+(?:ai|assistant))\b/gi,
+      /\byou\s+are\s+(?:chatgpt|claude|gemini|an?\s+ai\s+(?:assistant|agent|model))\b/gi,
+      /\bnew\s+(?:system\s+)?instructions\s*:/gi,
+    ],
+  },
+  {
+    id: 'rule_override',
+    severity: 'high',
+    patterns: [
+      /\boverride\s+(?:the|your|all|any)\s+(?:rules|instructions|guidelines|restrictions|policies)/gi,
+      /\bdo\s+not\s+follow\s+(?:these|the|your|any)\s+(?:rules|instructions|guidelines)/gi,
+      /\bbypass\s+(?:the\s+|your\s+|all\s+|any\s+)?(?:safety|security\s+polic(?:y|ies)|guardrails|restrictions|content\s+filters?)/gi,
+    ],
+  },
+  {
+    id: 'chat_template_tokens',
+    severity: 'high',
+    patterns: [/<\|(?:im_start|im_end|system|endoftext)\|>|\[\/?INST\]|<<\/?SYS>>|<\/?system>/gi],
+  },
+  {
+    id: 'prompt_exfiltration',
+    severity: 'high',
+    // Security writing says "exfiltration" all the time; only an order to exfiltrate, or a
+    // destination to send the data to, reads as an instruction.
+    patterns: [
+      /\bexfiltrate\s+(?:(?:the|your|all|any|this|my|their)\s+)*(?:user['’]?s?\s+)?(?:data|cookies|credentials|secrets?|tokens?|passwords?|sessions?|conversations?|chat|history|emails?|files|system\s+prompt|instructions|information|contents?)\b/gi,
+    ],
+    precededBy: /(?:[.!?:;]\s*|\b(?:please|now|then)\s+)$/i,
+  },
+  {
+    id: 'prompt_exfiltration',
+    severity: 'high',
+    patterns: [
+      /\bexfiltrat(?:e|ing)\b[^.!?\n]{0,80}?\b(?:to|into)\s+(?:https?:\/\/|www\.|[\w.+-]+@[\w-]+\.)/gi,
+      /\b(?:reveal|leak|print|output|repeat|disclose)\s+(?:your|the)\s+(?:system\s+prompt|initial\s+prompt|hidden\s+instructions|instructions\s+above)/gi,
+    ],
+  },
+  {
+    id: 'credential_request',
+    severity: 'medium',
+    patterns: [
+      /\b(?:send|post|upload|forward|email|transmit|paste)\s+(?:the\s+|your\s+|all\s+|any\s+)?(?:user'?s?\s+)?(?:cookies|session\s+tokens?|api\s+keys?|auth(?:entication)?\s+tokens?|access\s+tokens?)\s+(?:to|at|into)\b/gi,
+    ],
+  },
+  {
+    id: 'system_prompt_reference',
+    severity: 'medium',
+    patterns: [
+      /\bsystem\s+prompt\b/gi,
+      /\bdeveloper\s+message\b/gi,
+      /\b(?:hidden|secret)\s+instructions?\b/gi,
+    ],
+  },
+  {
+    id: 'ai_directed_message',
+    severity: 'medium',
+    patterns: [
+      /\b(?:dear|attention|note\s+to(?:\s+the)?|hey|hello)\s+(?:ai|llm|chatbot|language\s+model|ai\s+(?:assistant|agent)|agent)s?\b/gi,
+      /\bif\s+you\s+are\s+an?\s+(?:ai|llm|language\s+model|ai\s+(?:assistant|agent)|automated\s+agent)\b/gi,
+    ],
+  },
+  {
+    id: 'tool_invocation',
+    severity: 'medium',
+    patterns: [
+      new RegExp(
+        `\\b(?:call|use|invoke|run|execute|trigger)\\s+(?:the\\s+)?[\`'"]?${TOOL_NAME}\\b`,
+        'gi'
+      ),
+      new RegExp(`\\b${TOOL_NAME}\\s*\\(`, 'g'),
+      new RegExp(`"(?:name|tool)"\\s*:\\s*"${TOOL_NAME}"`, 'g'),
+    ],
+  },
+  {
+    id: 'confidential_marker',
+    severity: 'low',
+    patterns: [/\bconfidential\b/gi],
+  },
+];
+
+const BASE64_CANDIDATE = /(?<![\w+/=-])[A-Za-z0-9+/_-]{24,}={0,2}(?![\w+/=-])/g;
+const MIXED_SCRIPT_WORD = /\p{L}+/gu;
+const ZERO_WIDTH_IN_WORD = /(?<=[A-Za-z])[\u200B-\u200F\u2060-\u2064\uFEFF]+(?=[A-Za-z])/g;
+
+/** Phrase rules run over the normalized text, so obfuscated phrases are matched too. */
+export const phraseDetector: InjectionDetector = {
+  id: 'phrases',
+  detect(text) {
+    return matchPhraseRules(text.normalized).map((match) => {
+      const [start, end] = text.toOriginal(match.start, match.end);
+      return { ...match, start, end };
+    });
+  },
+};
+
+/**
+ * Zero-width characters between Latin letters, which split words so they slip past
+ * filters; joiners in emoji sequences and Indic or Persian text are left alone.
+ * Any Unicode tag characters are reported, since browsers never render them.
+ */
+export const invisibleCharacterDetector: InjectionDetector = {
+  id: 'invisible_characters',
+  detect(text) {
+    const matches: InjectionMatch[] = [];
+    for (const match of text.original.matchAll(ZERO_WIDTH_IN_WORD)) {
+      matches.push({
+        ruleId: 'zero_width_characters',
+        severity: 'medium',
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+    for (const match of text.original.matchAll(/[\u{E0000}-\u{E007F}]+/gu)) {
+      matches.push({
+        ruleId: 'unicode_tag_characters',
+        severity: 'high',
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+    return matches;
+  },
+};
+
+/** Words that mix Latin letters with Cyrillic or Greek lookalikes. */
+export const homoglyphDetector: InjectionDetector = {
+  id: 'homoglyphs',
+  detect(text) {
+    const matches: InjectionMatch[] = [];
+    for (const match of text.original.matchAll(MIXED_SCRIPT_WORD)) {
+      const word = match[0];
+      if (isMixedScript(word)) {
+        matches.push({
+          ruleId: 'mixed_script_word',
+          severity: 'medium',
+          start: match.index,
+          end: match.index + word.length,
+        });
+      }
+    }
+    return matches;
+  },
+};
+
+/** Base64 blobs that decode to text matching a phrase rule. */
+export const base64Detector: InjectionDetector = {
+  id: 'base64',
+  detect(text) {
+    const matches: InjectionMatch[] = [];
+    for (const match of text.original.matchAll(BASE64_CANDIDATE)) {
+      const decoded = decodeBase64Text(match[0]);
+      if (decoded && matchPhraseRules(normalizeForDetection(decoded).normalized).length > 0) {
+        matches.push({
+          ruleId: 'base64_encoded_instructions',
+          severity: 'high',
+          start: match.index,
+          end: match.index + match[0].length,
+        });
+      }
+    }
+    return matches;
+  },
+};
+
+export const DEFAULT_INJECTION_DETECTORS: readonly InjectionDetector[] = [
+  phraseDetector,
+  invisibleCharacterDetector,
+  homoglyphDetector,
+  base64Detector,
+];
+
+/**
+ * Removes invisible characters, decodes tag characters to the ASCII they mirror, folds
+ * compatibility forms such as fullwidth Latin to ASCII, and, within words that mix
+ * scripts, replaces Cyrillic and Greek lookalikes with Latin letters. The offsets of each
+ * character in the original text are kept.
+ */
+export function normalizeForDetection(original: string): DetectionText {
+  let folded = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let index = 0;
+
+  for (const char of original) {
+    const next = index + char.length;
+    let replacement: string;
+    if (TAG_CHARACTER.test(char)) {
+      const ascii = (char.codePointAt(0) ?? 0) - 0xe0000;
+      replacement = ascii >= 0x20 && ascii < 0x7f ? String.fromCharCode(ascii) : '';
+    } else if (INVISIBLE_CHARACTER.test(char)) {
+      replacement = '';
+    } else {
+      replacement = char.normalize('NFKC');
+    }
+    for (let offset = 0; offset < replacement.length; offset += 1) {
+      starts.push(index);
+      ends.push(next);
+    }
+    folded += replacement;
+    index = next;
+  }
+
+  // Lookalikes are single code units, so the offsets still line up.
+  const normalized = folded.replace(MIXED_SCRIPT_WORD, (word) =>
+    isMixedScript(word) ? [...word].map((char) => CONFUSABLES.get(char) ?? char).join('') : word
+  );
+
+  return {
+    original,
+    normalized,
+    toOriginal(start, end) {
+      if (normalized.length === 0) {
+        return [0, 0];
+      }
+      const last = Math.max(start, end - 1);
+      return [starts[Math.min(start, starts.length - 1)], ends[Math.min(last, ends.length - 1)]];
+    },
+  };
+}
+
+function isMixedScript(word: string): boolean {
+  return /\p{Script=Latin}/u.test(word) && /[\p{Script=Cyrillic}\p{Script=Greek}]/u.test(word);
+}
+
+/** Removes characters that render as nothing, such as zero-width spaces and tag characters. */
+export function stripInvisibleCharacters(text: string): string {
+  return text.replace(INVISIBLE_CHARACTERS, '');
+}
+
+function matchPhraseRules(text: string): InjectionMatch[] {
+  const matches: InjectionMatch[] = [];
+  for (const rule of PHRASE_RULES) {
+    for (const pattern of rule.patterns) {
+      for (const match of text.matchAll(pattern)) {
+        if (rule.precededBy && !isPrecededBy(text, match.index, rule.precededBy)) {
+          continue;
+        }
+        matches.push({
+          ruleId: rule.id,
+          severity: rule.severity,
+          start: match.index,
+          end: match.index + match[0].length,
+        });
+      }
+    }
+  }
+  return matches;
+}
+
+function isPrecededBy(text: string, index: number, pattern: RegExp): boolean {
+  if (index === 0 || text[index - 1] === '\n') {
+    return true;
+  }
+  return pattern.test(text.slice(Math.max(0, index - PRECEDING_CONTEXT), index));
+}
+
+// Accepts standard and URL-safe base64 that decodes to mostly printable UTF-8 text.
+function decodeBase64Text(candidate: string): string | undefined {
+  const decoded = Buffer.from(candidate.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString(
+    'utf8'
+  );
+  if (decoded.length < 16 || decoded.includes('\uFFFD')) {
+    return undefined;
+  }
+  const printable = decoded.match(/[\p{L}\p{N}\p{P}\p{Zs}]/gu)?.length ?? 0;
+  return printable / decoded.length >= 0.9 ? decoded : undefined;
+}
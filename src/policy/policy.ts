@@ -1,58 +1,330 @@
 import os from 'node:os';
-import { readFileSync } from 'node:fs';
-import { parseAllowedDomains, parseAllowedPathPrefixes, isUrlAllowed } from './allowlist.js';
-import { isSensitiveAction } from './sensitive.js';
-import type { PolicyConfig, PolicyContext, PolicyDecision, ConfirmationMode } from './types.js';
+import path from 'node:path';
+import {
+  findBestDomainMatch,
+  parseAllowedDomains,
+  parseAllowedPathPrefixes,
+  isUrlAllowed,
+} from './allowlist.js';
+import { parseContentRedaction } from './contentRedaction.js';
+import { isUrlDenied, parseDeniedDomains, parseDeniedPathPatterns } from './denylist.js';
+import { parseAuditSinks, readPolicyFile } from './policyFile.js';
+import { DEFAULT_INJECTION_THRESHOLD } from './prompts.js';
+import {
+  DEFAULT_SENSITIVE_RULES,
+  detectSensitiveAction,
+  mergeSensitiveRules,
+  sensitiveReasonCode,
+} from './sensitive.js';
+import { parseToolPermissions, resolveToolPermission } from './toolPermissions.js';
+import type { StepScope } from '../session/session.js';
+import {
+  type BrowserPolicy,
+  type PolicyConfig,
+  type PolicyContext,
+  type PolicyDecision,
+  CONFIRMATION_CHANNELS,
+  type ConfirmationMode,
+  type DomainPolicy,
+  HIDDEN_CONTENT_MODES,
+  INJECTION_ACTIONS,
+  type InjectionAction,
+  type SensitiveActionRules,
+  type ToolName,
+} from './types.js';
 
 const DEFAULT_MAX_STEPS = 30;
+const DEFAULT_AUDIT_CHECKPOINT_INTERVAL = 50;
+const DEFAULT_AUDIT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_AUDIT_ROTATE_HOURS = 24;
+const DEFAULT_AUDIT_RETENTION_DAYS = 30;
 const DEFAULT_CONFIRMATION_MODE: ConfirmationMode = 'confirm-on-sensitive';
 
+// Tools that act on the page, and so need confirmation on a tab that showed injection.
+const TAINT_GUARDED_TOOLS = new Set<string>([
+  'navigate_and_extract',
+  'click_element',
+  'fill_input',
+  'fill_secret',
+  'keyboard_type',
+  'press_key',
+]);
+
+/** Raised at startup for settings whose values TabNab does not recognize. */
+export class PolicySettingsError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid policy settings:\n${issues.map((issue) => `  ${issue}`).join('\n')}`);
+    this.name = 'PolicySettingsError';
+  }
+}
+
 export function loadPolicyConfig(): PolicyConfig {
   const configPath = process.env.TABNAB_POLICY_CONFIG_PATH;
-  const fileConfig = configPath ? readPolicyFile(configPath) : {};
+  const { settings: fileSettings, config: fileConfig } = configPath
+    ? readPolicyFile(configPath)
+    : { settings: {}, config: {} };
+  // Environment variables take precedence over legacy TABNAB_* file keys, which in turn
+  // take precedence over the structured document.
+  const setting = (name: string): string | undefined => process.env[name] ?? fileSettings[name];
+  // Settings that choose who approves actions, what happens to injected content, which
+  // tools are denied, which secrets are redacted or where the audit log goes are refused
+  // when misspelled, since falling back to a default could weaken them.
+  const issues: string[] = [];
+  const source = (name: string) => (name in process.env ? '' : ` (in ${configPath})`);
+  const choice = <T extends string>(name: string, choices: readonly T[]): T | undefined => {
+    const raw = setting(name);
+    if (raw === undefined) {
+      return undefined;
+    }
+    const match = choices.find((candidate) => candidate === raw);
+    if (!match) {
+      issues.push(`${name}${source(name)}: "${raw}" is not one of ${choices.join(', ')}`);
+    }
+    return match;
+  };
+  const strict = <T>(name: string, parse: (raw: string) => T): T | undefined => {
+    const raw = setting(name);
+    if (raw === undefined) {
+      return undefined;
+    }
+    try {
+      return parse(raw);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      issues.push(`${name}${source(name)}: ${message}`);
+      return undefined;
+    }
+  };
 
-  const allowedDomains = parseAllowedDomains(
-    process.env.TABNAB_ALLOWED_DOMAINS ?? fileConfig.TABNAB_ALLOWED_DOMAINS
-  );
-  const allowedPathPrefixes = parseAllowedPathPrefixes(
-    process.env.TABNAB_ALLOWED_PATH_PREFIXES ?? fileConfig.TABNAB_ALLOWED_PATH_PREFIXES
-  );
+  const allowedDomains =
+    parseSetting(setting('TABNAB_ALLOWED_DOMAINS'), parseAllowedDomains) ??
+    fileConfig.allowedDomains ??
+    [];
+  const allowedPathPrefixes =
+    parseSetting(setting('TABNAB_ALLOWED_PATH_PREFIXES'), parseAllowedPathPrefixes) ??
+    fileConfig.allowedPathPrefixes ??
+    {};
+  const deniedDomains =
+    parseSetting(setting('TABNAB_DENIED_DOMAINS'), parseDeniedDomains) ??
+    fileConfig.deniedDomains ??
+    [];
+  const deniedPathPatterns =
+    parseSetting(setting('TABNAB_DENIED_PATH_PATTERNS'), parseDeniedPathPatterns) ??
+    fileConfig.deniedPathPatterns ??
+    {};
   const confirmationMode = normalizeConfirmationMode(
-    process.env.TABNAB_CONFIRMATION_MODE ??
-      fileConfig.TABNAB_CONFIRMATION_MODE ??
-      DEFAULT_CONFIRMATION_MODE
+    setting('TABNAB_CONFIRMATION_MODE') ?? fileConfig.confirmationMode ?? DEFAULT_CONFIRMATION_MODE
+  );
+  const confirmationChannel =
+    choice('TABNAB_CONFIRMATION_CHANNEL', CONFIRMATION_CHANNELS) ??
+    fileConfig.confirmationChannel ??
+    'agent';
+  const approvalPort = parsePositiveInt(
+    setting('TABNAB_APPROVAL_PORT'),
+    fileConfig.approvalPort ?? 0
   );
   const auditLogPath =
-    process.env.TABNAB_AUDIT_LOG_PATH ??
-    fileConfig.TABNAB_AUDIT_LOG_PATH ??
-    `${os.tmpdir()}/tabnab-audit.log`;
+    setting('TABNAB_AUDIT_LOG_PATH') ??
+    fileConfig.auditLogPath ??
+    path.join(os.homedir(), '.tabnab', 'audit.log');
+  const auditSigningKeyPath =
+    setting('TABNAB_AUDIT_SIGNING_KEY_PATH') ?? fileConfig.auditSigningKeyPath;
+  const auditCheckpointInterval = parsePositiveInt(
+    setting('TABNAB_AUDIT_CHECKPOINT_INTERVAL'),
+    fileConfig.auditCheckpointInterval ?? DEFAULT_AUDIT_CHECKPOINT_INTERVAL
+  );
+  const auditMaxBytes = parsePositiveInt(
+    setting('TABNAB_AUDIT_MAX_BYTES'),
+    fileConfig.auditMaxBytes ?? DEFAULT_AUDIT_MAX_BYTES
+  );
+  const auditRotateHours = parsePositiveInt(
+    setting('TABNAB_AUDIT_ROTATE_HOURS'),
+    fileConfig.auditRotateHours ?? DEFAULT_AUDIT_ROTATE_HOURS
+  );
+  const auditRetentionDays = parsePositiveInt(
+    setting('TABNAB_AUDIT_RETENTION_DAYS'),
+    fileConfig.auditRetentionDays ?? DEFAULT_AUDIT_RETENTION_DAYS
+  );
+  const auditSinks = strict('TABNAB_AUDIT_SINKS', parseAuditSinks) ?? fileConfig.auditSinks ?? [];
   const maxSteps = parsePositiveInt(
-    process.env.TABNAB_MAX_STEPS ?? fileConfig.TABNAB_MAX_STEPS,
-    DEFAULT_MAX_STEPS
+    setting('TABNAB_MAX_STEPS'),
+    fileConfig.maxSteps ?? DEFAULT_MAX_STEPS
   );
   const selectorLogMode = normalizeSelectorLogMode(
-    process.env.TABNAB_AUDIT_LOG_SELECTOR_MODE ?? fileConfig.TABNAB_AUDIT_LOG_SELECTOR_MODE
+    setting('TABNAB_AUDIT_LOG_SELECTOR_MODE') ?? fileConfig.selectorLogMode
   );
+  const toolPermissions =
+    strict('TABNAB_TOOL_PERMISSIONS', parseToolPermissions) ?? fileConfig.toolPermissions ?? {};
+  // The setting switches redaction and picks detectors; patterns only come from the file.
+  const contentRedactionSetting = strict('TABNAB_CONTENT_REDACTION', parseContentRedaction);
+  const contentRedaction = contentRedactionSetting
+    ? { ...fileConfig.contentRedaction, ...contentRedactionSetting }
+    : fileConfig.contentRedaction;
+  const injectionThreshold = parsePositiveNumber(
+    setting('TABNAB_INJECTION_THRESHOLD'),
+    fileConfig.injectionThreshold ?? DEFAULT_INJECTION_THRESHOLD
+  );
+  const injectionAction =
+    choice('TABNAB_INJECTION_ACTION', INJECTION_ACTIONS) ?? fileConfig.injectionAction ?? 'warn';
+  const hiddenContent =
+    choice('TABNAB_HIDDEN_CONTENT', HIDDEN_CONTENT_MODES) ??
+    fileConfig.hiddenContent ??
+    'quarantine';
+  if (issues.length > 0) {
+    throw new PolicySettingsError(issues);
+  }
 
   return {
     allowedDomains,
     allowedPathPrefixes,
+    deniedDomains,
+    deniedPathPatterns,
     confirmationMode,
+    confirmationChannel,
+    approvalPort,
     auditLogPath,
+    auditSigningKeyPath,
+    auditCheckpointInterval,
+    auditMaxBytes,
+    auditRotateHours,
+    auditRetentionDays,
+    auditSinks,
     maxSteps,
     selectorLogMode,
+    toolPermissions,
+    sensitiveRules: fileConfig.sensitiveRules,
+    domainPolicies: fileConfig.domainPolicies ?? {},
+    browserPolicies: fileConfig.browserPolicies ?? {},
+    contentRedaction,
+    injectionThreshold,
+    injectionAction,
+    hiddenContent,
   };
 }
 
+/**
+ * Returns the most specific per-domain policy block matching the URL, if any.
+ */
+export function resolveDomainPolicy(
+  url: string | URL,
+  config: PolicyConfig
+): { pattern: string; policy: DomainPolicy } | undefined {
+  const policies = config.domainPolicies ?? {};
+  const parsed = safeParseUrl(url);
+  const match = parsed ? findBestDomainMatch(parsed, Object.keys(policies)) : null;
+  return match ? { pattern: match.pattern, policy: policies[match.pattern] } : undefined;
+}
+
+/**
+ * Returns the per-domain step budget that applies to actions on the URL, if any.
+ */
+export function resolveStepScope(url: string | URL, config: PolicyConfig): StepScope | undefined {
+  const domainPolicy = resolveDomainPolicy(url, config);
+  if (!domainPolicy?.policy.maxSteps) {
+    return undefined;
+  }
+  return { key: domainPolicy.pattern, maxSteps: domainPolicy.policy.maxSteps };
+}
+
+/**
+ * The settings a browser profile's block applies to calls made in it, if any.
+ */
+export function resolveBrowserPolicy(
+  config: PolicyConfig,
+  browser: string | undefined
+): BrowserPolicy | undefined {
+  return browser ? config.browserPolicies?.[browser] : undefined;
+}
+
+/**
+ * The prompt-injection score at which content from the URL is reported: the most specific
+ * domain block's threshold, then the browser block's, then the global one.
+ */
+export function resolveInjectionThreshold(
+  url: string | URL,
+  config: PolicyConfig,
+  browser?: string
+): number {
+  return (
+    resolveDomainPolicy(url, config)?.policy.injectionThreshold ??
+    resolveBrowserPolicy(config, browser)?.injectionThreshold ??
+    config.injectionThreshold ??
+    DEFAULT_INJECTION_THRESHOLD
+  );
+}
+
+export function resolveInjectionAction(
+  url: string | URL,
+  config: PolicyConfig,
+  browser?: string
+): InjectionAction {
+  return (
+    resolveDomainPolicy(url, config)?.policy.injectionAction ??
+    resolveBrowserPolicy(config, browser)?.injectionAction ??
+    config.injectionAction ??
+    'warn'
+  );
+}
+
+/**
+ * Domain blocks apply their sensitive rules on top of the global rules, which in turn
+ * extend or replace the built-in defaults.
+ */
+export function resolveSensitiveRules(
+  config: PolicyConfig,
+  domainPolicy?: DomainPolicy
+): SensitiveActionRules {
+  return mergeSensitiveRules(
+    mergeSensitiveRules(DEFAULT_SENSITIVE_RULES, config.sensitiveRules),
+    domainPolicy?.sensitiveRules
+  );
+}
+
 export function enforcePolicy(context: PolicyContext, config: PolicyConfig): PolicyDecision {
   const reasonCodes: string[] = [];
-  const sensitive = isSensitiveAction({
-    selector: context.selector,
-    url: context.url,
-    elementText: context.elementText,
-    actionType: context.actionType,
-    key: context.key,
-  });
+  const domainPolicy = context.url ? resolveDomainPolicy(context.url, config) : undefined;
+  const browserPolicy = resolveBrowserPolicy(config, context.browser);
+  const sensitiveMatches = detectSensitiveAction(
+    {
+      selector: context.selector,
+      url: context.url,
+      elementText: context.elementText,
+      element: context.element,
+      actionType: context.actionType,
+      key: context.key,
+    },
+    resolveSensitiveRules(config, domainPolicy?.policy)
+  );
+  const sensitive = sensitiveMatches.length > 0;
+  const toolPermission = resolveToolPermission(
+    context.toolName,
+    config,
+    domainPolicy?.policy,
+    browserPolicy
+  );
+  if (toolPermission === 'deny') {
+    reasonCodes.push('tool_disabled');
+    return {
+      allowed: false,
+      requiresConfirmation: false,
+      reasonCodes,
+      sensitive,
+    };
+  }
+
+  if (context.url) {
+    const url = new URL(context.url);
+    const denyDecision = isUrlDenied(url, config);
+    if (denyDecision.denied) {
+      reasonCodes.push(...denyDecision.reasonCodes);
+      return {
+        allowed: false,
+        requiresConfirmation: false,
+        reasonCodes,
+        sensitive,
+      };
+    }
+  }
 
   if (context.url && !context.isReadOnly) {
     const url = new URL(context.url);
@@ -68,11 +340,43 @@ export function enforcePolicy(context: PolicyContext, config: PolicyConfig): Pol
     }
   }
 
+  const allowedTools = [domainPolicy?.policy.allowedTools, browserPolicy?.allowedTools];
+  if (allowedTools.some((tools) => tools && !tools.includes(context.toolName as ToolName))) {
+    reasonCodes.push('tool_not_allowed');
+    return {
+      allowed: false,
+      requiresConfirmation: false,
+      reasonCodes,
+      sensitive,
+    };
+  }
+
   if (sensitive) {
-    reasonCodes.push('sensitive_action');
+    reasonCodes.push('sensitive_action', ...sensitiveMatches.map(sensitiveReasonCode));
+  }
+
+  const tainted = Boolean(context.tainted) && TAINT_GUARDED_TOOLS.has(context.toolName);
+  if (tainted) {
+    reasonCodes.push('prompt_injection_taint');
+  }
+
+  if (context.elementUnresolved) {
+    reasonCodes.push('element_unresolved');
+  }
+
+  const confirmationMode =
+    domainPolicy?.policy.confirmationMode ??
+    browserPolicy?.confirmationMode ??
+    config.confirmationMode;
+  if (toolPermission === 'confirm') {
+    reasonCodes.push('tool_requires_confirmation');
   }
 
-  const requiresConfirmation = shouldRequireConfirmation(context, config.confirmationMode, sensitive);
+  const requiresConfirmation =
+    toolPermission === 'confirm' ||
+    tainted ||
+    Boolean(context.elementUnresolved) ||
+    shouldRequireConfirmation(context, confirmationMode, sensitive);
   if (requiresConfirmation) {
     reasonCodes.push('confirmation_required');
   }
@@ -132,13 +436,27 @@ function normalizeSelectorLogMode(mode: string | undefined): PolicyConfig['selec
   }
 }
 
-function readPolicyFile(path: string): Record<string, string> {
+function parseSetting<T>(raw: string | undefined, parse: (raw: string) => T): T | undefined {
+  return raw === undefined ? undefined : parse(raw);
+}
+
+function safeParseUrl(url: string | URL): URL | null {
+  if (url instanceof URL) {
+    return url;
+  }
   try {
-    const raw = readFileSync(path, 'utf8');
-    return JSON.parse(raw) as Record<string, string>;
+    return new URL(url);
   } catch {
-    return {};
+    return null;
+  }
+}
+
+function parsePositiveNumber(value: string | undefined, fallback: number): number {
+  if (!value) {
+    return fallback;
   }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
 }
 
 function parsePositiveInt(value: string | undefined, fallback: number): number {
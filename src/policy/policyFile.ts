@@ -0,0 +1,534 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { isMap, isSeq, LineCounter, type Node, parseDocument } from 'yaml';
+import { z } from 'zod';
+import { normalizeDomainPattern } from './allowlist.js';
+import { validateSensitiveRule } from './sensitive.js';
+import {
+  type AuditSinkConfig,
+  CONFIRMATION_CHANNELS,
+  CONTENT_DETECTORS,
+  type DomainPolicy,
+  HIDDEN_CONTENT_MODES,
+  INJECTION_ACTIONS,
+  type PolicyConfig,
+  TOOL_NAMES,
+} from './types.js';
+
+export interface PolicyFileIssue {
+  path: string;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export class PolicyConfigError extends Error {
+  constructor(
+    readonly filePath: string,
+    readonly issues: PolicyFileIssue[]
+  ) {
+    super(
+      `Invalid policy file ${filePath}:\n${issues.map((issue) => `  ${formatPolicyFileIssue(issue)}`).join('\n')}`
+    );
+    this.name = 'PolicyConfigError';
+  }
+}
+
+/**
+ * The contents of a policy file. Legacy files are a flat map of `TABNAB_*` strings and
+ * populate `settings`; structured documents populate `config`.
+ */
+export interface PolicyFileContents {
+  settings: Record<string, string>;
+  config: Partial<PolicyConfig>;
+}
+
+const DomainPatternSchema = z
+  .string()
+  .refine((value) => normalizeDomainPattern(value) !== null, 'Invalid domain pattern');
+
+const PathSchema = z.string().startsWith('/', 'Path must start with "/"');
+
+const ConfirmationModeSchema = z.enum([
+  'auto',
+  'confirm-on-navigation',
+  'confirm-on-sensitive',
+  'always-confirm',
+]);
+
+const ToolPermissionsSchema = z.partialRecord(
+  z.enum(TOOL_NAMES),
+  z.enum(['allow', 'deny', 'confirm'])
+);
+
+const SensitiveRuleSchema = z
+  .string()
+  .min(1)
+  .superRefine((value, ctx) => {
+    const error = validateSensitiveRule(value);
+    if (error) {
+      ctx.addIssue({ code: 'custom', message: error });
+    }
+  });
+
+const SensitiveRulesSchema = z
+  .object({
+    mode: z.enum(['merge', 'replace']).optional(),
+    selectorKeywords: z.array(SensitiveRuleSchema).optional(),
+    urlKeywords: z.array(SensitiveRuleSchema).optional(),
+    elementTextKeywords: z.array(SensitiveRuleSchema).optional(),
+    attributeKeywords: z.array(SensitiveRuleSchema).optional(),
+    formActionKeywords: z.array(SensitiveRuleSchema).optional(),
+    elementTypes: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
+const DomainPolicySchema = z
+  .object({
+    allow: z.boolean().optional(),
+    confirmationMode: ConfirmationModeSchema.optional(),
+    pathPrefixes: z.array(PathSchema).optional(),
+    maxSteps: z.number().int().positive().optional(),
+    allowedTools: z.array(z.enum(TOOL_NAMES)).optional(),
+    tools: ToolPermissionsSchema.optional(),
+    sensitiveRules: SensitiveRulesSchema.optional(),
+    injectionThreshold: z.number().positive().optional(),
+    injectionAction: z.enum(INJECTION_ACTIONS).optional(),
+  })
+  .strict();
+
+const BrowserPolicySchema = z
+  .object({
+    confirmationMode: ConfirmationModeSchema.optional(),
+    allowedTools: z.array(z.enum(TOOL_NAMES)).optional(),
+    tools: ToolPermissionsSchema.optional(),
+    injectionThreshold: z.number().positive().optional(),
+    injectionAction: z.enum(INJECTION_ACTIONS).optional(),
+  })
+  .strict();
+
+const ContentRedactionSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    detectors: z.array(z.enum(CONTENT_DETECTORS)).optional(),
+    patterns: z.array(SensitiveRuleSchema).optional(),
+  })
+  .strict();
+
+const AuditSinkOptions = {
+  name: z.string().min(1).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  retryInitialMs: z.number().int().positive().optional(),
+  retryMaxMs: z.number().int().positive().optional(),
+  spoolMaxBytes: z.number().int().positive().optional(),
+};
+
+const HttpUrlSchema = z.url({ protocol: /^https?$/, message: 'Must be an http(s) URL' });
+
+const HeadersSchema = z.record(z.string().min(1), z.string());
+
+const AuditSinkSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('file'), path: z.string().min(1), ...AuditSinkOptions }).strict(),
+  z
+    .object({
+      type: z.literal('syslog'),
+      transport: z.enum(['udp', 'tcp', 'unix']),
+      host: z.string().min(1).optional(),
+      port: z.number().int().min(1).max(65535).optional(),
+      path: z.string().min(1).optional(),
+      facility: z.number().int().min(0).max(23).optional(),
+      appName: z.string().min(1).optional(),
+      ...AuditSinkOptions,
+    })
+    .strict()
+    .refine((sink) => sink.transport !== 'unix' || sink.path, {
+      message: 'The unix transport needs a socket path',
+      path: ['path'],
+    }),
+  z
+    .object({
+      type: z.literal('otlp'),
+      endpoint: HttpUrlSchema,
+      headers: HeadersSchema.optional(),
+      serviceName: z.string().min(1).optional(),
+      ...AuditSinkOptions,
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('webhook'),
+      url: HttpUrlSchema,
+      headers: HeadersSchema.optional(),
+      ...AuditSinkOptions,
+    })
+    .strict(),
+]);
+
+export const PolicyDocumentSchema = z
+  .object({
+    version: z.literal(1).optional(),
+    allowedDomains: z.array(DomainPatternSchema).optional(),
+    allowedPathPrefixes: z.record(DomainPatternSchema, z.array(PathSchema)).optional(),
+    deniedDomains: z.array(DomainPatternSchema).optional(),
+    deniedPathPatterns: z.record(DomainPatternSchema, z.array(PathSchema)).optional(),
+    confirmationMode: ConfirmationModeSchema.optional(),
+    confirmationChannel: z.enum(CONFIRMATION_CHANNELS).optional(),
+    approvalPort: z.number().int().min(1).max(65535).optional(),
+    auditLogPath: z.string().min(1).optional(),
+    auditSigningKeyPath: z.string().min(1).optional(),
+    auditCheckpointInterval: z.number().int().positive().optional(),
+    auditMaxBytes: z.number().int().positive().optional(),
+    auditRotateHours: z.number().int().positive().optional(),
+    auditRetentionDays: z.number().int().positive().optional(),
+    auditSinks: z.array(AuditSinkSchema).optional(),
+    auditLogSelectorMode: z.enum(['plaintext', 'truncate', 'hash']).optional(),
+    maxSteps: z.number().int().positive().optional(),
+    tools: ToolPermissionsSchema.optional(),
+    sensitiveRules: SensitiveRulesSchema.optional(),
+    domains: z.record(DomainPatternSchema, DomainPolicySchema).optional(),
+    browsers: z.record(z.string().min(1), BrowserPolicySchema).optional(),
+    contentRedaction: ContentRedactionSchema.optional(),
+    injectionThreshold: z.number().positive().optional(),
+    injectionAction: z.enum(INJECTION_ACTIONS).optional(),
+    hiddenContent: z.enum(HIDDEN_CONTENT_MODES).optional(),
+  })
+  .strict();
+
+export type PolicyDocument = z.infer<typeof PolicyDocumentSchema>;
+
+const LegacyPolicyFileSchema = z.record(
+  z.string(),
+  z.union([z.string(), z.number(), z.boolean()]).transform(String)
+);
+
+export function readPolicyFile(filePath: string): PolicyFileContents {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new PolicyConfigError(filePath, [
+      {
+        path: '',
+        message: `Unable to read file: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ]);
+  }
+
+  return parsePolicyFile(raw, filePath);
+}
+
+export function parsePolicyFile(raw: string, filePath: string): PolicyFileContents {
+  if (extname(filePath).toLowerCase() === '.json') {
+    const jsonIssue = checkJsonSyntax(raw);
+    if (jsonIssue) {
+      throw new PolicyConfigError(filePath, [jsonIssue]);
+    }
+  }
+
+  const lineCounter = new LineCounter();
+  const document = parseDocument(raw, { lineCounter, prettyErrors: true, uniqueKeys: true });
+  if (document.errors.length > 0) {
+    throw new PolicyConfigError(
+      filePath,
+      document.errors.map((error) => ({
+        path: '',
+        message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+        line: error.linePos?.[0].line,
+        column: error.linePos?.[0].col,
+      }))
+    );
+  }
+
+  const value: unknown = document.toJS() ?? {};
+  const locate = (path: PropertyKey[], preferKey = false) => {
+    const offset = findNodeOffset(document.contents, path, preferKey);
+    if (offset === undefined) {
+      return {};
+    }
+    const position = lineCounter.linePos(offset);
+    return { line: position.line, column: position.col };
+  };
+
+  if (isLegacyDocument(value)) {
+    const legacy = LegacyPolicyFileSchema.safeParse(value);
+    if (!legacy.success) {
+      throw new PolicyConfigError(filePath, toIssues(legacy.error.issues, locate));
+    }
+    return { settings: legacy.data, config: {} };
+  }
+
+  const parsed = PolicyDocumentSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new PolicyConfigError(filePath, toIssues(parsed.error.issues, locate));
+  }
+
+  return { settings: {}, config: toPolicyConfig(parsed.data) };
+}
+
+export function validatePolicyFile(
+  filePath: string
+): { ok: true; contents: PolicyFileContents } | { ok: false; issues: PolicyFileIssue[] } {
+  try {
+    return { ok: true, contents: readPolicyFile(filePath) };
+  } catch (error) {
+    if (error instanceof PolicyConfigError) {
+      return { ok: false, issues: error.issues };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parses `TABNAB_AUDIT_SINKS`, a JSON array of sink settings in the policy file's format.
+ * Throws when the value is not JSON or any entry does not validate, since dropping a sink
+ * would silently stop shipping the audit log there.
+ */
+export function parseAuditSinks(raw: string): AuditSinkConfig[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `must be a JSON array of sink settings (${error instanceof Error ? error.message : String(error)})`
+    );
+  }
+  const parsed = z.array(AuditSinkSchema).safeParse(value);
+  if (!parsed.success) {
+    throw new Error(
+      parsed.error.issues
+        .map((issue) => `${formatPath(issue.path) || 'value'}: ${issue.message}`)
+        .join('; ')
+    );
+  }
+  return parsed.data;
+}
+
+export function formatPolicyFileIssue(issue: PolicyFileIssue): string {
+  const location =
+    issue.line !== undefined
+      ? `line ${issue.line}${issue.column !== undefined ? `, column ${issue.column}` : ''}`
+      : undefined;
+  const prefix = [location, issue.path ? `(${issue.path})` : undefined].filter(Boolean).join(' ');
+  return prefix ? `${prefix}: ${issue.message}` : issue.message;
+}
+
+function toPolicyConfig(document: PolicyDocument): Partial<PolicyConfig> {
+  const config: Partial<PolicyConfig> = {};
+
+  if (document.allowedDomains) {
+    config.allowedDomains = document.allowedDomains.map(normalizeDomain);
+  }
+  if (document.allowedPathPrefixes) {
+    config.allowedPathPrefixes = normalizeDomainRecord(document.allowedPathPrefixes);
+  }
+  if (document.deniedDomains) {
+    config.deniedDomains = document.deniedDomains.map(normalizeDomain);
+  }
+  if (document.deniedPathPatterns) {
+    config.deniedPathPatterns = normalizeDomainRecord(document.deniedPathPatterns);
+  }
+  if (document.confirmationMode) {
+    config.confirmationMode = document.confirmationMode;
+  }
+  if (document.confirmationChannel) {
+    config.confirmationChannel = document.confirmationChannel;
+  }
+  if (document.approvalPort) {
+    config.approvalPort = document.approvalPort;
+  }
+  if (document.auditLogPath) {
+    config.auditLogPath = document.auditLogPath;
+  }
+  if (document.auditSigningKeyPath) {
+    config.auditSigningKeyPath = document.auditSigningKeyPath;
+  }
+  if (document.auditCheckpointInterval) {
+    config.auditCheckpointInterval = document.auditCheckpointInterval;
+  }
+  if (document.auditMaxBytes) {
+    config.auditMaxBytes = document.auditMaxBytes;
+  }
+  if (document.auditRotateHours) {
+    config.auditRotateHours = document.auditRotateHours;
+  }
+  if (document.auditRetentionDays) {
+    config.auditRetentionDays = document.auditRetentionDays;
+  }
+  if (document.auditSinks) {
+    config.auditSinks = document.auditSinks;
+  }
+  if (document.auditLogSelectorMode) {
+    config.selectorLogMode = document.auditLogSelectorMode;
+  }
+  if (document.maxSteps) {
+    config.maxSteps = document.maxSteps;
+  }
+  if (document.tools) {
+    config.toolPermissions = document.tools;
+  }
+  if (document.sensitiveRules) {
+    config.sensitiveRules = document.sensitiveRules;
+  }
+  if (document.injectionThreshold) {
+    config.injectionThreshold = document.injectionThreshold;
+  }
+  if (document.injectionAction) {
+    config.injectionAction = document.injectionAction;
+  }
+  if (document.hiddenContent) {
+    config.hiddenContent = document.hiddenContent;
+  }
+  // The block opts in unless it says otherwise.
+  if (document.contentRedaction) {
+    const { enabled, ...rest } = document.contentRedaction;
+    config.contentRedaction = { enabled: enabled ?? true, ...rest };
+  }
+
+  if (document.browsers) {
+    config.browserPolicies = Object.fromEntries(
+      Object.entries(document.browsers).map(([name, { tools, ...policy }]) => [
+        name,
+        tools ? { ...policy, toolPermissions: tools } : policy,
+      ])
+    );
+  }
+
+  // A domain block contributes its path prefixes, but only adds its pattern to the allowlist
+  // with `allow: true`, so a block that tightens a domain cannot make it reachable.
+  if (document.domains) {
+    const allowedDomains = new Set(config.allowedDomains ?? []);
+    const allowedPathPrefixes = { ...(config.allowedPathPrefixes ?? {}) };
+    const domainPolicies: Record<string, DomainPolicy> = {};
+
+    for (const [pattern, block] of Object.entries(document.domains)) {
+      const domain = normalizeDomain(pattern);
+      const { allow, pathPrefixes, tools, ...policy } = block;
+      if (allow) {
+        allowedDomains.add(domain);
+      }
+      if (pathPrefixes && pathPrefixes.length > 0) {
+        allowedPathPrefixes[domain] = [...(allowedPathPrefixes[domain] ?? []), ...pathPrefixes];
+      }
+      domainPolicies[domain] = tools ? { ...policy, toolPermissions: tools } : policy;
+    }
+
+    config.allowedDomains = [...allowedDomains];
+    config.allowedPathPrefixes = allowedPathPrefixes;
+    config.domainPolicies = domainPolicies;
+  }
+
+  return config;
+}
+
+// Patterns have already been validated by the schema at this point.
+function normalizeDomain(pattern: string): string {
+  return normalizeDomainPattern(pattern) ?? pattern;
+}
+
+function normalizeDomainRecord(record: Record<string, string[]>): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  for (const [pattern, paths] of Object.entries(record)) {
+    const domain = normalizeDomain(pattern);
+    result[domain] = [...(result[domain] ?? []), ...paths];
+  }
+  return result;
+}
+
+function isLegacyDocument(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => key.startsWith('TABNAB_'));
+}
+
+function toIssues(
+  issues: z.core.$ZodIssue[],
+  locate: (path: PropertyKey[], preferKey?: boolean) => { line?: number; column?: number }
+): PolicyFileIssue[] {
+  return issues.flatMap((issue) => {
+    if (issue.code === 'unrecognized_keys') {
+      return issue.keys.map((key) => ({
+        path: formatPath([...issue.path, key]),
+        message: `Unknown setting "${key}"`,
+        ...locate([...issue.path, key], true),
+      }));
+    }
+
+    if (issue.code === 'invalid_key') {
+      return [
+        {
+          path: formatPath(issue.path),
+          message: issue.issues[0]?.message ?? issue.message,
+          ...locate(issue.path, true),
+        },
+      ];
+    }
+
+    return [{ path: formatPath(issue.path), message: issue.message, ...locate(issue.path) }];
+  });
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : `${index > 0 ? '.' : ''}${String(segment)}`
+    )
+    .join('');
+}
+
+function findNodeOffset(
+  root: unknown,
+  path: PropertyKey[],
+  preferKey: boolean
+): number | undefined {
+  let node = root as Node | null | undefined;
+  let offset = node?.range?.[0];
+
+  for (const [index, segment] of path.entries()) {
+    const isLast = index === path.length - 1;
+    if (isMap(node)) {
+      const pair = node.items.find(
+        (item) => String((item.key as { value?: unknown } | null)?.value) === String(segment)
+      );
+      if (!pair) {
+        return offset;
+      }
+      const key = pair.key as Node | null;
+      const value = pair.value as Node | null;
+      if (isLast && preferKey) {
+        return key?.range?.[0] ?? offset;
+      }
+      node = value;
+      offset = value?.range?.[0] ?? key?.range?.[0] ?? offset;
+    } else if (isSeq(node) && typeof segment === 'number') {
+      node = node.items[segment] as Node | undefined;
+      offset = node?.range?.[0] ?? offset;
+    } else {
+      return offset;
+    }
+  }
+
+  return offset;
+}
+
+function checkJsonSyntax(raw: string): PolicyFileIssue | null {
+  try {
+    JSON.parse(raw);
+    return null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // V8 gives the offset for most syntax errors but not for an unexpected token, which
+    // is then reported without a position.
+    const offset = /in JSON at position (\d+)/.exec(message)?.[1];
+    const before = offset === undefined ? undefined : raw.slice(0, Number(offset)).split('\n');
+    return {
+      path: '',
+      message: message.replace(
+        /(, (\.\.\.)?".*" is not valid JSON| in JSON at position \d+.*)$/s,
+        ''
+      ),
+      ...(before && { line: before.length, column: before[before.length - 1].length + 1 }),
+    };
+  }
+}
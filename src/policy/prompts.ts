@@ -1,52 +1,189 @@
-const INJECTION_PATTERNS: RegExp[] = [
-  /ignore\s+all\s+previous\s+instructions/i,
-  /disregard\s+the\s+above/i,
-  /you\s+are\s+chatgpt/i,
-  /system\s+prompt/i,
-  /developer\s+message/i,
-  /override\s+the\s+rules/i,
-  /do\s+not\s+follow\s+these\s+rules/i,
-  /act\s+as\s+an?\s+agent/i,
-  /exfiltrate/i,
-  /confidential/i,
-];
+import { randomBytes } from 'node:crypto';
+import {
+  DEFAULT_INJECTION_DETECTORS,
+  normalizeForDetection,
+  stripInvisibleCharacters,
+} from './injectionDetectors.js';
+
+export type InjectionSeverity = 'low' | 'medium' | 'high';
+
+/** Where in the page a piece of text came from. */
+export type InjectionSource =
+  | 'text'
+  | 'hidden_element'
+  | 'alt_text'
+  | 'title_attribute'
+  | 'aria_label'
+  | 'placeholder'
+  | 'meta'
+  | 'comment';
+
+export interface TextSegment {
+  text: string;
+  source: InjectionSource;
+  /** The element the text came from, when the live page located it. */
+  selector?: string;
+}
+
+/** A match reported by a detector, in offsets of the segment's original text. */
+export interface InjectionMatch {
+  ruleId: string;
+  severity: InjectionSeverity;
+  start: number;
+  end: number;
+}
+
+export interface InjectionFinding extends InjectionMatch {
+  /** The matched text with a little context, whitespace collapsed. */
+  snippet: string;
+  source: InjectionSource;
+  selector?: string;
+}
+
+/**
+ * The text a detector inspects. `normalized` has invisible characters removed and
+ * lookalike and compatibility characters folded to ASCII; `toOriginal` maps a range of
+ * it back to `original`.
+ */
+export interface DetectionText {
+  original: string;
+  normalized: string;
+  toOriginal(start: number, end: number): [number, number];
+}
+
+export interface InjectionDetector {
+  readonly id: string;
+  detect(text: DetectionText): InjectionMatch[];
+}
 
 export interface PromptInjectionResult {
   score: number;
-  matches: string[];
+  findings: InjectionFinding[];
 }
 
-export function detectPromptInjection(text: string): PromptInjectionResult {
-  const matches: string[] = [];
-  let score = 0;
+/** What extraction tools return about content that reached the injection threshold. */
+export interface InjectionReport extends PromptInjectionResult {
+  threshold: number;
+}
+
+/** Content scoring at least this much is reported, unless the policy sets its own threshold. */
+export const DEFAULT_INJECTION_THRESHOLD = 1;
+
+const SEVERITY_WEIGHTS: Record<InjectionSeverity, number> = { low: 0.25, medium: 1, high: 2 };
+const SEVERITY_ORDER: InjectionSeverity[] = ['low', 'medium', 'high'];
+const MAX_FINDINGS_PER_RULE = 20;
+const SNIPPET_CONTEXT = 20;
+const SNIPPET_MAX_LENGTH = 160;
 
-  for (const pattern of INJECTION_PATTERNS) {
-    const match = text.match(pattern);
-    if (match) {
-      matches.push(match[0]);
-      score += 1;
+/**
+ * Runs the detectors over every segment. Each rule counts once towards the score, at the
+ * highest severity it was found with, so a phrase repeated down a page does not outweigh
+ * several different signals.
+ */
+export function detectPromptInjection(
+  input: string | TextSegment[],
+  detectors: readonly InjectionDetector[] = DEFAULT_INJECTION_DETECTORS
+): PromptInjectionResult {
+  const segments = typeof input === 'string' ? [{ text: input, source: 'text' as const }] : input;
+  const findings: InjectionFinding[] = [];
+  const perRule = new Map<string, number>();
+
+  for (const segment of segments) {
+    if (!segment.text.trim()) {
+      continue;
+    }
+    const text = normalizeForDetection(segment.text);
+    for (const detector of detectors) {
+      for (const match of detector.detect(text)) {
+        const count = perRule.get(match.ruleId) ?? 0;
+        if (count >= MAX_FINDINGS_PER_RULE) {
+          continue;
+        }
+        perRule.set(match.ruleId, count + 1);
+        findings.push({
+          ...match,
+          snippet: snippetOf(segment.text, match.start, match.end),
+          source: segment.source,
+          selector: segment.selector,
+        });
+      }
     }
   }
 
-  if (/prompt|instruction/i.test(text)) {
-    score += 0.5;
+  const strongest = new Map<string, InjectionSeverity>();
+  for (const finding of findings) {
+    const current = strongest.get(finding.ruleId);
+    if (!current || rank(finding.severity) > rank(current)) {
+      strongest.set(finding.ruleId, finding.severity);
+    }
   }
+  const score = [...strongest.values()].reduce(
+    (total, severity) => total + SEVERITY_WEIGHTS[severity],
+    0
+  );
 
-  return { score, matches };
+  return { score, findings };
 }
 
-export function buildInjectionWarnings(result: PromptInjectionResult): string[] {
-  if (result.score <= 0) {
+/**
+ * Summarizes the strongest findings. Snippets are left out when the content they quote
+ * was withheld from the agent, so the warning does not hand it back.
+ */
+export function buildInjectionWarnings(
+  result: PromptInjectionResult,
+  threshold = DEFAULT_INJECTION_THRESHOLD,
+  options: { snippets?: boolean } = {}
+): string[] {
+  if (result.score <= 0 || result.score < threshold) {
     return [];
   }
 
-  const warnings = [
-    `Potential prompt-injection content detected (${result.score.toFixed(1)}).`,
-  ];
+  const warnings = [`Potential prompt-injection content detected (${result.score.toFixed(1)}).`];
 
-  if (result.matches.length > 0) {
-    warnings.push(`Matched phrases: ${result.matches.slice(0, 3).join(', ')}.`);
+  const shown = [...result.findings]
+    .sort((a, b) => rank(b.severity) - rank(a.severity))
+    .filter(
+      (finding, index, sorted) =>
+        sorted.findIndex((other) => other.ruleId === finding.ruleId) === index
+    )
+    .slice(0, 3);
+  if (shown.length > 0) {
+    const details = shown.map((finding) => {
+      const where = finding.selector ? `${finding.source} at ${finding.selector}` : finding.source;
+      const detail = `${finding.ruleId} (${finding.severity}, ${where})`;
+      return options.snippets === false ? detail : `${detail}: "${finding.snippet}"`;
+    });
+    warnings.push(`Matched rules: ${details.join('; ')}.`);
   }
 
   return warnings;
 }
+
+/**
+ * Wraps content in delimiters that carry a random id, so the page cannot close the block
+ * early by including the end marker itself.
+ */
+export function wrapUntrustedContent(content: string): {
+  content: string;
+  begin: string;
+  end: string;
+} {
+  const id = randomBytes(6).toString('hex');
+  const begin = `<<<UNTRUSTED_PAGE_CONTENT ${id}>>>`;
+  const end = `<<<END_UNTRUSTED_PAGE_CONTENT ${id}>>>`;
+  return { content: `${begin}\n${content}\n${end}`, begin, end };
+}
+
+function rank(severity: InjectionSeverity): number {
+  return SEVERITY_ORDER.indexOf(severity);
+}
+
+function snippetOf(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+  const excerpt = stripInvisibleCharacters(text.slice(from, to)).replace(/\s+/g, ' ').trim();
+  const snippet = `${from > 0 ? '…' : ''}${excerpt}${to < text.length ? '…' : ''}`;
+  return snippet.length > SNIPPET_MAX_LENGTH
+    ? `${snippet.slice(0, SNIPPET_MAX_LENGTH - 1)}…`
+    : snippet;
+}
@@ -1,8 +1,10 @@
 import { createHash } from 'node:crypto';
-import type { AuditEvent, SelectorLogMode } from './types.js';
+import type { AuditEventInput, SelectorLogMode } from './types.js';
 
 const SENSITIVE_QUERY_PARAMS = ['token', 'code', 'session', 'auth', 'key'];
 const REDACTED = '[REDACTED]';
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+const CLIENT_FIELD_LENGTH = 64;
 
 const SENSITIVE_KEYS = [
   'value',
@@ -70,20 +72,27 @@ export function redactSelector(selector: string, mode: SelectorLogMode): string
   }
 
   if (mode === 'hash') {
+    // Entries read back from the log may already hold a hashed selector.
+    if (SHA256_HEX.test(selector)) {
+      return selector;
+    }
     return createHash('sha256').update(selector).digest('hex');
   }
 
-  const maxLength = 120;
-  if (selector.length <= maxLength) {
-    return selector;
+  return truncate(selector, 120);
+}
+
+function truncate(value: string, maxLength: number): string {
+  if (value.length <= maxLength) {
+    return value;
   }
-  return `${selector.slice(0, maxLength)}…`;
+  return `${value.slice(0, maxLength)}…`;
 }
 
 export function redactAuditEvent(
-  event: Omit<AuditEvent, 'id' | 'timestamp'>,
+  event: AuditEventInput,
   selectorLogMode: SelectorLogMode
-): Omit<AuditEvent, 'id' | 'timestamp'> {
+): AuditEventInput {
   return {
     toolName: event.toolName,
     actionType: event.actionType,
@@ -91,6 +100,21 @@ export function redactAuditEvent(
     reasonCodes: event.reasonCodes,
     url: event.url ? redactUrl(event.url) : undefined,
     selector: event.selector ? redactSelector(event.selector, selectorLogMode) : undefined,
+    sessionId: event.sessionId,
+    tabId: event.tabId,
+    browser: event.browser,
+    // Client names are chosen by the client, so they are capped like free text.
+    client: event.client
+      ? {
+          name: truncate(event.client.name, CLIENT_FIELD_LENGTH),
+          version: truncate(event.client.version, CLIENT_FIELD_LENGTH),
+        }
+      : undefined,
+    step: event.step,
+    durationMs: event.durationMs,
+    errorCode: event.errorCode,
+    secretName: event.secretName,
+    resolvesAuditId: event.resolvesAuditId,
   };
 }
 
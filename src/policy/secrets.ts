@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { normalizeDomainPattern } from './allowlist.js';
+
+const SECRET_ENV_PREFIX = 'TABNAB_SECRET_';
+const SCRUBBED = '[REDACTED]';
+
+export const SECRET_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+/**
+ * Tool input fields that may carry typed text or credentials. Their values must never
+ * reach audit events, confirmation summaries, error messages or stderr.
+ */
+export const secretFields = z.registry<{ secret: true }>();
+
+/** Marks a schema as secret. Mark the field's outermost schema, after `.optional()`. */
+export function secret<T extends z.ZodType>(schema: T): T {
+  secretFields.add(schema, { secret: true });
+  return schema;
+}
+
+/** The names of an object schema's fields marked with `secret`. */
+export function secretFieldNames(schema: z.ZodObject): string[] {
+  return Object.entries(schema.shape)
+    .filter(([, field]) => secretFields.has(field as z.ZodType))
+    .map(([name]) => name);
+}
+
+/** The non-empty string values of an input's secret fields. */
+export function secretValues(schema: z.ZodObject, input: unknown): string[] {
+  if (!input || typeof input !== 'object') {
+    return [];
+  }
+  const record = input as Record<string, unknown>;
+  return secretFieldNames(schema)
+    .map((name) => record[name])
+    .filter((value): value is string => typeof value === 'string' && value.length > 0);
+}
+
+/**
+ * Replaces every occurrence of the secrets in `text`, including JSON-escaped ones, since
+ * error messages often quote the arguments they were given.
+ */
+export function scrubSecrets(text: string, secrets: readonly string[]): string {
+  let result = text;
+  // Longest first, so a secret that contains another is replaced whole.
+  for (const value of [...secrets].sort((a, b) => b.length - a.length)) {
+    for (const form of new Set([value, JSON.stringify(value).slice(1, -1)])) {
+      result = result.split(form).join(SCRUBBED);
+    }
+  }
+  return result;
+}
+
+export class SecretConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid secret settings:\n${issues.map((issue) => `  ${issue}`).join('\n')}`);
+    this.name = 'SecretConfigError';
+  }
+}
+
+/** Resolves a `valueRef` to the secret it names, without the agent ever seeing it. */
+export interface SecretStore {
+  /**
+   * The domain patterns the secret may be filled on, read without revealing its value;
+   * undefined when there is no such secret, and empty when it is not scoped to any.
+   */
+  scope(name: string): Promise<string[] | undefined>;
+  resolve(name: string): Promise<string | undefined>;
+}
+
+/**
+ * Reads secrets from `TABNAB_SECRET_<NAME>` environment variables, with the name
+ * upper-cased and other characters replaced by `_`, so `github.password` reads
+ * `TABNAB_SECRET_GITHUB_PASSWORD`. A secret is only filled on the domains listed for it in
+ * `TABNAB_SECRET_DOMAINS`, a JSON object of secret names to domain patterns; names that
+ * would read the same variable are rejected there.
+ */
+export class EnvSecretStore implements SecretStore {
+  private readonly domains: Map<string, string[]>;
+
+  constructor(private readonly env: NodeJS.ProcessEnv = process.env) {
+    this.domains = parseSecretDomains(env.TABNAB_SECRET_DOMAINS);
+  }
+
+  async scope(name: string): Promise<string[] | undefined> {
+    if (!SECRET_NAME_PATTERN.test(name) || this.env[secretEnvName(name)] === undefined) {
+      return undefined;
+    }
+    return this.domains.get(name) ?? [];
+  }
+
+  async resolve(name: string): Promise<string | undefined> {
+    if (!SECRET_NAME_PATTERN.test(name) || !this.domains.has(name)) {
+      return undefined;
+    }
+    return this.env[secretEnvName(name)];
+  }
+}
+
+function secretEnvName(name: string): string {
+  return `${SECRET_ENV_PREFIX}${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+function parseSecretDomains(raw: string | undefined): Map<string, string[]> {
+  const domains = new Map<string, string[]>();
+  if (raw === undefined || raw.trim() === '') {
+    return domains;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new SecretConfigError([
+      `TABNAB_SECRET_DOMAINS: ${error instanceof Error ? error.message : String(error)}`,
+    ]);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new SecretConfigError([
+      'TABNAB_SECRET_DOMAINS: must be a JSON object of secret names to domain lists, e.g. {"github.password":["github.com"]}',
+    ]);
+  }
+
+  const issues: string[] = [];
+  const readers = new Map<string, string>();
+  for (const [name, patterns] of Object.entries(parsed)) {
+    const label = `TABNAB_SECRET_DOMAINS.${name}`;
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      issues.push(`${label}: secret names use letters, digits, ".", "-" and "_"`);
+      continue;
+    }
+    const envName = secretEnvName(name);
+    const other = readers.get(envName);
+    if (other !== undefined) {
+      issues.push(`${label}: reads ${envName} like "${other}"; rename one of them`);
+      continue;
+    }
+    readers.set(envName, name);
+    if (
+      !Array.isArray(patterns) ||
+      patterns.length === 0 ||
+      patterns.some((pattern) => typeof pattern !== 'string' || !normalizeDomainPattern(pattern))
+    ) {
+      issues.push(`${label}: must be a non-empty list of domain patterns`);
+      continue;
+    }
+    domains.set(name, patterns);
+  }
+  if (issues.length > 0) {
+    throw new SecretConfigError(issues);
+  }
+  return domains;
+}
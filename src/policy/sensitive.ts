@@ -1,6 +1,11 @@
-import type { SensitiveActionRules } from './types.js';
+import type {
+  ElementDescriptor,
+  SensitiveActionRules,
+  SensitiveRuleCategory,
+  SensitiveRulesConfig,
+} from './types.js';
 
-const DEFAULT_RULES: SensitiveActionRules = {
+export const DEFAULT_SENSITIVE_RULES: SensitiveActionRules = {
   selectorKeywords: [
     'submit',
     'confirm',
@@ -25,32 +30,187 @@ const DEFAULT_RULES: SensitiveActionRules = {
     'purchase',
     'checkout',
   ],
+  attributeKeywords: [
+    'submit',
+    'confirm',
+    'delete',
+    'remove',
+    'unsubscribe',
+    'checkout',
+    'purchase',
+    'pay',
+    'order',
+    'transfer',
+  ],
+  formActionKeywords: ['checkout', 'billing', 'payment', 'delete', 'unsubscribe', 'order'],
+  elementTypes: ['submit'],
 };
 
-export function isSensitiveAction(params: {
+const RULE_CATEGORIES: readonly SensitiveRuleCategory[] = [
+  'selectorKeywords',
+  'urlKeywords',
+  'elementTextKeywords',
+  'attributeKeywords',
+  'formActionKeywords',
+  'elementTypes',
+];
+
+const REGEX_RULE = /^\/(.+)\/([a-z]*)$/s;
+const matcherCache = new Map<string, (value: string) => boolean>();
+
+export type SensitiveMatchSource =
+  | 'action'
+  | 'key'
+  | 'selector'
+  | 'url'
+  | 'text'
+  | 'aria-label'
+  | 'name'
+  | 'type'
+  | 'form-action'
+  | 'form'
+  | 'frame';
+
+export interface SensitiveMatch {
+  source: SensitiveMatchSource;
+  rule: string;
+}
+
+export interface SensitiveActionParams {
   selector?: string;
   url?: string;
   elementText?: string;
+  element?: ElementDescriptor;
   actionType: string;
   key?: string;
-}): boolean {
-  const selector = params.selector?.toLowerCase() ?? '';
-  const url = params.url?.toLowerCase() ?? '';
-  const elementText = params.elementText?.toLowerCase() ?? '';
+}
+
+/**
+ * Applies a rules override on top of a base rule set. In `merge` mode (the default) each
+ * listed category extends the base; in `replace` mode the base is discarded entirely and
+ * categories the override leaves out are empty.
+ */
+export function mergeSensitiveRules(
+  base: SensitiveActionRules,
+  override: SensitiveRulesConfig | undefined
+): SensitiveActionRules {
+  if (!override) {
+    return base;
+  }
+
+  const replace = override.mode === 'replace';
+  const merged = {} as SensitiveActionRules;
+  for (const category of RULE_CATEGORIES) {
+    const extra = override[category] ?? [];
+    merged[category] = replace ? [...extra] : [...new Set([...base[category], ...extra])];
+  }
+  return merged;
+}
+
+/**
+ * Rules written as `/pattern/flags` are regular expressions; anything else is a
+ * case-insensitive substring. Returns an error message for invalid patterns.
+ */
+export function validateSensitiveRule(rule: string): string | null {
+  const match = rule.match(REGEX_RULE);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    new RegExp(match[1], match[2]);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export function sensitiveReasonCode(match: SensitiveMatch): string {
+  return `sensitive:${match.source}:${match.rule}`;
+}
+
+/**
+ * Returns every rule that marks the action as sensitive, in a stable order, so callers
+ * can explain why confirmation was required.
+ */
+export function detectSensitiveAction(
+  params: SensitiveActionParams,
+  rules: SensitiveActionRules = DEFAULT_SENSITIVE_RULES
+): SensitiveMatch[] {
+  const matches: SensitiveMatch[] = [];
   const actionType = params.actionType.toLowerCase();
   const key = params.key?.toLowerCase();
 
   if (actionType === 'submit') {
-    return true;
+    matches.push({ source: 'action', rule: 'submit' });
   }
 
   if (actionType === 'press_key' && (key === 'enter' || key === 'numpadenter')) {
-    return true;
+    matches.push({ source: 'key', rule: key });
+  }
+
+  // The selector text is only a fallback for when the element could not be resolved:
+  // `#btn-42` says nothing about what the element does.
+  const element = params.element;
+  const checks: [SensitiveMatchSource, string | undefined, string[]][] = [
+    ['selector', element ? undefined : params.selector, rules.selectorKeywords],
+    ['url', params.url, rules.urlKeywords],
+    ['text', element ? element.accessibleName : params.elementText, rules.elementTextKeywords],
+    ['aria-label', element?.ariaLabel, rules.attributeKeywords],
+    ['name', element?.name, rules.attributeKeywords],
+    ['form-action', element?.form?.action, rules.formActionKeywords],
+  ];
+
+  for (const [source, value, keywords] of checks) {
+    if (!value) {
+      continue;
+    }
+    for (const rule of keywords) {
+      if (compileRule(rule)(value)) {
+        matches.push({ source, rule });
+      }
+    }
+  }
+
+  const type = element?.type?.toLowerCase();
+  if (type && rules.elementTypes.some((elementType) => elementType.toLowerCase() === type)) {
+    matches.push({ source: 'type', rule: type });
   }
 
-  const matchesSelector = DEFAULT_RULES.selectorKeywords.some((keyword) => selector.includes(keyword));
-  const matchesUrl = DEFAULT_RULES.urlKeywords.some((keyword) => url.includes(keyword));
-  const matchesText = DEFAULT_RULES.elementTextKeywords.some((keyword) => elementText.includes(keyword));
+  if (element?.submitsForm) {
+    matches.push({ source: 'form', rule: 'submit' });
+  }
+
+  if (element?.inPaymentFrame) {
+    matches.push({ source: 'frame', rule: 'payment' });
+  }
+
+  return matches;
+}
+
+export function isSensitiveAction(
+  params: SensitiveActionParams,
+  rules: SensitiveActionRules = DEFAULT_SENSITIVE_RULES
+): boolean {
+  return detectSensitiveAction(params, rules).length > 0;
+}
+
+function compileRule(rule: string): (value: string) => boolean {
+  const cached = matcherCache.get(rule);
+  if (cached) {
+    return cached;
+  }
+
+  const match = rule.match(REGEX_RULE);
+  let matcher: (value: string) => boolean;
+  if (match && validateSensitiveRule(rule) === null) {
+    const regex = new RegExp(match[1], match[2].replace(/[gy]/g, ''));
+    matcher = (value) => regex.test(value);
+  } else {
+    const keyword = rule.toLowerCase();
+    matcher = (value) => value.toLowerCase().includes(keyword);
+  }
 
-  return matchesSelector || matchesUrl || matchesText;
+  matcherCache.set(rule, matcher);
+  return matcher;
 }
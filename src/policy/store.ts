@@ -0,0 +1,81 @@
+import { type Stats, unwatchFile, watchFile } from 'node:fs';
+import { loadPolicyConfig } from './policy.js';
+import type { PolicyConfig } from './types.js';
+
+export type PolicyReloadResult =
+  | { ok: true; config: PolicyConfig; previous: PolicyConfig }
+  | { ok: false; error: string };
+
+type PolicyChangeListener = (next: PolicyConfig, previous: PolicyConfig) => void;
+
+/**
+ * Holds the active policy and swaps it atomically on reload. Consumers should read
+ * `current()` per decision rather than caching the config, so a reload takes effect on
+ * the next tool call. A reload that fails validation leaves the active policy untouched.
+ */
+export class PolicyStore {
+  private config: PolicyConfig;
+  private listeners = new Set<PolicyChangeListener>();
+  private watchedPath: string | null = null;
+  private watchListener: ((current: Stats, previous: Stats) => void) | null = null;
+
+  constructor(
+    initial?: PolicyConfig,
+    private loader: () => PolicyConfig = loadPolicyConfig
+  ) {
+    this.config = initial ?? loader();
+  }
+
+  current(): PolicyConfig {
+    return this.config;
+  }
+
+  onChange(listener: PolicyChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  reload(): PolicyReloadResult {
+    let next: PolicyConfig;
+    try {
+      next = this.loader();
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const previous = this.config;
+    this.config = next;
+    for (const listener of this.listeners) {
+      listener(next, previous);
+    }
+    return { ok: true, config: next, previous };
+  }
+
+  /**
+   * Polls the policy file and reloads when it changes. Polling (rather than fs.watch)
+   * survives editors that save by writing a temp file and renaming it over the original.
+   */
+  watch(filePath: string, onReload: (result: PolicyReloadResult) => void, intervalMs = 1000): void {
+    this.unwatch();
+
+    const listener = (current: Stats, previous: Stats) => {
+      if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) {
+        return;
+      }
+      onReload(this.reload());
+    };
+    watchFile(filePath, { interval: intervalMs, persistent: false }, listener);
+    this.watchedPath = filePath;
+    this.watchListener = listener;
+  }
+
+  unwatch(): void {
+    if (this.watchedPath && this.watchListener) {
+      unwatchFile(this.watchedPath, this.watchListener);
+    }
+    this.watchedPath = null;
+    this.watchListener = null;
+  }
+}
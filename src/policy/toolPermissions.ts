@@ -0,0 +1,94 @@
+import {
+  type BrowserPolicy,
+  type DomainPolicy,
+  type PolicyConfig,
+  TOOL_NAMES,
+  type ToolName,
+  type ToolPermission,
+} from './types.js';
+
+const TOOL_PERMISSIONS: readonly ToolPermission[] = ['allow', 'deny', 'confirm'];
+
+/**
+ * Parses `fill_input=deny,press_key=confirm`. Throws naming every unknown tool or
+ * permission, since skipping a misspelled entry would let the tool through.
+ */
+export function parseToolPermissions(
+  raw: string | undefined
+): Partial<Record<ToolName, ToolPermission>> {
+  if (!raw) {
+    return {};
+  }
+
+  const permissions: Partial<Record<ToolName, ToolPermission>> = {};
+  const problems: string[] = [];
+  for (const entry of raw.split(',')) {
+    const [tool, permission] = entry.split('=').map((part) => part.trim().toLowerCase());
+    if (!isToolName(tool)) {
+      problems.push(`"${tool}" is not a tool (use ${TOOL_NAMES.join(', ')})`);
+    } else if (!isToolPermission(permission)) {
+      problems.push(
+        `"${permission ?? ''}" is not a permission for ${tool} (use ${TOOL_PERMISSIONS.join(', ')})`
+      );
+    } else {
+      permissions[tool] = permission;
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+  return permissions;
+}
+
+/**
+ * A domain block's entry for a tool overrides the browser block's, which overrides the
+ * global entry; tools without an entry anywhere are allowed. A browser block's `deny`
+ * holds on every domain.
+ */
+export function resolveToolPermission(
+  toolName: string,
+  config: PolicyConfig,
+  domainPolicy?: DomainPolicy,
+  browserPolicy?: BrowserPolicy
+): ToolPermission {
+  if (!isToolName(toolName)) {
+    return 'allow';
+  }
+  const browserPermission = browserPolicy?.toolPermissions?.[toolName];
+  if (browserPermission === 'deny') {
+    return 'deny';
+  }
+  return (
+    domainPolicy?.toolPermissions?.[toolName] ??
+    browserPermission ??
+    config.toolPermissions?.[toolName] ??
+    'allow'
+  );
+}
+
+/**
+ * Whether a tool can be used anywhere under the policy. Tools denied globally stay
+ * enabled if some domain or browser block re-enables them, since the target URL and
+ * browser are not known yet.
+ */
+export function isToolEnabled(toolName: string, config: PolicyConfig): boolean {
+  if (resolveToolPermission(toolName, config) !== 'deny') {
+    return true;
+  }
+
+  return [
+    ...Object.values(config.domainPolicies ?? {}),
+    ...Object.values(config.browserPolicies ?? {}),
+  ].some((policy) => {
+    const permission = policy.toolPermissions?.[toolName as ToolName];
+    return permission !== undefined && permission !== 'deny';
+  });
+}
+
+function isToolName(value: string | undefined): value is ToolName {
+  return TOOL_NAMES.includes(value as ToolName);
+}
+
+function isToolPermission(value: string | undefined): value is ToolPermission {
+  return TOOL_PERMISSIONS.includes(value as ToolPermission);
+}
@@ -4,15 +4,201 @@ export type ConfirmationMode =
   | 'confirm-on-sensitive'
   | 'always-confirm';
 
+export const CONFIRMATION_CHANNELS = ['agent', 'http'] as const;
+
+/**
+ * Who may approve a pending confirmation: the agent through `confirm_action`, or only a
+ * human through the loopback approval page.
+ */
+export type ConfirmationChannel = (typeof CONFIRMATION_CHANNELS)[number];
+
 export type SelectorLogMode = 'plaintext' | 'truncate' | 'hash';
 
+export const HIDDEN_CONTENT_MODES = ['quarantine', 'drop'] as const;
+
+/** What extraction does with text the rendered page does not show. */
+export type HiddenContentMode = (typeof HIDDEN_CONTENT_MODES)[number];
+
+export const INJECTION_ACTIONS = ['warn', 'strip-matching-blocks', 'quarantine', 'block'] as const;
+
+/** What `navigate_and_extract` does with content that reaches the injection threshold. */
+export type InjectionAction = (typeof INJECTION_ACTIONS)[number];
+
+export const TOOL_NAMES = [
+  'get_active_tab',
+  'list_tabs',
+  'activate_tab',
+  'navigate_and_extract',
+  'click_element',
+  'fill_input',
+  'fill_secret',
+  'keyboard_type',
+  'press_key',
+  'wait_for_selector',
+  'wait_for_navigation',
+  'query_selector_all',
+  'screenshot_tab',
+  'confirm_action',
+  'deny_action',
+  'reset_session',
+  'query_audit_log',
+  'get_connection_status',
+  'list_browsers',
+] as const;
+
+export type ToolName = (typeof TOOL_NAMES)[number];
+
+export type ToolPermission = 'allow' | 'deny' | 'confirm';
+
+export interface DomainPolicy {
+  confirmationMode?: ConfirmationMode;
+  maxSteps?: number;
+  allowedTools?: ToolName[];
+  toolPermissions?: Partial<Record<ToolName, ToolPermission>>;
+  sensitiveRules?: SensitiveRulesConfig;
+  injectionThreshold?: number;
+  injectionAction?: InjectionAction;
+}
+
+/**
+ * Settings for calls made in one named browser profile. They override the global
+ * settings and are overridden in turn by a domain block, except that the tools a browser
+ * block denies or leaves out of `allowedTools` stay blocked on every domain.
+ */
+export interface BrowserPolicy {
+  confirmationMode?: ConfirmationMode;
+  allowedTools?: ToolName[];
+  toolPermissions?: Partial<Record<ToolName, ToolPermission>>;
+  injectionThreshold?: number;
+  injectionAction?: InjectionAction;
+}
+
+export const CONTENT_DETECTORS = [
+  'card_number',
+  'jwt',
+  'aws_key',
+  'gcp_token',
+  'github_token',
+  'url_token',
+  'high_entropy',
+  'hidden_input',
+] as const;
+
+export type ContentDetector = (typeof CONTENT_DETECTORS)[number];
+
+export interface ContentRedactionConfig {
+  enabled: boolean;
+  /** The built-in detectors to run; all of them when unset. */
+  detectors?: ContentDetector[];
+  /** Further rules; `/pattern/flags` is a regular expression, anything else a literal. */
+  patterns?: string[];
+}
+
 export interface PolicyConfig {
   allowedDomains: string[];
   allowedPathPrefixes: Record<string, string[]>;
+  deniedDomains?: string[];
+  deniedPathPatterns?: Record<string, string[]>;
   confirmationMode: ConfirmationMode;
+  confirmationChannel?: ConfirmationChannel;
+  approvalPort?: number;
   auditLogPath: string;
+  /** Ed25519 private key used to sign audit checkpoints; generated on first use. */
+  auditSigningKeyPath?: string;
+  /** A signed checkpoint is written every this many audit entries. */
+  auditCheckpointInterval?: number;
+  /** The active audit log is rotated into a gzipped segment once it would exceed this size. */
+  auditMaxBytes?: number;
+  /** The active audit log is also rotated once its first entry is this many hours old. */
+  auditRotateHours?: number;
+  /** Rotated segments older than this many days are deleted. */
+  auditRetentionDays?: number;
+  /** Further destinations every entry is forwarded to once it is written to `auditLogPath`. */
+  auditSinks?: AuditSinkConfig[];
   maxSteps: number;
   selectorLogMode: SelectorLogMode;
+  toolPermissions?: Partial<Record<ToolName, ToolPermission>>;
+  sensitiveRules?: SensitiveRulesConfig;
+  domainPolicies?: Record<string, DomainPolicy>;
+  /** Keyed by the browser profile name. */
+  browserPolicies?: Record<string, BrowserPolicy>;
+  /** Secrets found in extracted page content are replaced before it is returned. */
+  contentRedaction?: ContentRedactionConfig;
+  /** Extracted content whose prompt-injection score reaches this is reported in warnings. */
+  injectionThreshold?: number;
+  injectionAction?: InjectionAction;
+  hiddenContent?: HiddenContentMode;
+}
+
+interface AuditSinkOptions {
+  /** Names the sink in errors and its spool file; derived from the settings when unset. */
+  name?: string;
+  /** A delivery that takes longer than this fails and is retried. */
+  timeoutMs?: number;
+  /** The first retry delay after a failed delivery, doubled on each further failure. */
+  retryInitialMs?: number;
+  retryMaxMs?: number;
+  /** Entries that would grow the spool past this size are dropped from the sink. */
+  spoolMaxBytes?: number;
+}
+
+/** Appends entries as JSON lines to a second file, such as one on a shared volume. */
+export interface FileAuditSinkConfig extends AuditSinkOptions {
+  type: 'file';
+  path: string;
+}
+
+/** RFC 5424 syslog. TCP and unix stream sockets use octet-counted framing. */
+export interface SyslogAuditSinkConfig extends AuditSinkOptions {
+  type: 'syslog';
+  transport: 'udp' | 'tcp' | 'unix';
+  /** Defaults to 127.0.0.1. */
+  host?: string;
+  /** Defaults to 514. */
+  port?: number;
+  /** The path of a stream socket, required for the `unix` transport. */
+  path?: string;
+  /** Defaults to 13, log audit. */
+  facility?: number;
+  appName?: string;
+}
+
+/** OTLP/HTTP log export with the JSON encoding. */
+export interface OtlpAuditSinkConfig extends AuditSinkOptions {
+  type: 'otlp';
+  /** The collector's base URL; `/v1/logs` is appended when the URL has no path. */
+  endpoint: string;
+  headers?: Record<string, string>;
+  serviceName?: string;
+}
+
+/** POSTs each batch as `{ "events": [...] }`. */
+export interface WebhookAuditSinkConfig extends AuditSinkOptions {
+  type: 'webhook';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export type AuditSinkConfig =
+  | FileAuditSinkConfig
+  | SyslogAuditSinkConfig
+  | OtlpAuditSinkConfig
+  | WebhookAuditSinkConfig;
+
+export const AUDIT_OUTCOMES = [
+  'allowed',
+  'denied',
+  'needs_confirmation',
+  'confirmed',
+  'failed',
+] as const;
+
+export type AuditOutcome = (typeof AUDIT_OUTCOMES)[number];
+
+/** The MCP client as reported in the initialize handshake. */
+export interface AuditClientInfo {
+  name: string;
+  version: string;
 }
 
 export interface AuditEvent {
@@ -22,14 +208,79 @@ export interface AuditEvent {
   actionType: string;
   url?: string;
   selector?: string;
-  outcome: 'allowed' | 'denied' | 'needs_confirmation' | 'confirmed';
+  outcome: AuditOutcome;
   reasonCodes?: string[];
+  /** Changes when the session is reset. */
+  sessionId?: string;
+  tabId?: string;
+  /** The browser profile the call acted in. */
+  browser?: string;
+  client?: AuditClientInfo;
+  /** Steps taken in the session when the event was logged. */
+  step?: number;
+  /** Time since the tool call started. */
+  durationMs?: number;
+  /** Set on `failed` events. */
+  errorCode?: string;
+  /** The vault secret a `fill_secret` call used; its value is never logged. */
+  secretName?: string;
+  /** For events after a confirmation, the `needs_confirmation` event it resolves. */
+  resolvesAuditId?: string;
+  /** Position in the hash chain, starting at 1. */
+  seq: number;
+  /** `hash` of the previous entry, or 64 zeros for the first entry in the log. */
+  prevHash: string;
+  hash: string;
+}
+
+export type AuditEventInput = Omit<AuditEvent, 'id' | 'timestamp' | 'seq' | 'prevHash' | 'hash'>;
+
+export interface AuditCheckpoint {
+  /**
+   * A retention record vouches that the entries up to `seq`, ending in `hash`, were
+   * deleted by retention rather than cut from the log. Ordinary checkpoints omit it.
+   */
+  kind?: 'retention';
+  seq: number;
+  hash: string;
+  timestamp: string;
+  keyId: string;
+  signature: string;
 }
 
 export interface SensitiveActionRules {
   selectorKeywords: string[];
   urlKeywords: string[];
   elementTextKeywords: string[];
+  /** Matched against the target element's `aria-label` and `name` attributes. */
+  attributeKeywords: string[];
+  /** Matched against the `action` of the form enclosing the target element. */
+  formActionKeywords: string[];
+  /** Exact `type` attribute values, such as `submit`. */
+  elementTypes: string[];
+}
+
+export type SensitiveRuleCategory = keyof SensitiveActionRules;
+
+export type SensitiveRulesConfig = Partial<SensitiveActionRules> & {
+  mode?: 'merge' | 'replace';
+};
+
+/**
+ * What a selector resolved to in the page. Sensitivity rules prefer this over the
+ * selector text, which says nothing reliable about the element.
+ */
+export interface ElementDescriptor {
+  tagName: string;
+  role?: string;
+  accessibleName?: string;
+  ariaLabel?: string;
+  name?: string;
+  /** The effective `type`, so a `<button>` without one reports `submit` inside a form. */
+  type?: string;
+  form?: { method: string; action?: string };
+  inPaymentFrame: boolean;
+  submitsForm: boolean;
 }
 
 export interface PolicyContext {
@@ -38,9 +289,16 @@ export interface PolicyContext {
   selector?: string;
   actionType: string;
   elementText?: string;
+  element?: ElementDescriptor;
+  /** The action targets an element that never appeared, so it could not be vetted. */
+  elementUnresolved?: boolean;
   key?: string;
   isNavigation?: boolean;
   isReadOnly?: boolean;
+  /** The tab showed high-severity prompt injection earlier in the session. */
+  tainted?: boolean;
+  /** The browser profile the call acts in. */
+  browser?: string;
 }
 
 export interface PolicyDecision {
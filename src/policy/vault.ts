@@ -0,0 +1,316 @@
+import { execFile } from 'node:child_process';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { normalizeDomainPattern } from './allowlist.js';
+import { SECRET_NAME_PATTERN } from './secrets.js';
+
+export const DEFAULT_VAULT_PATH = join(homedir(), '.tabnab', 'vault.json');
+
+const VAULT_VERSION = 1;
+const KEYRING_SERVICE = 'tabnab-vault';
+const KEYRING_ACCOUNT = 'default';
+const KEYRING_TIMEOUT_MS = 5000;
+const CHECK_PLAINTEXT = 'tabnab-vault';
+
+/** scrypt cost parameters; stored in the file so they can be raised without a migration. */
+const DEFAULT_KDF = { N: 2 ** 15, r: 8, p: 1 };
+
+interface EncryptedValue {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface VaultEntry extends EncryptedValue {
+  domains: string[];
+  createdAt: string;
+}
+
+interface VaultFile {
+  version: number;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  /** A known value encrypted with the key, so a wrong passphrase fails on unlock. */
+  check: EncryptedValue;
+  secrets: Record<string, VaultEntry>;
+}
+
+export interface VaultSecretInfo {
+  name: string;
+  domains: string[];
+  createdAt: string;
+}
+
+export interface VaultSecret {
+  value: string;
+  /** Domain patterns, in allowlist syntax, of the pages the secret may be filled on. */
+  domains: string[];
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+export function vaultPathFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return env.TABNAB_VAULT_PATH || DEFAULT_VAULT_PATH;
+}
+
+/**
+ * An encrypted file of named secrets, each scoped to the domains it may be filled on.
+ * The key is derived from a passphrase with scrypt and every entry is sealed with
+ * AES-256-GCM, with its name and domains as associated data so the scope cannot be
+ * edited without the passphrase. The file is read on every access, so secrets added
+ * with `tabnab vault add` are visible to a running server.
+ */
+export class SecretVault {
+  private constructor(
+    readonly filePath: string,
+    private readonly key: Buffer,
+    private readonly salt: string
+  ) {}
+
+  /** Creates an empty vault, refusing to overwrite an existing one. */
+  static async create(filePath: string, passphrase: string): Promise<SecretVault> {
+    if (!passphrase) {
+      throw new VaultError('The vault passphrase cannot be empty.');
+    }
+    const salt = randomBytes(16).toString('base64');
+    const kdf = { name: 'scrypt' as const, salt, ...DEFAULT_KDF };
+    const key = await deriveKey(passphrase, kdf);
+    const file: VaultFile = {
+      version: VAULT_VERSION,
+      kdf,
+      check: encrypt(key, CHECK_PLAINTEXT, 'check'),
+      secrets: {},
+    };
+
+    await mkdir(dirname(filePath), { recursive: true, mode: 0o700 });
+    try {
+      await writeFile(filePath, `${JSON.stringify(file, null, 2)}\n`, { mode: 0o600, flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new VaultError(`A vault already exists at ${filePath}.`);
+      }
+      throw error;
+    }
+    return new SecretVault(filePath, key, salt);
+  }
+
+  static async open(filePath: string, passphrase: string): Promise<SecretVault> {
+    const file = await readVaultFile(filePath);
+    const key = await deriveKey(passphrase, file.kdf);
+    if (decrypt(key, file.check, 'check') !== CHECK_PLAINTEXT) {
+      throw new VaultError('Wrong vault passphrase.');
+    }
+    return new SecretVault(filePath, key, file.kdf.salt);
+  }
+
+  async list(): Promise<VaultSecretInfo[]> {
+    const file = await this.load();
+    return Object.entries(file.secrets)
+      .map(([name, entry]) => ({ name, domains: entry.domains, createdAt: entry.createdAt }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /** Decrypts a secret. Only `fill_secret` should call this; the value must not be returned. */
+  async reveal(name: string): Promise<VaultSecret | undefined> {
+    const file = await this.load();
+    const entry = Object.hasOwn(file.secrets, name) ? file.secrets[name] : undefined;
+    if (!entry) {
+      return undefined;
+    }
+    const value = decrypt(this.key, entry, entryContext(name, entry.domains));
+    if (value === undefined) {
+      throw new VaultError(`Secret ${name} could not be decrypted; the vault file was modified.`);
+    }
+    return { value, domains: entry.domains };
+  }
+
+  /** Adds or replaces a secret. */
+  async set(name: string, value: string, domains: string[]): Promise<void> {
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      throw new VaultError(`Invalid secret name ${name}; use letters, digits, ".", "_" and "-".`);
+    }
+    if (domains.length === 0) {
+      throw new VaultError(`Secret ${name} needs at least one domain.`);
+    }
+    const invalid = domains.filter((domain) => normalizeDomainPattern(domain) === null);
+    if (invalid.length > 0) {
+      throw new VaultError(`Invalid domain pattern(s): ${invalid.join(', ')}`);
+    }
+
+    const file = await this.load();
+    file.secrets[name] = {
+      domains,
+      createdAt: new Date().toISOString(),
+      ...encrypt(this.key, value, entryContext(name, domains)),
+    };
+    await this.save(file);
+  }
+
+  /** Removes a secret, returning whether it existed. */
+  async remove(name: string): Promise<boolean> {
+    const file = await this.load();
+    if (!Object.hasOwn(file.secrets, name)) {
+      return false;
+    }
+    delete file.secrets[name];
+    await this.save(file);
+    return true;
+  }
+
+  private async load(): Promise<VaultFile> {
+    const file = await readVaultFile(this.filePath);
+    if (file.kdf.salt !== this.salt) {
+      throw new VaultError('The vault was re-created since it was unlocked; unlock it again.');
+    }
+    return file;
+  }
+
+  // Written to a temporary file and renamed, so a crash never leaves a truncated vault.
+  private async save(file: VaultFile): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    await writeFile(tmpPath, `${JSON.stringify(file, null, 2)}\n`, { mode: 0o600 });
+    await rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Finds the passphrase that unlocks the vault: `TABNAB_VAULT_PASSPHRASE` when set,
+ * otherwise the OS keyring entry stored by `tabnab vault init --keyring`.
+ */
+export async function resolveVaultPassphrase(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<string | undefined> {
+  return env.TABNAB_VAULT_PASSPHRASE || (await readKeyringPassphrase());
+}
+
+/**
+ * Reads the passphrase from the macOS Keychain or, elsewhere, the Secret Service through
+ * `secret-tool`. Resolves to undefined when there is no keyring or no entry.
+ */
+export async function readKeyringPassphrase(): Promise<string | undefined> {
+  const lookup =
+    process.platform === 'darwin'
+      ? run('security', [
+          'find-generic-password',
+          '-s',
+          KEYRING_SERVICE,
+          '-a',
+          KEYRING_ACCOUNT,
+          '-w',
+        ])
+      : run('secret-tool', ['lookup', 'service', KEYRING_SERVICE, 'account', KEYRING_ACCOUNT]);
+  try {
+    return (await lookup).replace(/\r?\n$/, '') || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Stores the passphrase in the OS keyring so the server can unlock the vault unattended. */
+export async function storeKeyringPassphrase(passphrase: string): Promise<void> {
+  if (process.platform === 'darwin') {
+    // `security` has no stdin mode for the password; it is briefly visible to local `ps`.
+    await run('security', [
+      'add-generic-password',
+      '-U',
+      '-s',
+      KEYRING_SERVICE,
+      '-a',
+      KEYRING_ACCOUNT,
+      '-w',
+      passphrase,
+    ]);
+    return;
+  }
+  await run(
+    'secret-tool',
+    ['store', '--label=TabNab vault', 'service', KEYRING_SERVICE, 'account', KEYRING_ACCOUNT],
+    passphrase
+  );
+}
+
+function run(file: string, args: string[], input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(file, args, { timeout: KEYRING_TIMEOUT_MS }, (error, stdout) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(stdout);
+    });
+    child.stdin?.end(input);
+  });
+}
+
+async function readVaultFile(filePath: string): Promise<VaultFile> {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new VaultError(`No vault at ${filePath}; create one with \`tabnab vault init\`.`);
+    }
+    throw error;
+  }
+
+  let file: VaultFile;
+  try {
+    file = JSON.parse(raw) as VaultFile;
+  } catch {
+    throw new VaultError(`${filePath} is not a TabNab vault.`);
+  }
+  if (file?.version !== VAULT_VERSION || file.kdf?.name !== 'scrypt' || !file.check) {
+    throw new VaultError(`${filePath} is not a TabNab vault (version ${VAULT_VERSION}).`);
+  }
+  file.secrets ??= {};
+  return file;
+}
+
+function deriveKey(passphrase: string, kdf: VaultFile['kdf']): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase.normalize('NFC'),
+      Buffer.from(kdf.salt, 'base64'),
+      32,
+      { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+function entryContext(name: string, domains: string[]): string {
+  return JSON.stringify(['secret', name, domains]);
+}
+
+function encrypt(key: Buffer, plaintext: string, context: string): EncryptedValue {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(context, 'utf8'));
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function decrypt(key: Buffer, value: EncryptedValue, context: string): string | undefined {
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(value.iv, 'base64'));
+    decipher.setAAD(Buffer.from(context, 'utf8'));
+    decipher.setAuthTag(Buffer.from(value.tag, 'base64'));
+    const data = Buffer.concat([
+      decipher.update(Buffer.from(value.data, 'base64')),
+      decipher.final(),
+    ]);
+    return data.toString('utf8');
+  } catch {
+    return undefined;
+  }
+}
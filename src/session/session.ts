@@ -1,20 +1,54 @@
+import { randomUUID } from 'node:crypto';
+
+export interface StepScope {
+  key: string;
+  maxSteps: number;
+}
+
 export class SessionManager {
   private stepCount = 0;
+  private scopedStepCounts = new Map<string, number>();
   private lastActionAt = 0;
   private activeTabId: string | null = null;
+  private taintedTabs = new Set<string>();
+  private sessionId = randomUUID();
 
   constructor(private maxSteps: number) {}
 
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  getStepCount(): number {
+    return this.stepCount;
+  }
+
+  setMaxSteps(maxSteps: number): void {
+    this.maxSteps = maxSteps;
+  }
+
   getStepsRemaining(): number {
     return Math.max(this.maxSteps - this.stepCount, 0);
   }
 
-  recordStep(): boolean {
+  /**
+   * Records a step against the session budget and, when given, a per-domain budget.
+   * Returns false without recording anything if either budget is exhausted.
+   */
+  recordStep(scope?: StepScope): boolean {
     if (this.stepCount >= this.maxSteps) {
       return false;
     }
 
+    const scopedCount = scope ? (this.scopedStepCounts.get(scope.key) ?? 0) : 0;
+    if (scope && scopedCount >= scope.maxSteps) {
+      return false;
+    }
+
     this.stepCount += 1;
+    if (scope) {
+      this.scopedStepCounts.set(scope.key, scopedCount + 1);
+    }
     this.lastActionAt = Date.now();
     return true;
   }
@@ -27,9 +61,29 @@ export class SessionManager {
     return this.activeTabId;
   }
 
+  /**
+   * Marks a tab that showed high-severity prompt injection, until the session is reset.
+   * Tab ids are only unique within a browser, so the browser is part of the key.
+   */
+  taintTab(tabId: string, browser?: string): void {
+    this.taintedTabs.add(tabKey(tabId, browser));
+  }
+
+  isTabTainted(tabId: string | undefined, browser?: string): boolean {
+    return tabId !== undefined && this.taintedTabs.has(tabKey(tabId, browser));
+  }
+
+  /** Starts a new session, so audit events before and after a reset can be told apart. */
   reset(): void {
+    this.sessionId = randomUUID();
     this.stepCount = 0;
+    this.scopedStepCounts.clear();
     this.lastActionAt = 0;
     this.activeTabId = null;
+    this.taintedTabs.clear();
   }
 }
+
+function tabKey(tabId: string, browser: string | undefined): string {
+  return JSON.stringify([browser ?? null, tabId]);
+}
@@ -0,0 +1,166 @@
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import test from 'node:test';
+import { BrowserConnection } from '../browser/connection.js';
+import { MCPTools } from '../mcp/tools.js';
+import type { PolicyConfig } from '../policy/types.js';
+
+const policyConfig: PolicyConfig = {
+  allowedDomains: ['example.com'],
+  allowedPathPrefixes: {},
+  confirmationMode: 'auto',
+  auditLogPath: '/tmp/tabnab-audit.log',
+  maxSteps: 30,
+  selectorLogMode: 'truncate',
+};
+
+interface Activity {
+  visible: boolean;
+  focused: boolean;
+}
+
+// A browser whose tabs answer CDP like Chrome does and report activity through the binding;
+// page.evaluate throws, so any per-page focus probing fails the test.
+function fakeBrowser() {
+  const browserSession = Object.assign(new EventEmitter(), {
+    send: async () => ({}),
+    detach: async () => undefined,
+  });
+  const context = new EventEmitter();
+  const pages: ReturnType<typeof fakePage>[] = [];
+
+  function fakePage(targetId: string, windowId: number, initial: Activity) {
+    const session = Object.assign(new EventEmitter(), {
+      send: async (method: string) => {
+        switch (method) {
+          case 'Target.getTargetInfo':
+            return { targetInfo: { targetId, type: 'page' } };
+          case 'Browser.getWindowForTarget':
+            return { windowId };
+          case 'Page.getFrameTree':
+            return { frameTree: { frame: { id: `${targetId}-frame` } } };
+          case 'Page.createIsolatedWorld':
+            return { executionContextId: 1 };
+          case 'Runtime.evaluate':
+            return { result: { value: initial } };
+          default:
+            return {};
+        }
+      },
+      detach: async () => undefined,
+    });
+    return {
+      targetId,
+      url: () => `https://example.com/${targetId}`,
+      title: async () => targetId,
+      evaluate: async () => {
+        throw new Error('evaluate should not be called');
+      },
+      bringToFront: async () => undefined,
+      context: () => ({ newCDPSession: async () => session }),
+      report: (activity: Activity) =>
+        session.emit('Runtime.bindingCalled', {
+          name: '__tabnabActivity',
+          payload: JSON.stringify(activity),
+          executionContextId: 1,
+        }),
+    };
+  }
+
+  const browser = {
+    isConnected: () => true,
+    contexts: () => [{ pages: () => pages, on: context.on.bind(context) }],
+    newBrowserCDPSession: async () => browserSession,
+    on: () => browser,
+    close: async () => undefined,
+    open(targetId: string, windowId: number, initial: Activity) {
+      const page = fakePage(targetId, windowId, initial);
+      pages.push(page);
+      return page;
+    },
+    openTab(targetId: string, windowId: number, initial: Activity) {
+      const page = browser.open(targetId, windowId, initial);
+      context.emit('page', page);
+      return page;
+    },
+    closeTab(targetId: string) {
+      pages.splice(
+        pages.findIndex((page) => page.targetId === targetId),
+        1
+      );
+      browserSession.emit('Target.targetDestroyed', { targetId });
+    },
+  };
+  return browser;
+}
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+test('the active tab follows focus and visibility reported over CDP', async () => {
+  const browser = fakeBrowser();
+  const a = browser.open('A', 1, { visible: true, focused: true });
+  browser.open('B', 1, { visible: false, focused: false });
+  const c = browser.open('C', 2, { visible: true, focused: false });
+  const connection = new BrowserConnection(9333, { connectBrowser: async () => browser as never });
+  const tools = new MCPTools({ policyConfig, connection });
+  const activeUrl = async () => (await tools.getActiveTab()).data?.url;
+
+  assert.equal(await activeUrl(), 'https://example.com/A');
+
+  // Chrome loses focus: the visible tab in the window focused last stays active.
+  a.report({ visible: true, focused: false });
+  assert.equal(await activeUrl(), 'https://example.com/A');
+
+  c.report({ visible: true, focused: true });
+  assert.equal(await activeUrl(), 'https://example.com/C');
+  assert.deepEqual(
+    (await tools.listTabs()).data?.map((tab) => [tab.tabId, tab.active, tab.windowId]),
+    [
+      ['A', false, '1'],
+      ['B', false, '1'],
+      ['C', true, '2'],
+    ]
+  );
+
+  browser.closeTab('C');
+  assert.equal(await activeUrl(), 'https://example.com/A');
+
+  const d = browser.openTab('D', 1, { visible: true, focused: true });
+  a.report({ visible: false, focused: false });
+  await settle();
+  assert.equal(await activeUrl(), 'https://example.com/D');
+  d.report({ visible: true, focused: false });
+  assert.equal((await connection.getActiveTab()).url(), 'https://example.com/D');
+
+  await connection.disconnect();
+  assert.equal(await connection.getTrackedActiveTab(), undefined);
+});
+
+test('without CDP activity reports the last tab acted in stays active', async () => {
+  const pages = ['A', 'B'].map((targetId) => ({
+    url: () => `https://example.com/${targetId}`,
+    title: async () => targetId,
+    bringToFront: async () => undefined,
+    context: () => ({
+      newCDPSession: async () => ({
+        send: async () => ({ targetInfo: { targetId } }),
+        detach: async () => undefined,
+      }),
+    }),
+  }));
+  const browser = {
+    isConnected: () => true,
+    contexts: () => [{ pages: () => pages }],
+    on: () => browser,
+    close: async () => undefined,
+  };
+  const connection = new BrowserConnection(9333, { connectBrowser: async () => browser as never });
+  const tools = new MCPTools({ policyConfig, connection });
+
+  assert.equal((await tools.getActiveTab()).data?.url, 'https://example.com/A');
+  assert.equal((await tools.activateTab({ tabId: 'B' })).ok, true);
+  assert.equal((await tools.getActiveTab()).data?.url, 'https://example.com/B');
+  assert.equal(await connection.getTrackedActiveTab(), undefined);
+  assert.equal((await connection.getActiveTab()).url(), 'https://example.com/B');
+  await connection.disconnect();
+});
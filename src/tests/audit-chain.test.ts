@@ -0,0 +1,173 @@
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { readFile, writeFile } from 'node:fs/promises';
+import test from 'node:test';
+import { AuditLogger } from '../policy/audit.js';
+import { checkpointPayload, checkpointsPathFor, verifyAuditLog } from '../policy/auditChain.js';
+import { keyIdFor, loadPublicKey, publicKeyPathFor, signCheckpoint } from '../policy/auditKeys.js';
+import { type After, tempAuditLog } from './fixtures/policy.js';
+
+async function setup(t: After) {
+  const { dir, config, logger } = await tempAuditLog(t, 'audit-chain', {
+    auditCheckpointInterval: 3,
+  });
+  const log = async (count: number) => {
+    for (let index = 0; index < count; index += 1) {
+      await logger.logEvent({ toolName: 'click_element', actionType: 'click', outcome: 'allowed' });
+    }
+    await logger.flush();
+  };
+  const publicKey = () => loadPublicKey(publicKeyPathFor(config.auditSigningKeyPath as string));
+  return { dir, config, logger, log, publicKey };
+}
+
+async function readLines(path: string): Promise<string[]> {
+  return (await readFile(path, 'utf8')).split('\n').filter(Boolean);
+}
+
+test('entries are hash-chained and checkpoints are signed', async (t) => {
+  const { config, log, publicKey } = await setup(t);
+  await log(7);
+
+  const entries = (await readLines(config.auditLogPath)).map((line) => JSON.parse(line));
+  assert.deepEqual(
+    entries.map((entry) => entry.seq),
+    [1, 2, 3, 4, 5, 6, 7]
+  );
+  assert.equal(entries[0].prevHash, '0'.repeat(64));
+  assert.equal(entries[1].prevHash, entries[0].hash);
+
+  const checkpoints = await readLines(checkpointsPathFor(config.auditLogPath));
+  assert.equal(checkpoints.length, 2);
+
+  assert.deepEqual(await verifyAuditLog(config.auditLogPath, { publicKey: publicKey() }), {
+    ok: true,
+    entries: 7,
+    checkpoints: 2,
+  });
+});
+
+test('concurrent writers keep a single unbroken chain', async (t) => {
+  const { config, logger } = await setup(t);
+  const second = new AuditLogger(config);
+  await Promise.all(
+    Array.from({ length: 20 }, (_, index) =>
+      (index % 2 ? logger : second).logEvent({
+        toolName: 'press_key',
+        actionType: 'press_key',
+        outcome: 'allowed',
+      })
+    )
+  );
+  await Promise.all([logger.flush(), second.flush()]);
+
+  const result = await verifyAuditLog(config.auditLogPath);
+  assert.equal(result.ok, true);
+  assert.equal(result.entries, 20);
+});
+
+test('verifyAuditLog reports the first edited, removed or reordered entry', async (t) => {
+  const { config, log } = await setup(t);
+  await log(5);
+  const original = await readLines(config.auditLogPath);
+
+  const edited = [...original];
+  edited[1] = edited[1].replace('"outcome":"allowed"', '"outcome":"denied"');
+  await writeFile(config.auditLogPath, `${edited.join('\n')}\n`);
+  assert.deepEqual((await verifyAuditLog(config.auditLogPath)).failure, {
+    file: config.auditLogPath,
+    line: 2,
+    seq: 2,
+    reason: 'entry hash does not match its contents',
+  });
+
+  const removed = original.filter((_line, index) => index !== 2);
+  await writeFile(config.auditLogPath, `${removed.join('\n')}\n`);
+  assert.deepEqual((await verifyAuditLog(config.auditLogPath)).failure, {
+    file: config.auditLogPath,
+    line: 3,
+    seq: 4,
+    reason: 'expected seq 3, found 4',
+  });
+});
+
+test('truncation behind a checkpoint and forged checkpoints are detected', async (t) => {
+  const { config, log, publicKey } = await setup(t);
+  await log(4);
+  const lines = await readLines(config.auditLogPath);
+  const checkpointsPath = checkpointsPathFor(config.auditLogPath);
+
+  await writeFile(config.auditLogPath, `${lines.slice(0, 2).join('\n')}\n`);
+  const truncated = await verifyAuditLog(config.auditLogPath, { publicKey: publicKey() });
+  assert.equal(truncated.ok, false);
+  assert.equal(truncated.failure?.file, checkpointsPath);
+  assert.match(truncated.failure?.reason ?? '', /entry 3, which is missing from the log/);
+
+  await writeFile(config.auditLogPath, `${lines.join('\n')}\n`);
+  const forger = generateKeyPairSync('ed25519');
+  const entry = JSON.parse(lines[3]);
+  const unsigned = {
+    seq: entry.seq,
+    hash: entry.hash,
+    timestamp: new Date().toISOString(),
+    keyId: keyIdFor(forger.publicKey),
+  };
+  await writeFile(
+    checkpointsPath,
+    `${JSON.stringify({ ...unsigned, signature: signCheckpoint(forger.privateKey, checkpointPayload(unsigned)) })}\n`,
+    { flag: 'a' }
+  );
+  const forged = await verifyAuditLog(config.auditLogPath, { publicKey: publicKey() });
+  assert.deepEqual(forged.failure, {
+    file: checkpointsPath,
+    line: 2,
+    seq: 4,
+    reason: `checkpoint signed by unknown key ${unsigned.keyId}`,
+  });
+});
+
+test('entries cut off the front of the log are detected', async (t) => {
+  const { config, log, publicKey } = await setup(t);
+  await log(4);
+  const lines = await readLines(config.auditLogPath);
+
+  await writeFile(config.auditLogPath, `${lines.slice(2).join('\n')}\n`);
+  const result = await verifyAuditLog(config.auditLogPath, { publicKey: publicKey() });
+  assert.equal(result.ok, false);
+  assert.equal(result.startSeq, 3);
+  assert.deepEqual(result.failure, {
+    file: config.auditLogPath,
+    line: 1,
+    seq: 3,
+    reason:
+      'entries before seq 3 are missing and no retention record accounts for them (truncated?)',
+  });
+});
+
+test('chains continue from logs written before hash chaining', async (t) => {
+  const { config, log } = await setup(t);
+  // A recent timestamp keeps the legacy file from being rotated away on the first write.
+  const legacy = {
+    id: 'legacy',
+    timestamp: new Date().toISOString(),
+    toolName: 'click_element',
+    actionType: 'click',
+    outcome: 'allowed',
+  };
+  await writeFile(config.auditLogPath, `${JSON.stringify(legacy)}\n`);
+  await log(2);
+
+  const result = await verifyAuditLog(config.auditLogPath);
+  assert.equal(result.ok, true);
+  assert.equal(result.entries, 2);
+
+  const lines = await readLines(config.auditLogPath);
+  await writeFile(
+    config.auditLogPath,
+    `${lines[0].replace('legacy', 'edited')}\n${lines.slice(1).join('\n')}\n`
+  );
+  assert.equal(
+    (await verifyAuditLog(config.auditLogPath)).failure?.reason,
+    'prevHash does not match the previous entry'
+  );
+});
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { TabNabMCPServer } from '../mcp/server.js';
+import { MCPTools } from '../mcp/tools.js';
+import { PolicyStore } from '../policy/store.js';
+import type { PolicyConfig } from '../policy/types.js';
+
+class MockPage {
+  failClicks = false;
+
+  url() {
+    return 'https://example.com/account';
+  }
+
+  async title() {
+    return 'Account';
+  }
+
+  async waitForSelector() {
+    return;
+  }
+
+  // Buttons are labelled after their id, so `#delete-account` reads "delete account".
+  async $eval(selector: string) {
+    return {
+      tagName: 'button',
+      type: 'button',
+      accessibleName: selector.slice(1).replaceAll('-', ' '),
+      inPaymentFrame: false,
+      submitsForm: false,
+    };
+  }
+
+  async click() {
+    if (this.failClicks) {
+      throw new Error('element detached');
+    }
+  }
+
+  async bringToFront() {
+    return;
+  }
+}
+
+async function setup(t: { after: (fn: () => Promise<void>) => void }) {
+  const dir = await mkdtemp(join(tmpdir(), 'tabnab-audit-events-'));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  const config: PolicyConfig = {
+    allowedDomains: ['example.com'],
+    allowedPathPrefixes: {},
+    confirmationMode: 'confirm-on-sensitive',
+    auditLogPath: join(dir, 'audit.log'),
+    auditSigningKeyPath: join(dir, 'signing.pem'),
+    maxSteps: 30,
+    selectorLogMode: 'plaintext',
+  };
+  const page = new MockPage();
+  const connection = {
+    getAllTabs: async () => [page],
+    disconnect: async () => undefined,
+  } as never;
+  return { config, page, connection };
+}
+
+test('audit events record the session, tab, step, duration and resolved confirmation', async (t) => {
+  const { config, connection } = await setup(t);
+  const tools = new MCPTools({ connection, policyConfig: config });
+
+  const pending = await tools.clickElement({ selector: '#delete-account' });
+  const { confirmationId, auditId } = pending.data as { confirmationId: string; auditId: string };
+  await tools.confirmAction({ confirmationId });
+  const executed = await tools.clickElement({ selector: '#delete-account', confirmationId });
+  assert.equal(executed.ok, true);
+
+  const { data } = await tools.queryAuditLog({ toolName: 'click_element' });
+  const [requested, confirmed] = data?.events ?? [];
+  assert.equal(requested.id, auditId);
+  assert.equal(requested.outcome, 'needs_confirmation');
+  assert.equal(requested.step, 0);
+  assert.equal(requested.resolvesAuditId, undefined);
+
+  assert.equal(confirmed.outcome, 'confirmed');
+  assert.equal(confirmed.resolvesAuditId, auditId);
+  assert.equal(confirmed.step, 1);
+  assert.equal(confirmed.sessionId, requested.sessionId);
+  assert.ok(confirmed.tabId);
+  assert.equal(confirmed.tabId, requested.tabId);
+  assert.equal(typeof confirmed.durationMs, 'number');
+
+  await tools.resetSession();
+  await tools.clickElement({ selector: '#delete-account' });
+  const after = await tools.queryAuditLog({ toolName: 'click_element', limit: 1 });
+  assert.notEqual(after.data?.events[0].sessionId, requested.sessionId);
+});
+
+test('failed actions are audited with their error code', async (t) => {
+  const { config, page, connection } = await setup(t);
+  const tools = new MCPTools({ connection, policyConfig: { ...config, confirmationMode: 'auto' } });
+  page.failClicks = true;
+
+  const result = await tools.clickElement({ selector: '#save' });
+  assert.equal(result.error?.code, 'ACTION_FAILED');
+
+  const { data } = await tools.queryAuditLog({ outcome: 'failed' });
+  assert.equal(data?.events.length, 1);
+  assert.equal(data?.events[0].errorCode, 'ACTION_FAILED');
+  assert.equal(data?.events[0].selector, '#save');
+});
+
+test('audit events name the MCP client from the initialize handshake', async (t) => {
+  const { config, connection } = await setup(t);
+  const server = new TabNabMCPServer({
+    connection,
+    policyStore: new PolicyStore({ ...config, toolPermissions: { press_key: 'deny' } }),
+  });
+  const client = new Client({ name: 'review-client', version: '2.3.4' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  t.after(() => client.close());
+
+  await client.callTool({ name: 'press_key', arguments: { key: 'Enter' } });
+  const result = await client.callTool({
+    name: 'query_audit_log',
+    arguments: { reasonCodes: ['tool_disabled'] },
+  });
+  const body = JSON.parse((result.content as { text: string }[])[0].text);
+  assert.deepEqual(body.data.events[0].client, { name: 'review-client', version: '2.3.4' });
+});
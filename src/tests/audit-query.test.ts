@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { TabNabMCPServer } from '../mcp/server.js';
+import { MCPTools } from '../mcp/tools.js';
+import { queryAuditLog } from '../policy/auditQuery.js';
+import { PolicyStore } from '../policy/store.js';
+import type { PolicyConfig } from '../policy/types.js';
+import { type After, tempAuditLog } from './fixtures/policy.js';
+
+async function setup(t: After, overrides: Partial<PolicyConfig> = {}) {
+  const { config, logger } = await tempAuditLog(t, 'audit-query', {
+    allowedDomains: ['example.com'],
+    selectorLogMode: 'plaintext',
+    ...overrides,
+  });
+  await logger.logEvent({
+    toolName: 'navigate_and_extract',
+    actionType: 'navigate',
+    url: 'https://example.com/?token=secret',
+    outcome: 'allowed',
+  });
+  await logger.logEvent({
+    toolName: 'fill_input',
+    actionType: 'fill',
+    url: 'https://app.example.com/login',
+    selector: '#password',
+    outcome: 'needs_confirmation',
+    reasonCodes: ['sensitive_action', 'confirmation_required'],
+  });
+  await logger.logEvent({
+    toolName: 'fill_input',
+    actionType: 'fill',
+    url: 'https://other.test/form',
+    selector: '#name',
+    outcome: 'denied',
+    reasonCodes: ['allowlist_blocked'],
+  });
+  await logger.flush();
+  return { config, logger };
+}
+
+test('queryAuditLog filters by tool, outcome, reason code and domain', async (t) => {
+  const { config } = await setup(t);
+  const query = (filters: object) => queryAuditLog(config.auditLogPath, filters, 'plaintext');
+
+  assert.equal((await query({})).events.length, 3);
+  assert.deepEqual(
+    (await query({ toolName: 'fill_input' })).events.map((event) => event.outcome),
+    ['needs_confirmation', 'denied']
+  );
+  assert.deepEqual(
+    (await query({ outcome: 'denied' })).events.map((event) => event.selector),
+    ['#name']
+  );
+  assert.equal(
+    (await query({ reasonCodes: ['allowlist_blocked', 'tool_disabled'] })).events.length,
+    1
+  );
+  assert.deepEqual(
+    (await query({ domain: '.example.com' })).events.map((event) => event.toolName),
+    ['navigate_and_extract', 'fill_input']
+  );
+  assert.deepEqual(
+    (await query({ domain: 'example.com' })).events.map((event) => event.toolName),
+    ['navigate_and_extract']
+  );
+});
+
+test('queryAuditLog honours the time range and returns the most recent entries', async (t) => {
+  const { config } = await setup(t);
+  const future = new Date(Date.now() + 60_000);
+
+  assert.equal(
+    (await queryAuditLog(config.auditLogPath, { since: future }, 'truncate')).events.length,
+    0
+  );
+  assert.equal(
+    (await queryAuditLog(config.auditLogPath, { until: future }, 'truncate')).events.length,
+    3
+  );
+
+  const limited = await queryAuditLog(config.auditLogPath, { limit: 2 }, 'truncate');
+  assert.equal(limited.truncated, true);
+  assert.deepEqual(
+    limited.events.map((event) => event.seq),
+    [2, 3]
+  );
+  assert.equal('hash' in limited.events[0], false);
+});
+
+test('queryAuditLog redacts entries with the current selector mode', async (t) => {
+  const { config } = await setup(t);
+  const { events } = await queryAuditLog(config.auditLogPath, {}, 'hash');
+
+  assert.equal(events[0].url, 'https://example.com/?token=%5BREDACTED%5D');
+  assert.match(events[1].selector ?? '', /^[0-9a-f]{64}$/);
+  const again = await queryAuditLog(config.auditLogPath, { outcome: 'needs_confirmation' }, 'hash');
+  assert.equal(again.events[0].selector, events[1].selector);
+});
+
+test('query_audit_log flushes pending entries and validates its input', async (t) => {
+  const { config } = await setup(t);
+  const tools = new MCPTools({
+    policyConfig: config,
+    connection: { getAllTabs: async () => [], disconnect: async () => {} } as never,
+  });
+  await tools.rejectDisabledTool('press_key');
+
+  const result = await tools.queryAuditLog({ reasonCodes: ['tool_disabled'] });
+  assert.equal(result.ok, true);
+  assert.equal(result.data?.events[0].toolName, 'press_key');
+
+  const invalid = await tools.queryAuditLog({ since: 'yesterday' });
+  assert.equal(invalid.error?.code, 'INVALID_INPUT');
+});
+
+test('the audit log is readable as an MCP resource with query parameters', async (t) => {
+  const { config } = await setup(t);
+  let next = config;
+  const store = new PolicyStore(config, () => next);
+  const server = new TabNabMCPServer({
+    policyStore: store,
+    connection: { getAllTabs: async () => [], disconnect: async () => {} } as never,
+  });
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  t.after(() => client.close());
+
+  const { resources } = await client.listResources();
+  assert.deepEqual(
+    resources.map((resource) => resource.uri),
+    ['tabnab://audit/recent']
+  );
+
+  const uri = 'tabnab://audit/recent?toolName=fill_input&limit=1';
+  const { contents } = await client.readResource({ uri });
+  const body = JSON.parse((contents[0] as { text: string }).text);
+  assert.equal(body.ok, true);
+  assert.deepEqual(
+    body.data.events.map((event: { outcome: string }) => event.outcome),
+    ['denied']
+  );
+
+  await assert.rejects(client.readResource({ uri: 'tabnab://audit/other' }), /Unknown resource/);
+
+  next = { ...config, toolPermissions: { query_audit_log: 'deny' } };
+  store.reload();
+  assert.deepEqual((await client.listResources()).resources, []);
+  await assert.rejects(client.readResource({ uri }), /disabled by policy/);
+});
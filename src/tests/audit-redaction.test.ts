@@ -48,3 +48,29 @@ test('redactAuditEvent keeps only allowed audit fields', () => {
   assert.equal(event.selector, '#password');
   assert.equal(event.toolName, 'fill_input');
 });
+
+test('redactAuditEvent keeps call metadata and caps client-supplied names', () => {
+  const event = redactAuditEvent(
+    {
+      toolName: 'click_element',
+      actionType: 'click',
+      outcome: 'failed',
+      sessionId: 'session-1',
+      tabId: 'tab-1',
+      client: { name: 'x'.repeat(100), version: '1.0.0' },
+      step: 3,
+      durationMs: 42,
+      errorCode: 'ACTION_FAILED',
+      resolvesAuditId: 'audit-1',
+    },
+    'hash'
+  );
+
+  assert.equal(event.sessionId, 'session-1');
+  assert.equal(event.tabId, 'tab-1');
+  assert.deepEqual(event.client, { name: `${'x'.repeat(64)}…`, version: '1.0.0' });
+  assert.equal(event.step, 3);
+  assert.equal(event.durationMs, 42);
+  assert.equal(event.errorCode, 'ACTION_FAILED');
+  assert.equal(event.resolvesAuditId, 'audit-1');
+});
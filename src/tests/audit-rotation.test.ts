@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { access, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import test from 'node:test';
+import { gunzipSync } from 'node:zlib';
+import { checkpointsPathFor, readChainHead, verifyAuditLog } from '../policy/auditChain.js';
+import { listAuditSegments, segmentPathFor } from '../policy/auditRotation.js';
+import type { PolicyConfig } from '../policy/types.js';
+import { type After, tempAuditLog } from './fixtures/policy.js';
+
+async function setup(t: After, overrides: Partial<PolicyConfig> = {}) {
+  const { dir, config, logger } = await tempAuditLog(t, 'audit-rotation', {
+    auditCheckpointInterval: 2,
+    ...overrides,
+  });
+  // Flushing after every event makes each entry its own batch, so rotation can happen
+  // between any two entries.
+  const log = async (count: number) => {
+    for (let index = 0; index < count; index += 1) {
+      await logger.logEvent({ toolName: 'click_element', actionType: 'click', outcome: 'allowed' });
+      await logger.flush();
+    }
+  };
+  return { dir, config, logger, log };
+}
+
+async function readLines(path: string): Promise<string[]> {
+  return (await readFile(path, 'utf8')).split('\n').filter(Boolean);
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+test('entries are buffered until flushed', async (t) => {
+  const { config, logger } = await setup(t);
+  await logger.logEvent({ toolName: 'navigate', actionType: 'navigate', outcome: 'allowed' });
+  await logger.logEvent({ toolName: 'navigate', actionType: 'navigate', outcome: 'allowed' });
+  assert.equal(await exists(config.auditLogPath), false);
+
+  await logger.flush();
+  assert.equal((await readLines(config.auditLogPath)).length, 2);
+});
+
+test('the log rotates into gzipped segments by size and the chain spans them', async (t) => {
+  const { config, log } = await setup(t, { auditMaxBytes: 700 });
+  await log(7);
+
+  const segments = await listAuditSegments(config.auditLogPath);
+  assert.ok(segments.length >= 2);
+  assert.ok(segments.every((segment) => segment.compressed));
+
+  const first = gunzipSync(await readFile(segments[0].path))
+    .toString('utf8')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+  assert.equal(first[0].seq, 1);
+
+  const active = (await readLines(config.auditLogPath)).map((line) => JSON.parse(line));
+  assert.equal(active.at(-1).seq, 7);
+
+  assert.deepEqual(await verifyAuditLog(config.auditLogPath), {
+    ok: true,
+    entries: 7,
+    checkpoints: 3,
+  });
+});
+
+test('the log rotates once its first entry is older than the rotation interval', async (t) => {
+  const { config, log } = await setup(t, { auditRotateHours: 1 });
+  const legacy = JSON.stringify({
+    id: 'legacy',
+    timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+    toolName: 'navigate',
+    actionType: 'navigate',
+    outcome: 'allowed',
+  });
+  await writeFile(config.auditLogPath, `${legacy}\n`);
+  await log(2);
+
+  const segments = await listAuditSegments(config.auditLogPath);
+  assert.equal(segments.length, 1);
+  assert.equal(gunzipSync(await readFile(segments[0].path)).toString('utf8'), `${legacy}\n`);
+  assert.equal((await readLines(config.auditLogPath)).length, 2);
+
+  const result = await verifyAuditLog(config.auditLogPath);
+  assert.equal(result.ok, true);
+  assert.equal(result.entries, 2);
+});
+
+test('segments outside the retention window are deleted on rotation', async (t) => {
+  const { config, log } = await setup(t, { auditMaxBytes: 700, auditRetentionDays: 7 });
+  await log(4);
+
+  const [oldest] = await listAuditSegments(config.auditLogPath);
+  const expired = `${segmentPathFor(config.auditLogPath, new Date('2020-01-01T00:00:00Z'))}.gz`;
+  await rename(oldest.path, expired);
+  await log(3);
+
+  const segments = await listAuditSegments(config.auditLogPath);
+  assert.ok(!segments.some((segment) => segment.path === expired));
+
+  const result = await verifyAuditLog(config.auditLogPath);
+  assert.equal(result.ok, true);
+  assert.ok((result.startSeq ?? 0) > 1);
+  assert.equal(result.entries, 7 - ((result.startSeq as number) - 1));
+
+  const records = (await readLines(checkpointsPathFor(config.auditLogPath)))
+    .map((line) => JSON.parse(line))
+    .filter((checkpoint) => checkpoint.kind === 'retention');
+  assert.deepEqual(
+    records.map((record) => record.seq),
+    [(result.startSeq as number) - 1]
+  );
+});
+
+test('a new writer continues the chain from the newest segment', async (t) => {
+  const { config, log } = await setup(t, { auditMaxBytes: 700 });
+  await log(4);
+  const active = (await readLines(config.auditLogPath)).map((line) => JSON.parse(line));
+  const last = active.at(-1);
+
+  // The active file is gone when rotation was interrupted before the next write.
+  const segmentPath = segmentPathFor(config.auditLogPath, new Date());
+  await rename(config.auditLogPath, segmentPath);
+  assert.deepEqual(await readChainHead(config.auditLogPath), { seq: last.seq, hash: last.hash });
+});
+
+test('verifyAuditLog reports a segment that cannot be decompressed', async (t) => {
+  const { dir, config, log } = await setup(t, { auditMaxBytes: 700 });
+  await log(4);
+
+  const [segment] = await listAuditSegments(config.auditLogPath);
+  await writeFile(segment.path, 'not gzip');
+  const result = await verifyAuditLog(config.auditLogPath);
+  assert.equal(result.ok, false);
+  assert.equal(result.failure?.file, segment.path);
+  assert.match(result.failure?.reason ?? '', /^segment could not be read/);
+  assert.ok((await readdir(dir)).includes('audit.log'));
+});
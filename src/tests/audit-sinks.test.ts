@@ -0,0 +1,210 @@
+import assert from 'node:assert/strict';
+import { createSocket } from 'node:dgram';
+import { access, readFile } from 'node:fs/promises';
+import { createServer as createHttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createServer as createNetServer } from 'node:net';
+import { join } from 'node:path';
+import test from 'node:test';
+import { spoolPathFor } from '../policy/auditSinks.js';
+import { formatSyslogMessage } from '../policy/auditSyslog.js';
+import type { AuditEvent, AuditSinkConfig } from '../policy/types.js';
+import { type After, tempAuditLog, tempDir } from './fixtures/policy.js';
+
+type OtlpAttribute = { key: string; value: { stringValue?: string } };
+
+interface OtlpRequest {
+  resourceLogs: {
+    resource: { attributes: OtlpAttribute[] };
+    scopeLogs: {
+      logRecords: {
+        timeUnixNano: string;
+        severityText: string;
+        body: { stringValue: string };
+        attributes: OtlpAttribute[];
+      }[];
+    }[];
+  }[];
+}
+
+async function setup(t: After, auditSinks: AuditSinkConfig[]) {
+  const { dir, config, logger } = await tempAuditLog(t, 'audit-sinks', { auditSinks });
+  const log = async (outcome: AuditEvent['outcome'] = 'allowed') => {
+    await logger.logEvent({ toolName: 'click_element', actionType: 'click', outcome });
+    await logger.flush();
+  };
+  return { dir, config, log };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      assert.fail('Timed out waiting for the collector');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/** Collects octet-counted syslog frames from TCP or unix socket connections. */
+async function startStreamCollector(t: After, listenOn: number | string) {
+  const messages: string[] = [];
+  const server = createNetServer((socket) => {
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        const space = buffer.indexOf(' ');
+        const length = Number(buffer.subarray(0, space).toString());
+        if (space < 0 || buffer.length < space + 1 + length) {
+          break;
+        }
+        messages.push(buffer.subarray(space + 1, space + 1 + length).toString('utf8'));
+        buffer = buffer.subarray(space + 1 + length);
+      }
+    });
+    socket.on('end', () => socket.end());
+  });
+  await new Promise<void>((resolve) =>
+    typeof listenOn === 'string' ? server.listen(listenOn, resolve) : server.listen(0, resolve)
+  );
+  t.after(() => new Promise((resolve) => server.close(resolve)));
+  return { messages, port: (server.address() as AddressInfo).port };
+}
+
+/** Records POSTed JSON bodies, answering with the queued statuses and then 200. */
+async function startHttpCollector(t: After, statuses: number[] = []) {
+  const requests: { path: string; status: number; body: unknown }[] = [];
+  const server = createHttpServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      const status = statuses.shift() ?? 200;
+      requests.push({
+        path: request.url ?? '',
+        status,
+        body: JSON.parse(Buffer.concat(chunks).toString('utf8')),
+      });
+      response.writeHead(status).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => {
+    server.closeAllConnections();
+    return new Promise((resolve) => server.close(resolve));
+  });
+  return { requests, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+test('entries are forwarded to syslog over UDP as RFC 5424 messages', async (t) => {
+  const messages: string[] = [];
+  const socket = createSocket('udp4');
+  socket.on('message', (message) => messages.push(message.toString('utf8')));
+  await new Promise<void>((resolve) => socket.bind(0, '127.0.0.1', resolve));
+  t.after(() => socket.close());
+
+  const port = socket.address().port;
+  const { log } = await setup(t, [{ type: 'syslog', transport: 'udp', port }]);
+  await log('allowed');
+  await log('failed');
+  await waitFor(() => messages.length === 2);
+
+  assert.match(messages[0], /^<110>1 \S+ \S+ tabnab \d+ click_element \[tabnab@32473 id="/);
+  assert.match(messages[1], /^<107>1 /);
+  const body = JSON.parse(messages[1].slice(messages[1].indexOf('\uFEFF') + 1));
+  assert.equal(body.seq, 2);
+  assert.equal(body.outcome, 'failed');
+});
+
+test('stream transports use octet counting and several sinks receive every entry', async (t) => {
+  const socketDir = await tempDir(t, 'syslog');
+  const socketPath = join(socketDir, 'syslog.sock');
+  const tcp = await startStreamCollector(t, 0);
+  const unix = await startStreamCollector(t, socketPath);
+
+  const { log } = await setup(t, [
+    { type: 'syslog', transport: 'tcp', host: '127.0.0.1', port: tcp.port, facility: 10 },
+    { type: 'syslog', transport: 'unix', path: socketPath, appName: 'agent-audit' },
+  ]);
+  await log();
+  await log('denied');
+  await waitFor(() => tcp.messages.length === 2 && unix.messages.length === 2);
+
+  assert.match(tcp.messages[0], /^<86>1 /);
+  assert.match(tcp.messages[1], /^<84>1 /);
+  assert.match(unix.messages[0], /^<110>1 \S+ \S+ agent-audit /);
+});
+
+test('entries are exported to an OTLP/HTTP collector as log records', async (t) => {
+  const collector = await startHttpCollector(t);
+  const { log } = await setup(t, [
+    {
+      type: 'otlp',
+      endpoint: collector.url,
+      headers: { authorization: 'Bearer test' },
+      serviceName: 'tabnab-test',
+    },
+  ]);
+  await log('denied');
+
+  assert.equal(collector.requests.length, 1);
+  assert.equal(collector.requests[0].path, '/v1/logs');
+  const [resourceLogs] = (collector.requests[0].body as OtlpRequest).resourceLogs;
+  assert.deepEqual(resourceLogs.resource.attributes, [
+    { key: 'service.name', value: { stringValue: 'tabnab-test' } },
+  ]);
+  const [record] = resourceLogs.scopeLogs[0].logRecords;
+  assert.equal(record.severityText, 'WARN');
+  assert.match(record.timeUnixNano, /^\d{19}$/);
+  assert.equal(JSON.parse(record.body.stringValue).outcome, 'denied');
+  assert.ok(
+    record.attributes.some(
+      (attribute) =>
+        attribute.key === 'tabnab.tool' && attribute.value.stringValue === 'click_element'
+    )
+  );
+});
+
+test('an unreachable sink spools entries and delivers them in order once it recovers', async (t) => {
+  const collector = await startHttpCollector(t, [503]);
+  const { config, log } = await setup(t, [
+    { type: 'webhook', name: 'hook', url: `${collector.url}/audit`, retryInitialMs: 200 },
+  ]);
+  const spoolPath = spoolPathFor(config.auditLogPath, 'hook');
+
+  await log();
+  await log();
+  assert.equal(collector.requests.length, 1);
+  assert.equal((await readFile(spoolPath, 'utf8')).split('\n').filter(Boolean).length, 2);
+
+  await waitFor(() => collector.requests.length === 2);
+  const delivered = collector.requests[1].body as { events: AuditEvent[] };
+  assert.equal(collector.requests[1].status, 200);
+  assert.deepEqual(
+    delivered.events.map((event) => event.seq),
+    [1, 2]
+  );
+
+  // The next batch is queued behind the drain, so the spool is gone once it is sent.
+  await log();
+  await assert.rejects(access(spoolPath));
+  assert.deepEqual(
+    (collector.requests[2].body as { events: AuditEvent[] }).events.map((event) => event.seq),
+    [3]
+  );
+});
+
+test('formatSyslogMessage escapes structured data values and strips header spaces', () => {
+  const message = formatSyslogMessage({
+    id: 'a"b]c\\d',
+    timestamp: '2026-01-31T12:00:00.000Z',
+    toolName: 'policy reload',
+    actionType: 'reload',
+    outcome: 'needs_confirmation',
+    seq: 1,
+    prevHash: '0'.repeat(64),
+    hash: 'f'.repeat(64),
+  });
+  assert.match(message, /^<109>1 2026-01-31T12:00:00\.000Z \S+ tabnab \d+ policyreload /);
+  assert.ok(message.includes('[tabnab@32473 id="a\\"b\\]c\\\\d" seq="1"'));
+});
@@ -0,0 +1,275 @@
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import test from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { browserConfigForPort, type LaunchConfig } from '../browser/config.js';
+import { BrowserConnection, type ConnectionStatus } from '../browser/connection.js';
+import { TabNabMCPServer } from '../mcp/server.js';
+import { MCPTools } from '../mcp/tools.js';
+import type { PolicyConfig } from '../policy/types.js';
+
+const policyConfig: PolicyConfig = {
+  allowedDomains: ['example.com'],
+  allowedPathPrefixes: {},
+  confirmationMode: 'auto',
+  auditLogPath: '/tmp/tabnab-audit.log',
+  maxSteps: 30,
+  selectorLogMode: 'truncate',
+};
+
+// A browser whose tabs report the given CDP target ids; crash() drops the connection.
+function fakeBrowser(targetIds: string[]) {
+  const events = new EventEmitter();
+  let connected = true;
+  const pages = targetIds.map((targetId) => ({
+    url: () => `https://example.com/${targetId}`,
+    title: async () => targetId,
+    evaluate: async () => false,
+    bringToFront: async () => undefined,
+    context: () => ({
+      newCDPSession: async () => ({
+        send: async () => ({ targetInfo: { targetId } }),
+        detach: async () => undefined,
+      }),
+    }),
+  }));
+  const crash = () => {
+    connected = false;
+    events.emit('disconnected');
+  };
+  const browser = {
+    isConnected: () => connected,
+    contexts: () => [{ pages: () => pages }],
+    on: (event: string, listener: () => void) => {
+      events.on(event, listener);
+      return browser;
+    },
+    close: async () => crash(),
+    crash,
+  };
+  return browser;
+}
+
+function connectionTo(attempts: (ReturnType<typeof fakeBrowser> | Error)[], maxAttempts?: number) {
+  const endpoints: string[] = [];
+  const connection = new BrowserConnection(9333, {
+    reconnect: { initialDelayMs: 5, maxDelayMs: 10, maxAttempts },
+    connectBrowser: async (endpoint) => {
+      endpoints.push(endpoint);
+      const next = attempts.shift() ?? new Error('connect ECONNREFUSED');
+      if (next instanceof Error) {
+        throw next;
+      }
+      return next as never;
+    },
+  });
+  return { connection, endpoints };
+}
+
+function waitForState(connection: BrowserConnection, state: ConnectionStatus['state']) {
+  return new Promise<void>((resolve) => {
+    const stop = connection.onStatusChange((status) => {
+      if (status.state === state) {
+        stop();
+        resolve();
+      }
+    });
+  });
+}
+
+test('a lost connection is restored with backoff and tabs keep their ids', async () => {
+  const first = fakeBrowser(['A', 'B']);
+  const { connection, endpoints } = connectionTo([
+    first,
+    new Error('connect ECONNREFUSED'),
+    new Error('connect ECONNREFUSED'),
+    fakeBrowser(['B', 'A', 'C']),
+  ]);
+  const statuses: ConnectionStatus[] = [];
+  connection.onStatusChange((status) => statuses.push(status));
+  const tools = new MCPTools({ policyConfig, connection });
+
+  const before = await tools.listTabs();
+  assert.deepEqual(
+    before.data?.map((tab) => tab.tabId),
+    ['A', 'B']
+  );
+  assert.equal((await tools.activateTab({ tabId: 'B' })).ok, true);
+
+  const restored = waitForState(connection, 'connected');
+  first.crash();
+  const unavailable = await tools.listTabs();
+  assert.equal(unavailable.error?.code, 'BROWSER_UNAVAILABLE');
+  assert.match(unavailable.error?.message ?? '', /get_connection_status/);
+  assert.equal((await tools.getConnectionStatus()).data?.state, 'reconnecting');
+  await restored;
+
+  const after = await tools.listTabs();
+  assert.deepEqual(
+    after.data?.map((tab) => [tab.tabId, tab.active]),
+    [
+      ['B', true],
+      ['A', false],
+      ['C', false],
+    ]
+  );
+  assert.deepEqual(
+    statuses
+      .map((status) => status.state)
+      .filter((state, index, states) => state !== states[index - 1]),
+    ['connecting', 'connected', 'reconnecting', 'connected']
+  );
+  assert.deepEqual(
+    [
+      ...new Set(
+        statuses
+          .filter((status) => status.state === 'reconnecting')
+          .map((status) => status.attempts)
+      ),
+    ],
+    [0, 1, 2, 3]
+  );
+  assert.ok(statuses.some((status) => status.lastError === 'connect ECONNREFUSED'));
+  assert.equal(endpoints.length, 4);
+  assert.ok(endpoints.every((endpoint) => endpoint === 'http://localhost:9333'));
+  const status = (await tools.getConnectionStatus()).data;
+  assert.equal(status?.attempts, 0);
+  assert.ok(status?.connectedAt && status.disconnectedAt);
+
+  await connection.disconnect();
+  assert.equal(connection.getStatus().state, 'disconnected');
+});
+
+test('the server reports connection changes as log notifications', async (t) => {
+  const first = fakeBrowser(['A']);
+  const { connection } = connectionTo([first], 2);
+  const server = new TabNabMCPServer({ policyConfig, connection });
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  t.after(() => client.close());
+
+  const messages: { level: string; data: { message: string; state: string } }[] = [];
+  const gaveUp = new Promise<void>((resolve) => {
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      messages.push(notification.params as (typeof messages)[number]);
+      if (notification.params.level === 'error') {
+        resolve();
+      }
+    });
+  });
+
+  await client.callTool({ name: 'list_tabs', arguments: {} });
+  first.crash();
+  await gaveUp;
+
+  assert.deepEqual(
+    messages.map((message) => [message.level, message.data.state]),
+    [
+      ['warning', 'reconnecting'],
+      ['error', 'disconnected'],
+    ]
+  );
+  assert.match(messages[1].data.message, /after 2 attempts/);
+
+  const called = await client.callTool({ name: 'get_connection_status', arguments: {} });
+  const content = called.content as { type: string; text: string }[];
+  const response = JSON.parse(content[0].text);
+  assert.equal(response.data.state, 'disconnected');
+  assert.equal(response.data.lastError, 'connect ECONNREFUSED');
+});
+
+test('launch mode reuses a running browser and closes only one it started', async () => {
+  const launch: LaunchConfig = { userDataDir: '/tmp/tabnab-profile', headless: true, port: 9333 };
+  const config = { ...browserConfigForPort(9333), launch };
+  const launches: LaunchConfig[] = [];
+  let closed = 0;
+  const launchBrowser = async (options: LaunchConfig) => {
+    launches.push(options);
+    const events = new EventEmitter();
+    const context = {
+      on: (event: string, listener: () => void) => {
+        events.on(event, listener);
+        return context;
+      },
+      close: async () => {
+        closed += 1;
+        events.emit('close');
+      },
+    };
+    return context as never;
+  };
+
+  const running = fakeBrowser(['A']);
+  const reused = new BrowserConnection(config, {
+    connectBrowser: async () => running as never,
+    launchBrowser,
+  });
+  await reused.connect();
+  assert.equal(reused.getStatus().launched, false);
+  await reused.disconnect();
+  assert.deepEqual(launches, []);
+  assert.equal(closed, 0);
+
+  const attempts = [new Error('connect ECONNREFUSED'), fakeBrowser(['A'])];
+  const managed = new BrowserConnection(config, {
+    connectBrowser: async () => {
+      const next = attempts.shift();
+      if (!next || next instanceof Error) {
+        throw next ?? new Error('unexpected connection attempt');
+      }
+      return next as never;
+    },
+    launchBrowser,
+  });
+  await managed.connect();
+  assert.deepEqual(launches, [launch]);
+  assert.equal(managed.getStatus().launched, true);
+  await managed.disconnect();
+  assert.equal(closed, 1);
+});
+
+test('a launched browser the user quits is started again only when next needed', async () => {
+  const launch: LaunchConfig = { userDataDir: '/tmp/tabnab-profile', headless: true, port: 9333 };
+  const contexts: EventEmitter[] = [];
+  const launchBrowser = async () => {
+    const context = new EventEmitter();
+    contexts.push(context);
+    return Object.assign(context, { close: async () => context.emit('close') }) as never;
+  };
+  const browsers = [fakeBrowser(['A']), fakeBrowser(['A'])];
+  const attempts: (ReturnType<typeof fakeBrowser> | Error)[] = [
+    new Error('connect ECONNREFUSED'),
+    browsers[0],
+  ];
+  const connection = new BrowserConnection(
+    { ...browserConfigForPort(9333), launch },
+    {
+      reconnect: { initialDelayMs: 5, maxDelayMs: 10 },
+      connectBrowser: async () => {
+        const next = attempts.shift() ?? new Error('connect ECONNREFUSED');
+        if (next instanceof Error) {
+          throw next;
+        }
+        return next as never;
+      },
+      launchBrowser,
+    }
+  );
+
+  await connection.connect();
+  browsers[0].crash();
+  contexts[0].emit('close');
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assert.equal(contexts.length, 1);
+  assert.equal(connection.getStatus().state, 'disconnected');
+
+  attempts.push(new Error('connect ECONNREFUSED'), browsers[1]);
+  await connection.connect();
+  assert.equal(contexts.length, 2);
+  assert.equal(connection.getStatus().launched, true);
+  await connection.disconnect();
+});
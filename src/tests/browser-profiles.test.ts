@@ -0,0 +1,276 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { BrowserConfigError, loadBrowserProfiles } from '../browser/config.js';
+import { TabNabMCPServer } from '../mcp/server.js';
+import { MCPTools } from '../mcp/tools.js';
+import { enforcePolicy } from '../policy/policy.js';
+import { parsePolicyFile } from '../policy/policyFile.js';
+import { isToolEnabled } from '../policy/toolPermissions.js';
+import type { PolicyConfig } from '../policy/types.js';
+import { SessionManager } from '../session/session.js';
+
+class MockPage {
+  clicks: string[] = [];
+
+  constructor(private readonly address: string) {}
+
+  url() {
+    return this.address;
+  }
+
+  async title() {
+    return this.address;
+  }
+
+  async waitForSelector() {
+    return;
+  }
+
+  async $eval() {
+    return { tagName: 'button', type: 'button', inPaymentFrame: false, submitsForm: false };
+  }
+
+  async click(selector: string) {
+    this.clicks.push(selector);
+  }
+
+  async bringToFront() {
+    return;
+  }
+
+  async screenshot() {
+    return Buffer.from(this.address);
+  }
+}
+
+function connectionTo(page: MockPage, port: number) {
+  return {
+    getAllTabs: async () => [page],
+    getStatus: () => ({ state: 'connected', endpoint: `http://localhost:${port}`, attempts: 0 }),
+    disconnect: async () => undefined,
+  } as never;
+}
+
+const POLICY = `
+allowedDomains: [example.com]
+confirmationMode: auto
+domains:
+  admin.example.com:
+    allow: true
+    tools:
+      click_element: allow
+browsers:
+  production:
+    tools:
+      click_element: deny
+    allowedTools: [get_active_tab, list_tabs, navigate_and_extract, click_element]
+  staging:
+    confirmationMode: always-confirm
+`;
+
+function policyConfig(auditLogPath: string): PolicyConfig {
+  return {
+    allowedDomains: [],
+    allowedPathPrefixes: {},
+    confirmationMode: 'auto',
+    auditLogPath,
+    maxSteps: 30,
+    selectorLogMode: 'plaintext',
+    ...parsePolicyFile(POLICY, 'policy.yaml').config,
+  };
+}
+
+test('TABNAB_BROWSERS names each profile and reports every problem', () => {
+  const profiles = loadBrowserProfiles({
+    TABNAB_BROWSERS: JSON.stringify({
+      work: { port: 9222 },
+      staging: {
+        endpoint: 'http://localhost:9223',
+        headers: { Authorization: 'Bearer abc' },
+        timeoutMs: 5000,
+      },
+      personal: { port: 9224, mode: 'launch', headless: true },
+    }),
+    CHROME_DEBUG_PORT: '9333',
+  });
+  assert.deepEqual(Object.keys(profiles), ['work', 'staging', 'personal']);
+  assert.deepEqual(profiles.work.endpoint, { kind: 'url', url: 'http://localhost:9222' });
+  assert.deepEqual(profiles.staging.headers, { Authorization: 'Bearer abc' });
+  assert.equal(profiles.staging.timeoutMs, 5000);
+  assert.equal(profiles.personal.launch?.port, 9224);
+  assert.equal(profiles.personal.launch?.headless, true);
+  assert.match(profiles.personal.launch?.userDataDir ?? '', /chrome-profile-personal$/);
+
+  assert.deepEqual(Object.keys(loadBrowserProfiles({ CHROME_DEBUG_PORT: '9333' })), ['default']);
+
+  assert.throws(
+    () =>
+      loadBrowserProfiles({
+        TABNAB_BROWSERS: JSON.stringify({
+          work: { port: 9222 },
+          'work copy': { port: 9225 },
+          staging: { port: 'staging' },
+          admin: { port: 9222 },
+          personal: { url: 'http://localhost:9224' },
+        }),
+      }),
+    (error: unknown) => {
+      assert.ok(error instanceof BrowserConfigError);
+      assert.equal(error.issues.length, 4);
+      assert.match(error.issues[0], /^TABNAB_BROWSERS\.work copy: profile names/);
+      assert.match(error.issues[1], /^TABNAB_BROWSERS\.staging\.port: "staging" is not a port/);
+      assert.match(
+        error.issues[2],
+        /^TABNAB_BROWSERS\.admin: uses http:\/\/localhost:9222 like "work"/
+      );
+      assert.match(error.issues[3], /^TABNAB_BROWSERS\.personal: unknown setting "url"/);
+      return true;
+    }
+  );
+  assert.throws(() => loadBrowserProfiles({ TABNAB_BROWSERS: '["work"]' }), /JSON object/);
+});
+
+test('a browser block overrides the global policy and its denials hold on every domain', () => {
+  const config = policyConfig('/tmp/tabnab-audit.log');
+  const click = (url: string, browser?: string) =>
+    enforcePolicy({ toolName: 'click_element', actionType: 'click', url, browser }, config);
+
+  assert.equal(click('https://admin.example.com/users', 'work').allowed, true);
+  assert.deepEqual(click('https://admin.example.com/users', 'production').reasonCodes, [
+    'tool_disabled',
+  ]);
+  assert.deepEqual(
+    enforcePolicy(
+      {
+        toolName: 'fill_input',
+        actionType: 'fill',
+        url: 'https://example.com/',
+        browser: 'production',
+      },
+      config
+    ).reasonCodes,
+    ['tool_not_allowed']
+  );
+  assert.equal(click('https://example.com/', 'staging').requiresConfirmation, true);
+  assert.equal(click('https://example.com/').requiresConfirmation, false);
+  assert.equal(isToolEnabled('click_element', config), true);
+});
+
+test('tab tools act in the browser they name, under its policy', async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), 'tabnab-browser-profiles-'));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  const production = new MockPage('https://example.com/orders');
+  const work = new MockPage('https://example.com/inbox');
+  const tools = new MCPTools({
+    connections: { work: connectionTo(work, 9222), production: connectionTo(production, 9223) },
+    policyConfig: policyConfig(join(dir, 'audit.log')),
+  });
+
+  const browsers = await tools.listBrowsers();
+  assert.deepEqual(
+    browsers.data?.map(({ name, default: isDefault, endpoint, policy }) => [
+      name,
+      isDefault,
+      endpoint,
+      policy?.toolPermissions,
+    ]),
+    [
+      ['work', true, 'http://localhost:9222', undefined],
+      ['production', false, 'http://localhost:9223', { click_element: 'deny' }],
+    ]
+  );
+
+  assert.equal((await tools.getActiveTab()).data?.url, 'https://example.com/inbox');
+  assert.equal(
+    (await tools.getActiveTab({ browser: 'production' })).data?.url,
+    'https://example.com/orders'
+  );
+  assert.equal((await tools.listTabs({ browser: 'staging' })).error?.code, 'BROWSER_NOT_FOUND');
+
+  const denied = await tools.clickElement({ selector: '#refund', browser: 'production' });
+  assert.equal(denied.error?.code, 'POLICY_BLOCKED');
+  assert.deepEqual(production.clicks, []);
+  const clicked = await tools.clickElement({ selector: '#archive' });
+  assert.equal(clicked.ok, true);
+  assert.deepEqual(work.clicks, ['#archive']);
+
+  const { data } = await tools.queryAuditLog({ toolName: 'click_element' });
+  assert.deepEqual(
+    data?.events.map((event) => [event.browser, event.outcome]),
+    [
+      ['production', 'denied'],
+      ['work', 'confirmed'],
+    ]
+  );
+});
+
+test('the server passes the browser through to screenshot_tab', async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), 'tabnab-browser-profiles-'));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  const server = new TabNabMCPServer({
+    connections: {
+      work: connectionTo(new MockPage('https://example.com/inbox'), 9222),
+      production: connectionTo(new MockPage('https://example.com/orders'), 9223),
+    },
+    policyConfig: policyConfig(join(dir, 'audit.log')),
+  });
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  t.after(() => client.close());
+
+  const screenshot = async (args: Record<string, unknown>) => {
+    const called = await client.callTool({ name: 'screenshot_tab', arguments: args });
+    const content = called.content as { type: string; text: string }[];
+    return JSON.parse(content[0].text);
+  };
+  // production does not allow screenshots; the default profile takes them without asking.
+  const denied = await screenshot({ browser: 'production' });
+  assert.equal(denied.error.code, 'POLICY_BLOCKED');
+  assert.deepEqual(denied.data.reasonCodes, ['tool_not_allowed']);
+  const taken = await screenshot({});
+  assert.equal(taken.ok, true);
+  assert.equal(
+    Buffer.from(taken.data.screenshot, 'base64').toString(),
+    'https://example.com/inbox'
+  );
+});
+
+test('tabs that share an id in different browsers keep their own taint and confirmations', async (t) => {
+  const session = new SessionManager(30);
+  session.taintTab('tab-1', 'work');
+  assert.equal(session.isTabTainted('tab-1', 'work'), true);
+  assert.equal(session.isTabTainted('tab-1', 'personal'), false);
+
+  const dir = await mkdtemp(join(tmpdir(), 'tabnab-browser-profiles-'));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  // Neither mock answers CDP, so both browsers number their only tab `tab-1`.
+  const work = new MockPage('https://example.com/account');
+  const personal = new MockPage('https://example.com/account');
+  const tools = new MCPTools({
+    connections: { work: connectionTo(work, 9222), personal: connectionTo(personal, 9223) },
+    policyConfig: { ...policyConfig(join(dir, 'audit.log')), confirmationMode: 'always-confirm' },
+  });
+
+  const pending = await tools.clickElement({ selector: '#archive', browser: 'work' });
+  const { confirmationId } = pending.data as { confirmationId: string };
+  await tools.confirmAction({ confirmationId });
+  const elsewhere = await tools.clickElement({
+    selector: '#archive',
+    browser: 'personal',
+    confirmationId,
+  });
+  assert.equal(elsewhere.error?.code, 'CONFIRMATION_MISMATCH');
+  assert.ok(
+    (elsewhere.data as { differences: { field: string }[] }).differences.some(
+      (difference) => difference.field === 'browser'
+    )
+  );
+  assert.deepEqual([...work.clicks, ...personal.clicks], []);
+});
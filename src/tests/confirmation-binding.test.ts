@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { MCPTools } from '../mcp/tools.js';
+import { bindConfirmation, diffConfirmationBindings } from '../policy/confirmations.js';
+import type { PolicyConfig } from '../policy/types.js';
+
+class MockPage {
+  filled: { selector: string; value: string }[] = [];
+
+  constructor(private currentUrl = 'https://example.com/search') {}
+
+  url() {
+    return this.currentUrl;
+  }
+
+  async title() {
+    return 'Search';
+  }
+
+  async waitForSelector() {
+    return;
+  }
+
+  async fill(selector: string, value: string) {
+    this.filled.push({ selector, value });
+  }
+
+  async bringToFront() {
+    return;
+  }
+
+  navigate(url: string) {
+    this.currentUrl = url;
+  }
+}
+
+const policyConfig: PolicyConfig = {
+  allowedDomains: ['example.com'],
+  allowedPathPrefixes: {},
+  confirmationMode: 'always-confirm',
+  auditLogPath: '/tmp/tabnab-audit.log',
+  maxSteps: 30,
+  selectorLogMode: 'truncate',
+};
+
+function setup(pages: MockPage[]) {
+  const connection = {
+    getAllTabs: async () => pages,
+    disconnect: async () => undefined,
+  } as never;
+  return new MCPTools({ connection, policyConfig });
+}
+
+async function approvedFill(tools: MCPTools, input: { selector: string; value: string }) {
+  const pending = await tools.fillInput(input);
+  assert.equal(pending.error?.code, 'NEEDS_CONFIRMATION');
+  const { confirmationId } = pending.data as { confirmationId: string };
+  assert.equal((await tools.confirmAction({ confirmationId })).ok, true);
+  return confirmationId;
+}
+
+test('bindings hash inputs canonically and never preview typed values', () => {
+  const context = { url: 'https://example.com/', tabId: 'tab-1' };
+  const first = bindConfirmation({ selector: '#q', value: 'secret', confirmationId: 'a' }, context);
+  const second = bindConfirmation(
+    { value: 'secret', selector: '#q', confirmationId: 'b' },
+    context
+  );
+  assert.equal(first.inputHash, second.inputHash);
+  assert.equal(first.fields.value.preview, undefined);
+  assert.equal(first.fields.selector.preview, '#q');
+  assert.ok(!JSON.stringify(first).includes('secret'));
+
+  const changed = bindConfirmation(
+    { selector: '#q', value: 'other' },
+    { url: 'https://example.com/admin', tabId: 'tab-2' }
+  );
+  assert.deepEqual(diffConfirmationBindings(first, changed), [
+    { field: 'url', approved: 'https://example.com/', requested: 'https://example.com/admin' },
+    { field: 'tabId', approved: 'tab-1', requested: 'tab-2' },
+    { field: 'input.value', approved: undefined, requested: undefined },
+  ]);
+  assert.deepEqual(diffConfirmationBindings(first, second), []);
+});
+
+test('an approval only releases the exact action it was issued for', async () => {
+  const page = new MockPage();
+  const tools = setup([page]);
+  const confirmationId = await approvedFill(tools, { selector: '#search', value: 'shoes' });
+
+  const otherSelector = await tools.fillInput({
+    selector: '#password',
+    value: 'shoes',
+    confirmationId,
+  });
+  assert.equal(otherSelector.error?.code, 'CONFIRMATION_MISMATCH');
+  assert.deepEqual((otherSelector.data as { differences: unknown }).differences, [
+    { field: 'input.selector', approved: '#search', requested: '#password' },
+  ]);
+
+  const otherValue = await tools.fillInput({ selector: '#search', value: 'boots', confirmationId });
+  assert.equal(otherValue.error?.code, 'CONFIRMATION_MISMATCH');
+  assert.match(otherValue.error?.message ?? '', /input\.value/);
+  assert.ok(!JSON.stringify(otherValue).includes('boots'));
+  assert.deepEqual(page.filled, []);
+
+  const exact = await tools.fillInput({ selector: '#search', value: 'shoes', confirmationId });
+  assert.equal(exact.ok, true);
+  assert.deepEqual(page.filled, [{ selector: '#search', value: 'shoes' }]);
+});
+
+test('approvals are bound to the page URL and tab', async () => {
+  const page = new MockPage();
+  const other = new MockPage();
+  const tools = setup([page, other]);
+  const tabs = await tools.listTabs();
+  const [firstTab, secondTab] = (tabs.data ?? []).map((tab) => tab.tabId);
+
+  const pending = await tools.fillInput({ selector: '#q', value: 'x', tabId: firstTab });
+  const { confirmationId } = pending.data as { confirmationId: string };
+  await tools.confirmAction({ confirmationId });
+
+  page.navigate('https://example.com/admin');
+  const moved = await tools.fillInput({
+    selector: '#q',
+    value: 'x',
+    tabId: firstTab,
+    confirmationId,
+  });
+  assert.equal(moved.error?.code, 'CONFIRMATION_MISMATCH');
+  assert.deepEqual((moved.data as { differences: { field: string }[] }).differences[0], {
+    field: 'url',
+    approved: 'https://example.com/search',
+    requested: 'https://example.com/admin',
+  });
+
+  page.navigate('https://example.com/search');
+  const otherTab = await tools.fillInput({
+    selector: '#q',
+    value: 'x',
+    tabId: secondTab,
+    confirmationId,
+  });
+  assert.equal(otherTab.error?.code, 'CONFIRMATION_MISMATCH');
+  assert.deepEqual(
+    (otherTab.data as { differences: { field: string }[] }).differences.map(({ field }) => field),
+    ['tabId', 'input.tabId']
+  );
+});
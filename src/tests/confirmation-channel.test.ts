@@ -0,0 +1,180 @@
+import assert from 'node:assert/strict';
+import { request } from 'node:http';
+import test from 'node:test';
+import { MCPTools } from '../mcp/tools.js';
+import { ApprovalServer } from '../policy/approvalServer.js';
+import { ConfirmationStore } from '../policy/confirmations.js';
+import type { PolicyConfig } from '../policy/types.js';
+
+class MockPage {
+  clicked = false;
+
+  url() {
+    return 'https://example.com/account';
+  }
+
+  async title() {
+    return 'Account';
+  }
+
+  async waitForSelector() {
+    return;
+  }
+
+  async click() {
+    this.clicked = true;
+  }
+
+  async bringToFront() {
+    return;
+  }
+}
+
+function postDecision(url: string, decision: string, headers: Record<string, string> = {}) {
+  return new Promise<{ status: number; body: string }>((resolve, reject) => {
+    const body = `decision=${decision}`;
+    const req = request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Content-Length': Buffer.byteLength(body),
+          ...headers,
+        },
+      },
+      (res) => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          text += chunk;
+        });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: text }));
+      }
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+async function startApprovals(store: ConfirmationStore) {
+  const messages: string[] = [];
+  const server = new ApprovalServer(store, { notify: (message) => messages.push(message) });
+  await server.start();
+  const linkFor = () => {
+    const match = messages.at(-1)?.match(/http:\/\/\S+/);
+    assert.ok(match, 'approval link was not announced');
+    return match[0];
+  };
+  return { server, messages, linkFor };
+}
+
+test('waitForDecision resolves on approval, denial or timeout', async () => {
+  const store = new ConfirmationStore();
+  const first = store.create('Click #pay', 'click_element');
+  assert.equal(await store.waitForDecision(first.id, 10), 'pending');
+
+  const waiting = store.waitForDecision(first.id, 5000);
+  store.approve(first.id);
+  assert.equal(await waiting, 'approved');
+
+  const second = store.create('Click #pay', 'click_element');
+  const denied = store.waitForDecision(second.id, 5000);
+  store.deny(second.id);
+  assert.equal(await denied, 'denied');
+  assert.equal(store.approve(second.id), null);
+  assert.equal(await store.waitForDecision('unknown', 10), 'expired');
+});
+
+test('the approval page approves with a one-time token', async (t) => {
+  const store = new ConfirmationStore();
+  const { server, linkFor } = await startApprovals(store);
+  t.after(() => server.stop());
+
+  const pending = store.create('Click #delete-account on https://example.com/', 'click_element');
+  const link = linkFor();
+  assert.ok(!link.includes(pending.id));
+
+  const page = await fetch(link);
+  assert.equal(page.status, 200);
+  assert.equal(page.headers.get('x-frame-options'), 'DENY');
+  assert.match(await page.text(), /Click #delete-account on https:\/\/example\.com\//);
+
+  const approved = await postDecision(link, 'approve');
+  assert.equal(approved.status, 200);
+  assert.equal(store.status(pending.id), 'approved');
+
+  const reused = await postDecision(link, 'deny');
+  assert.equal(reused.status, 404);
+  assert.equal(store.status(pending.id), 'approved');
+});
+
+test('the approval page rejects foreign hosts, origins and guessed tokens', async (t) => {
+  const store = new ConfirmationStore();
+  const { server, linkFor } = await startApprovals(store);
+  t.after(() => server.stop());
+
+  const pending = store.create('Click #pay', 'click_element');
+  const link = linkFor();
+
+  assert.equal((await postDecision(link, 'approve', { Host: 'attacker.test' })).status, 403);
+  assert.equal(
+    (await postDecision(link, 'approve', { Origin: 'https://attacker.test' })).status,
+    403
+  );
+  assert.equal((await postDecision(link, 'approve', { Origin: 'null' })).status, 403);
+  assert.equal((await fetch(link.replace(/[^/]{43}$/, 'a'.repeat(43)))).status, 404);
+  assert.equal((await fetch(link, { method: 'PUT' })).status, 405);
+  assert.equal(store.status(pending.id), 'pending');
+
+  assert.equal((await postDecision(link, 'deny')).status, 200);
+  assert.equal(store.status(pending.id), 'denied');
+});
+
+test('with the http channel the agent cannot approve its own actions', async (t) => {
+  const page = new MockPage();
+  const connection = {
+    getAllTabs: async () => [page],
+    disconnect: async () => undefined,
+  } as never;
+  const policyConfig: PolicyConfig = {
+    allowedDomains: ['example.com'],
+    allowedPathPrefixes: {},
+    confirmationMode: 'confirm-on-sensitive',
+    confirmationChannel: 'http',
+    auditLogPath: '/tmp/tabnab-audit.log',
+    maxSteps: 30,
+    selectorLogMode: 'truncate',
+  };
+  const messages: string[] = [];
+  const confirmations = new ConfirmationStore();
+  const approvalServer = new ApprovalServer(confirmations, {
+    notify: (message) => messages.push(message),
+  });
+  const tools = new MCPTools({ connection, policyConfig, confirmations, approvalServer });
+  await tools.startConfirmationChannel();
+  t.after(() => tools.disconnect());
+
+  const blocked = await tools.clickElement({ selector: '#delete-account' });
+  assert.equal(blocked.error?.code, 'NEEDS_CONFIRMATION');
+  const { confirmationId } = blocked.data as { confirmationId: string };
+  assert.ok(!JSON.stringify(blocked).includes('/approve/'));
+
+  const selfApproval = await tools.confirmAction({ confirmationId });
+  assert.equal(selfApproval.error?.code, 'CONFIRMATION_PENDING');
+  const retried = await tools.clickElement({ selector: '#delete-account', confirmationId });
+  assert.equal(retried.error?.code, 'NEEDS_CONFIRMATION');
+  assert.equal(page.clicked, false);
+
+  const waiting = tools.confirmAction({ confirmationId, waitMs: 5000 });
+  const link = messages
+    .find((message) => message.includes('#delete-account'))
+    ?.match(/http:\/\/\S+/);
+  assert.ok(link);
+  await postDecision(link[0], 'approve');
+  assert.equal((await waiting).ok, true);
+
+  const executed = await tools.clickElement({ selector: '#delete-account', confirmationId });
+  assert.equal(executed.ok, true);
+  assert.equal(page.clicked, true);
+});
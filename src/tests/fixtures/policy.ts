@@ -0,0 +1,40 @@
+/**
+ * Temporary directories and policies for tests that write an audit log. Everything lives
+ * in a directory that is removed when the test ends.
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuditLogger } from '../../policy/audit.js';
+import type { PolicyConfig } from '../../policy/types.js';
+
+export type After = { after: (fn: () => unknown) => void };
+
+/** Creates `tabnab-<name>-*` in the system temp directory. */
+export async function tempDir(t: After, name: string): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), `tabnab-${name}-`));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+/** A policy that allows nothing, with its audit log and signing key in `dir`. */
+export function testPolicy(dir: string, overrides: Partial<PolicyConfig> = {}): PolicyConfig {
+  return {
+    allowedDomains: [],
+    allowedPathPrefixes: {},
+    confirmationMode: 'confirm-on-sensitive',
+    auditLogPath: join(dir, 'audit.log'),
+    auditSigningKeyPath: join(dir, 'signing.pem'),
+    maxSteps: 30,
+    selectorLogMode: 'truncate',
+    ...overrides,
+  };
+}
+
+/** An audit logger for `testPolicy` in a fresh temporary directory. */
+export async function tempAuditLog(t: After, name: string, overrides: Partial<PolicyConfig> = {}) {
+  const dir = await tempDir(t, name);
+  const config = testPolicy(dir, overrides);
+  return { dir, config, logger: new AuditLogger(config) };
+}
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { isUrlDenied, matchesPathPattern, parseDeniedPathPatterns } from '../policy/denylist.js';
+import { enforcePolicy } from '../policy/policy.js';
+import type { PolicyConfig } from '../policy/types.js';
+
+const config: PolicyConfig = {
+  allowedDomains: ['github.com', '.example.com'],
+  allowedPathPrefixes: {},
+  deniedDomains: ['billing.example.com'],
+  deniedPathPatterns: parseDeniedPathPatterns('github.com:/settings/*;github.com:/*/delete'),
+  confirmationMode: 'auto',
+  auditLogPath: '/tmp/tabnab-audit.log',
+  maxSteps: 30,
+  selectorLogMode: 'truncate',
+};
+
+test('path patterns match single segments, nested paths and double stars', () => {
+  assert.equal(matchesPathPattern('/settings/profile', '/settings/*'), true);
+  assert.equal(matchesPathPattern('/settings/keys/new', '/settings/*'), true);
+  assert.equal(matchesPathPattern('/settings', '/settings/*'), false);
+  assert.equal(matchesPathPattern('/settings', '/settings'), true);
+  assert.equal(matchesPathPattern('/settingsx', '/settings'), false);
+  assert.equal(matchesPathPattern('/acme/delete', '/*/delete'), true);
+  assert.equal(matchesPathPattern('/acme/repo/delete', '/*/delete'), false);
+  assert.equal(matchesPathPattern('/acme/repo/delete', '/**/delete'), true);
+  assert.equal(matchesPathPattern('/anything', '/'), true);
+});
+
+test('path patterns are case-insensitive and see through percent-encoding', () => {
+  assert.equal(matchesPathPattern('/Settings/Profile', '/settings/*'), true);
+  assert.equal(matchesPathPattern('/settings%2Fprofile', '/settings/*'), true);
+  assert.equal(matchesPathPattern('/a.b/delete', '/a.b/delete'), true);
+  assert.equal(matchesPathPattern('/axb/delete', '/a.b/delete'), false);
+});
+
+test('isUrlDenied blocks denied domains and denied paths', () => {
+  assert.deepEqual(isUrlDenied(new URL('https://billing.example.com/'), config), {
+    denied: true,
+    reasonCodes: ['denylist_blocked'],
+  });
+  assert.equal(isUrlDenied(new URL('https://github.com/settings/keys'), config).denied, true);
+  assert.equal(isUrlDenied(new URL('https://github.com/acme/delete'), config).denied, true);
+  assert.equal(isUrlDenied(new URL('https://github.com/acme/repo'), config).denied, false);
+  assert.equal(isUrlDenied(new URL('https://www.example.com/'), config).denied, false);
+});
+
+test('enforcePolicy evaluates the denylist before the allowlist', () => {
+  const denied = enforcePolicy(
+    {
+      toolName: 'navigate_and_extract',
+      url: 'https://github.com/settings/tokens',
+      actionType: 'navigate',
+      isNavigation: true,
+    },
+    config
+  );
+  assert.equal(denied.allowed, false);
+  assert.deepEqual(denied.reasonCodes, ['denylist_blocked']);
+
+  const allowed = enforcePolicy(
+    {
+      toolName: 'navigate_and_extract',
+      url: 'https://github.com/acme/repo',
+      actionType: 'navigate',
+      isNavigation: true,
+    },
+    config
+  );
+  assert.equal(allowed.allowed, true);
+});
+
+test('enforcePolicy applies the denylist to read-only actions too', () => {
+  const decision = enforcePolicy(
+    {
+      toolName: 'query_selector_all',
+      url: 'https://billing.example.com/invoices',
+      actionType: 'query_selector_all',
+      isReadOnly: true,
+    },
+    config
+  );
+  assert.equal(decision.allowed, false);
+  assert.deepEqual(decision.reasonCodes, ['denylist_blocked']);
+});
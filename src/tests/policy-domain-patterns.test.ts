@@ -0,0 +1,201 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  domainPatternSpecificity,
+  findBestDomainMatch,
+  isUrlAllowed,
+  normalizeDomainPattern,
+  parseAllowedDomains,
+  parseAllowedPathPrefixes,
+  resolvePathPrefixes,
+} from '../policy/allowlist.js';
+import type { PolicyConfig } from '../policy/types.js';
+
+function configFor(
+  allowedDomains: string[],
+  allowedPathPrefixes: Record<string, string[]> = {}
+): PolicyConfig {
+  return {
+    allowedDomains,
+    allowedPathPrefixes,
+    confirmationMode: 'confirm-on-sensitive',
+    auditLogPath: '/tmp/tabnab-audit.log',
+    maxSteps: 30,
+    selectorLogMode: 'truncate',
+  };
+}
+
+function allowed(url: string, config: PolicyConfig): boolean {
+  return isUrlAllowed(new URL(url), config).allowed;
+}
+
+test('normalizeDomainPattern canonicalizes case, punycode and default ports', () => {
+  assert.equal(normalizeDomainPattern('Example.COM'), 'example.com');
+  assert.equal(normalizeDomainPattern('example.com.'), 'example.com');
+  assert.equal(normalizeDomainPattern('*.Example.com'), '*.example.com');
+  assert.equal(normalizeDomainPattern('.example.com'), '.example.com');
+  assert.equal(normalizeDomainPattern('bücher.de'), 'xn--bcher-kva.de');
+  assert.equal(normalizeDomainPattern('*.bücher.de'), '*.xn--bcher-kva.de');
+  assert.equal(
+    normalizeDomainPattern('HTTPS://intranet.local:8443'),
+    'https://intranet.local:8443'
+  );
+  assert.equal(normalizeDomainPattern('https://intranet.local:443'), 'https://intranet.local');
+  assert.equal(normalizeDomainPattern('https://intranet.local/'), 'https://intranet.local');
+  assert.equal(normalizeDomainPattern('localhost:3000'), 'localhost:3000');
+  assert.equal(normalizeDomainPattern('[::1]:8080'), '[::1]:8080');
+});
+
+test('normalizeDomainPattern rejects entries it cannot interpret', () => {
+  assert.equal(normalizeDomainPattern(''), null);
+  assert.equal(normalizeDomainPattern('example.com/path'), null);
+  assert.equal(normalizeDomainPattern('foo*.example.com'), null);
+  assert.equal(normalizeDomainPattern('**.example.com'), null);
+  assert.equal(normalizeDomainPattern('example.com:0'), null);
+  assert.equal(normalizeDomainPattern('example.com:70000'), null);
+  assert.equal(normalizeDomainPattern('exa mple.com'), null);
+});
+
+test('parseAllowedDomains drops invalid entries and keeps patterns', () => {
+  assert.deepEqual(parseAllowedDomains(' Example.com , *.corp.example ,, bad/entry, .saas.io '), [
+    'example.com',
+    '*.corp.example',
+    '.saas.io',
+  ]);
+  assert.deepEqual(parseAllowedDomains(undefined), []);
+});
+
+test('exact entries match only the exact host on any port', () => {
+  const config = configFor(['example.com']);
+  assert.equal(allowed('https://example.com/', config), true);
+  assert.equal(allowed('http://example.com:8080/', config), true);
+  assert.equal(allowed('https://app.example.com/', config), false);
+  assert.equal(allowed('https://notexample.com/', config), false);
+  assert.equal(allowed('https://example.com.evil.test/', config), false);
+});
+
+test('star wildcard matches subdomains at any depth but not the apex', () => {
+  const config = configFor(['*.example.com']);
+  assert.equal(allowed('https://app.example.com/', config), true);
+  assert.equal(allowed('https://eu.api.example.com/', config), true);
+  assert.equal(allowed('https://example.com/', config), false);
+  assert.equal(allowed('https://badexample.com/', config), false);
+});
+
+test('leading dot matches the apex and all subdomains', () => {
+  const config = configFor(['.example.com']);
+  assert.equal(allowed('https://example.com/', config), true);
+  assert.equal(allowed('https://auth.example.com/', config), true);
+  assert.equal(allowed('https://badexample.com/', config), false);
+});
+
+test('scheme-pinned entries require the scheme and its default port', () => {
+  const config = configFor(['https://secure.example.com']);
+  assert.equal(allowed('https://secure.example.com/', config), true);
+  assert.equal(allowed('https://secure.example.com:443/', config), true);
+  assert.equal(allowed('http://secure.example.com/', config), false);
+  assert.equal(allowed('https://secure.example.com:8443/', config), false);
+});
+
+test('port-pinned entries require the port', () => {
+  const config = configFor(['https://intranet.local:8443', 'localhost:3000']);
+  assert.equal(allowed('https://intranet.local:8443/wiki', config), true);
+  assert.equal(allowed('https://intranet.local/wiki', config), false);
+  assert.equal(allowed('http://intranet.local:8443/wiki', config), false);
+  assert.equal(allowed('http://localhost:3000/', config), true);
+  assert.equal(allowed('https://localhost:3000/', config), true);
+  assert.equal(allowed('http://localhost:4000/', config), false);
+  assert.equal(allowed('http://localhost/', config), false);
+});
+
+test('internationalized hosts match their punycode form', () => {
+  const config = configFor(parseAllowedDomains('bücher.de,.münchen.example'));
+  assert.equal(allowed('https://bücher.de/', config), true);
+  assert.equal(allowed('https://xn--bcher-kva.de/', config), true);
+  assert.equal(allowed('https://shop.münchen.example/', config), true);
+});
+
+test('IPv6 literals are matched with their brackets', () => {
+  const config = configFor(parseAllowedDomains('[::1]'));
+  assert.equal(allowed('http://[::1]:9000/', config), true);
+  assert.equal(allowed('http://[::2]/', config), false);
+});
+
+test('specificity prefers deeper hosts, then exact entries, then pinned scheme and port', () => {
+  const url = new URL('https://app.example.com:443/');
+  const wildcard = domainPatternSpecificity(url, '*.example.com');
+  const apexAndSubs = domainPatternSpecificity(url, '.example.com');
+  const exact = domainPatternSpecificity(url, 'app.example.com');
+  const pinned = domainPatternSpecificity(url, 'https://app.example.com');
+  const deeperWildcard = domainPatternSpecificity(url, '.app.example.com');
+
+  assert.ok(wildcard >= 0);
+  assert.equal(wildcard, apexAndSubs);
+  assert.ok(exact > wildcard);
+  assert.ok(pinned > exact);
+  assert.ok(deeperWildcard > wildcard);
+  assert.ok(exact > deeperWildcard);
+  assert.equal(domainPatternSpecificity(url, 'other.com'), -1);
+  assert.equal(domainPatternSpecificity(url, 'not a pattern'), -1);
+});
+
+test('findBestDomainMatch returns the most specific matching entry', () => {
+  const url = new URL('https://admin.example.com/');
+  assert.deepEqual(
+    findBestDomainMatch(url, ['.example.com', 'admin.example.com', '*.example.com'])?.pattern,
+    'admin.example.com'
+  );
+  assert.equal(findBestDomainMatch(url, ['other.com']), null);
+});
+
+test('parseAllowedPathPrefixes accepts patterns, schemes and ports as keys', () => {
+  const prefixes = parseAllowedPathPrefixes(
+    'Example.com:/billing; *.example.com:/app ;https://intranet.local:8443:/wiki;.corp:/x;bad:nopath;:/'
+  );
+  assert.deepEqual(prefixes, {
+    'example.com': ['/billing'],
+    '*.example.com': ['/app'],
+    'https://intranet.local:8443': ['/wiki'],
+    '.corp': ['/x'],
+  });
+});
+
+test('path prefixes come from the most specific matching key', () => {
+  const prefixes = {
+    '.example.com': ['/public'],
+    'admin.example.com': ['/console'],
+  };
+  assert.deepEqual(resolvePathPrefixes(new URL('https://admin.example.com/'), prefixes), [
+    '/console',
+  ]);
+  assert.deepEqual(resolvePathPrefixes(new URL('https://www.example.com/'), prefixes), ['/public']);
+  assert.equal(resolvePathPrefixes(new URL('https://other.com/'), prefixes), undefined);
+});
+
+test('isUrlAllowed applies the most specific path prefixes after a wildcard match', () => {
+  const config = configFor(['.example.com'], {
+    '.example.com': ['/public'],
+    'admin.example.com': ['/console'],
+  });
+
+  assert.equal(allowed('https://www.example.com/public/page', config), true);
+  assert.equal(allowed('https://www.example.com/private', config), false);
+  assert.equal(allowed('https://admin.example.com/console/users', config), true);
+  assert.equal(allowed('https://admin.example.com/public', config), false);
+
+  const blocked = isUrlAllowed(new URL('https://admin.example.com/public'), config);
+  assert.deepEqual(blocked.reasonCodes, ['path_prefix_blocked']);
+});
+
+test('isUrlAllowed leaves paths unrestricted when no prefix key matches', () => {
+  const config = configFor(['.example.com', 'other.com'], { 'example.com': ['/billing'] });
+  assert.equal(allowed('https://app.example.com/anything', config), true);
+  assert.equal(allowed('https://other.com/anything', config), true);
+  assert.equal(allowed('https://example.com/anything', config), false);
+});
+
+test('isUrlAllowed still reports a missing allowlist', () => {
+  const result = isUrlAllowed(new URL('https://example.com/'), configFor([]));
+  assert.equal(result.allowed, false);
+  assert.deepEqual(result.reasonCodes, ['allowlist_missing']);
+});
@@ -0,0 +1,179 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { JSDOM } from 'jsdom';
+import { describeElement } from '../browser/element.js';
+import { MCPTools } from '../mcp/tools.js';
+import { enforcePolicy } from '../policy/policy.js';
+import type { ElementDescriptor, PolicyConfig } from '../policy/types.js';
+
+const config: PolicyConfig = {
+  allowedDomains: ['example.com'],
+  allowedPathPrefixes: {},
+  confirmationMode: 'confirm-on-sensitive',
+  auditLogPath: '/tmp/tabnab-audit.log',
+  maxSteps: 30,
+  selectorLogMode: 'truncate',
+};
+
+function describe(html: string, selector: string): ElementDescriptor {
+  const dom = new JSDOM(html, { url: 'https://example.com/account/' });
+  const element = dom.window.document.querySelector(selector);
+  assert.ok(element, `missing ${selector}`);
+  return describeElement(element as unknown as Element);
+}
+
+function click(selector: string, element?: ElementDescriptor) {
+  return enforcePolicy(
+    {
+      toolName: 'click_element',
+      url: 'https://example.com/account',
+      selector,
+      element,
+      actionType: 'click',
+    },
+    config
+  );
+}
+
+test('describeElement resolves role, accessible name and enclosing form', () => {
+  const descriptor = describe(
+    `<form method="POST" action="/members/42/remove">
+      <span id="lbl">Remove member</span>
+      <button id="btn-42" aria-labelledby="lbl">X</button>
+    </form>`,
+    '#btn-42'
+  );
+
+  assert.deepEqual(descriptor, {
+    tagName: 'button',
+    role: 'button',
+    accessibleName: 'Remove member',
+    ariaLabel: undefined,
+    name: undefined,
+    type: 'submit',
+    form: { method: 'post', action: 'https://example.com/members/42/remove' },
+    inPaymentFrame: false,
+    submitsForm: true,
+  });
+});
+
+test('describeElement uses labels and values for inputs', () => {
+  const field = describe(
+    '<label for="q">Search orders</label><input id="q" name="query" type="search">',
+    '#q'
+  );
+  assert.equal(field.role, 'searchbox');
+  assert.equal(field.accessibleName, 'Search orders');
+  assert.equal(field.submitsForm, false);
+  assert.equal(field.form, undefined);
+
+  const submit = describe(
+    '<form><input id="go" type="submit" value="Send money" formmethod="post"></form>',
+    '#go'
+  );
+  assert.equal(submit.accessibleName, 'Send money');
+  assert.equal(submit.form?.method, 'post');
+  assert.equal(submit.submitsForm, true);
+
+  const plain = describe('<form><button id="b" type="button">Toggle</button></form>', '#b');
+  assert.equal(plain.submitsForm, false);
+});
+
+test('describeElement flags payment iframes', () => {
+  assert.equal(
+    describe('<iframe id="f" src="https://js.stripe.com/v3/elements"></iframe>', '#f')
+      .inPaymentFrame,
+    true
+  );
+  assert.equal(
+    describe('<iframe id="f" src="https://video.example.com/embed"></iframe>', '#f').inPaymentFrame,
+    false
+  );
+});
+
+test('sensitivity follows the resolved element rather than the selector text', () => {
+  const removeButton = describe(
+    '<form method="post" action="/team"><button id="btn-42">Remove member</button></form>',
+    '#btn-42'
+  );
+  const decision = click('#btn-42', removeButton);
+  assert.equal(decision.requiresConfirmation, true);
+  assert.deepEqual(decision.reasonCodes, [
+    'sensitive_action',
+    'sensitive:text:remove',
+    'sensitive:type:submit',
+    'sensitive:form:submit',
+    'confirmation_required',
+  ]);
+
+  const harmlessLink = describe(
+    '<a id="delete-docs" href="/docs">Documentation</a>',
+    '#delete-docs'
+  );
+  assert.equal(harmlessLink.role, 'link');
+  assert.equal(click('#delete-docs', harmlessLink).sensitive, false);
+
+  assert.equal(click('#delete-docs').sensitive, true);
+});
+
+test('an untyped button outside a form is not a submit button', () => {
+  const menu = describe('<nav><button id="menu">Open menu</button></nav>', '#menu');
+  assert.equal(menu.type, 'button');
+  assert.equal(menu.submitsForm, false);
+  assert.equal(click('#menu', menu).sensitive, false);
+
+  const inForm = describe('<form><button id="save">Save</button></form>', '#save');
+  assert.equal(inForm.type, 'submit');
+  assert.ok(click('#save', inForm).reasonCodes.includes('sensitive:type:submit'));
+});
+
+test('clicks inside payment frames are sensitive', () => {
+  const frame = describe('<iframe id="card" name="payment-card"></iframe>', '#card');
+  assert.ok(click('#card', frame).reasonCodes.includes('sensitive:frame:payment'));
+});
+
+test('click_element describes the element once it appears, and confirms when it never does', async () => {
+  const removeButton = describe(
+    '<form method="post" action="/team"><button id="btn-42">Remove member</button></form>',
+    '#btn-42'
+  );
+  // The button renders late: it is only there once something has waited for it.
+  let rendered = false;
+  const clicks: string[] = [];
+  const page = {
+    url: () => 'https://example.com/account',
+    title: async () => 'Account',
+    bringToFront: async () => undefined,
+    waitForSelector: async (selector: string) => {
+      if (selector !== '#btn-42') {
+        throw new Error(`Timeout waiting for ${selector}`);
+      }
+      rendered = true;
+    },
+    $eval: async () => {
+      if (!rendered) {
+        throw new Error('No element matches the selector');
+      }
+      return removeButton;
+    },
+    click: async (selector: string) => {
+      clicks.push(selector);
+    },
+  };
+  const tools = new MCPTools({
+    policyConfig: { ...config, confirmationMode: 'auto' },
+    connection: { getAllTabs: async () => [page], disconnect: async () => undefined } as never,
+  });
+
+  const late = await tools.clickElement({ selector: '#btn-42' });
+  assert.equal(late.error?.code, 'NEEDS_CONFIRMATION');
+  assert.ok((late.data as { reasonCodes: string[] }).reasonCodes.includes('sensitive:form:submit'));
+
+  const missing = await tools.clickElement({ selector: '#gone' });
+  assert.equal(missing.error?.code, 'NEEDS_CONFIRMATION');
+  assert.deepEqual((missing.data as { reasonCodes: string[] }).reasonCodes, [
+    'element_unresolved',
+    'confirmation_required',
+  ]);
+  assert.deepEqual(clicks, []);
+});
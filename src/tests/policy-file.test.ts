@@ -0,0 +1,280 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test from 'node:test';
+import {
+  enforcePolicy,
+  loadPolicyConfig,
+  PolicySettingsError,
+  resolveStepScope,
+} from '../policy/policy.js';
+import {
+  PolicyConfigError,
+  parseAuditSinks,
+  parsePolicyFile,
+  validatePolicyFile,
+} from '../policy/policyFile.js';
+import { SessionManager } from '../session/session.js';
+
+const YAML_POLICY = `version: 1
+allowedDomains:
+  - example.com
+confirmationMode: confirm-on-sensitive
+maxSteps: 40
+domains:
+  "*.github.com":
+    allow: true
+    confirmationMode: always-confirm
+    pathPrefixes: [/acme]
+    maxSteps: 2
+    allowedTools: [navigate_and_extract, query_selector_all]
+`;
+
+function expectIssues(raw: string, filePath: string) {
+  try {
+    parsePolicyFile(raw, filePath);
+  } catch (error) {
+    assert.ok(error instanceof PolicyConfigError);
+    return error.issues;
+  }
+  assert.fail('Expected the policy file to be rejected');
+}
+
+test('parsePolicyFile reads structured YAML documents with domain blocks', () => {
+  const { settings, config } = parsePolicyFile(YAML_POLICY, 'policy.yaml');
+  assert.deepEqual(settings, {});
+  assert.deepEqual(config.allowedDomains, ['example.com', '*.github.com']);
+  assert.deepEqual(config.allowedPathPrefixes, { '*.github.com': ['/acme'] });
+  assert.equal(config.maxSteps, 40);
+  assert.deepEqual(config.domainPolicies, {
+    '*.github.com': {
+      confirmationMode: 'always-confirm',
+      maxSteps: 2,
+      allowedTools: ['navigate_and_extract', 'query_selector_all'],
+    },
+  });
+});
+
+test('parsePolicyFile reads JSON documents and legacy TABNAB_* maps', () => {
+  const json = JSON.stringify({ allowedDomains: ['Example.com'], maxSteps: 5 }, null, '\t');
+  assert.deepEqual(parsePolicyFile(json, 'policy.json').config, {
+    allowedDomains: ['example.com'],
+    maxSteps: 5,
+  });
+
+  const legacy = parsePolicyFile(
+    '{"TABNAB_ALLOWED_DOMAINS": "a.com", "TABNAB_MAX_STEPS": 3}',
+    'p.json'
+  );
+  assert.deepEqual(legacy.settings, { TABNAB_ALLOWED_DOMAINS: 'a.com', TABNAB_MAX_STEPS: '3' });
+});
+
+test('schema errors point at the offending line', () => {
+  const issues = expectIssues(
+    'allowedDomains:\n  - example.com\ndomains:\n  github.com:\n    confirmationMode: sometimes\n',
+    'policy.yaml'
+  );
+  assert.equal(issues.length, 1);
+  assert.equal(issues[0].path, 'domains.github.com.confirmationMode');
+  assert.equal(issues[0].line, 5);
+  assert.equal(issues[0].column, 23);
+});
+
+test('unknown keys, bad domain patterns and unknown tools are reported', () => {
+  const issues = expectIssues(
+    'allowedDomain: [example.com]\ndomains:\n  "bad/domain": {}\n  ok.com:\n    allowedTools: [rm_rf]\n',
+    'policy.yaml'
+  );
+  const byPath = new Map(issues.map((issue) => [issue.path, issue]));
+  assert.equal(byPath.get('allowedDomain')?.line, 1);
+  assert.equal(byPath.get('domains.bad/domain')?.message, 'Invalid domain pattern');
+  assert.equal(byPath.get('domains.bad/domain')?.line, 3);
+  assert.equal(byPath.get('domains.ok.com.allowedTools[0]')?.line, 5);
+});
+
+test('syntax errors report their position for YAML and JSON', () => {
+  const yamlIssues = expectIssues('allowedDomains: [example.com\nmaxSteps: 3\n', 'policy.yaml');
+  assert.ok(yamlIssues[0].line);
+
+  const jsonIssues = expectIssues('{\n  "allowedDomains": ["example.com" "x"]\n}', 'policy.json');
+  assert.deepEqual(jsonIssues[0], {
+    path: '',
+    message: "Expected ',' or ']' after array element",
+    line: 2,
+    column: 36,
+  });
+  // V8 does not say where an unexpected token is; the issue is still reported.
+  const tokenIssues = expectIssues('{\n  "allowedDomains": ["example.com",]\n}', 'policy.json');
+  assert.equal(tokenIssues[0].message, "Unexpected token ']'");
+});
+
+test('audit sinks are validated by type in the file and in TABNAB_AUDIT_SINKS', () => {
+  const { config } = parsePolicyFile(
+    'auditSinks:\n  - type: syslog\n    transport: udp\n    host: logs.internal\n  - type: otlp\n    endpoint: http://collector:4318\n',
+    'policy.yaml'
+  );
+  assert.deepEqual(
+    config.auditSinks?.map((sink) => sink.type),
+    ['syslog', 'otlp']
+  );
+
+  const issues = expectIssues(
+    'auditSinks:\n  - type: syslog\n    transport: unix\n  - type: webhook\n    url: ftp://example.com\n',
+    'policy.yaml'
+  );
+  assert.deepEqual(
+    issues.map((issue) => issue.path),
+    ['auditSinks[0].path', 'auditSinks[1].url']
+  );
+
+  assert.deepEqual(parseAuditSinks('[{"type":"webhook","url":"https://example.com/hook"}]'), [
+    { type: 'webhook', url: 'https://example.com/hook' },
+  ]);
+  assert.throws(
+    () => parseAuditSinks('[{"type":"webhook","url":"https://example.com/hook"},{"type":"nope"}]'),
+    /^Error: \[1\]/
+  );
+  assert.throws(() => parseAuditSinks('not json'), /must be a JSON array of sink settings/);
+  assert.throws(() => parseAuditSinks('{"type":"webhook"}'), /^Error: value: /);
+});
+
+test('validatePolicyFile reports unreadable files instead of falling back to defaults', () => {
+  const result = validatePolicyFile(join(tmpdir(), 'tabnab-missing-policy.yaml'));
+  assert.equal(result.ok, false);
+});
+
+test('loadPolicyConfig throws on invalid files and lets env vars override the document', async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), 'tabnab-policy-'));
+  const previous = { ...process.env };
+  t.after(async () => {
+    process.env = previous;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const validPath = join(dir, 'policy.yaml');
+  await writeFile(validPath, YAML_POLICY);
+  process.env.TABNAB_POLICY_CONFIG_PATH = validPath;
+  process.env.TABNAB_MAX_STEPS = '12';
+  delete process.env.TABNAB_ALLOWED_DOMAINS;
+  const config = loadPolicyConfig();
+  assert.equal(config.maxSteps, 12);
+  assert.deepEqual(config.allowedDomains, ['example.com', '*.github.com']);
+
+  const invalidPath = join(dir, 'invalid.yaml');
+  await writeFile(invalidPath, 'maxSteps: -1\n');
+  process.env.TABNAB_POLICY_CONFIG_PATH = invalidPath;
+  assert.throws(() => loadPolicyConfig(), PolicyConfigError);
+});
+
+test('unknown confirmation channels, content actions and audit sinks are refused at startup', async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), 'tabnab-policy-'));
+  const previous = { ...process.env };
+  t.after(async () => {
+    process.env = previous;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const legacyPath = join(dir, 'policy.json');
+  await writeFile(legacyPath, JSON.stringify({ TABNAB_HIDDEN_CONTENT: 'hide' }));
+  process.env.TABNAB_POLICY_CONFIG_PATH = legacyPath;
+  process.env.TABNAB_CONFIRMATION_CHANNEL = 'htttp';
+  process.env.TABNAB_INJECTION_ACTION = 'strip';
+  process.env.TABNAB_AUDIT_SINKS = '[{"type":"webhook","url":"ftp://example.com"}]';
+  assert.throws(
+    () => loadPolicyConfig(),
+    (error: unknown) => {
+      assert.ok(error instanceof PolicySettingsError);
+      assert.deepEqual(error.issues, [
+        'TABNAB_CONFIRMATION_CHANNEL: "htttp" is not one of agent, http',
+        'TABNAB_AUDIT_SINKS: [0].url: Must be an http(s) URL',
+        'TABNAB_INJECTION_ACTION: "strip" is not one of warn, strip-matching-blocks, quarantine, block',
+        `TABNAB_HIDDEN_CONTENT (in ${legacyPath}): "hide" is not one of quarantine, drop`,
+      ]);
+      return true;
+    }
+  );
+
+  process.env.TABNAB_CONFIRMATION_CHANNEL = 'http';
+  delete process.env.TABNAB_INJECTION_ACTION;
+  delete process.env.TABNAB_AUDIT_SINKS;
+  process.env.TABNAB_HIDDEN_CONTENT = 'drop';
+  const config = loadPolicyConfig();
+  assert.equal(config.confirmationChannel, 'http');
+  assert.equal(config.injectionAction, 'warn');
+  assert.equal(config.hiddenContent, 'drop');
+});
+
+test('domain blocks override confirmation mode, allowed tools and step limits', () => {
+  const { config: fileConfig } = parsePolicyFile(YAML_POLICY, 'policy.yaml');
+  const config = {
+    allowedDomains: [],
+    allowedPathPrefixes: {},
+    confirmationMode: 'auto' as const,
+    auditLogPath: '/tmp/tabnab-audit.log',
+    maxSteps: 30,
+    selectorLogMode: 'truncate' as const,
+    ...fileConfig,
+  };
+
+  const navigate = enforcePolicy(
+    {
+      toolName: 'navigate_and_extract',
+      url: 'https://api.github.com/acme/repo',
+      actionType: 'navigate',
+      isNavigation: true,
+    },
+    config
+  );
+  assert.equal(navigate.allowed, true);
+  assert.equal(navigate.requiresConfirmation, true);
+
+  const click = enforcePolicy(
+    { toolName: 'click_element', url: 'https://api.github.com/acme/repo', actionType: 'click' },
+    config
+  );
+  assert.equal(click.allowed, false);
+  assert.deepEqual(click.reasonCodes, ['tool_not_allowed']);
+
+  const session = new SessionManager(config.maxSteps);
+  const scope = resolveStepScope('https://api.github.com/acme', config);
+  assert.deepEqual(scope, { key: '*.github.com', maxSteps: 2 });
+  assert.equal(session.recordStep(scope), true);
+  assert.equal(session.recordStep(scope), true);
+  assert.equal(session.recordStep(scope), false);
+  assert.equal(session.recordStep(resolveStepScope('https://example.com/', config)), true);
+});
+
+test('a domain block that only restricts does not make its domain reachable', () => {
+  const { config: fileConfig } = parsePolicyFile(
+    `allowedDomains: [example.com]
+domains:
+  docs.example.com:
+    injectionThreshold: 3
+  app.example.com:
+    allow: true
+    confirmationMode: always-confirm
+`,
+    'policy.yaml'
+  );
+  assert.deepEqual(fileConfig.allowedDomains, ['example.com', 'app.example.com']);
+  const config = {
+    allowedPathPrefixes: {},
+    confirmationMode: 'auto' as const,
+    auditLogPath: '/tmp/tabnab-audit.log',
+    maxSteps: 30,
+    selectorLogMode: 'truncate' as const,
+    allowedDomains: [],
+    ...fileConfig,
+  };
+  const navigate = (url: string) =>
+    enforcePolicy(
+      { toolName: 'navigate_and_extract', url, actionType: 'navigate', isNavigation: true },
+      config
+    );
+
+  const docs = navigate('https://docs.example.com/');
+  assert.equal(docs.allowed, false);
+  assert.deepEqual(docs.reasonCodes, ['allowlist_blocked']);
+  assert.equal(navigate('https://app.example.com/').allowed, true);
+});
@@ -1,6 +1,8 @@
-import test from 'node:test';
 import assert from 'node:assert/strict';
-import { enforcePolicy } from '../policy/policy.js';
+import test from 'node:test';
+import { enforcePolicy, resolveSensitiveRules } from '../policy/policy.js';
+import { parsePolicyFile } from '../policy/policyFile.js';
+import { DEFAULT_SENSITIVE_RULES, detectSensitiveAction } from '../policy/sensitive.js';
 import type { PolicyConfig } from '../policy/types.js';
 
 const config: PolicyConfig = {
@@ -27,3 +29,107 @@ test('sensitive selectors require confirmation', () => {
   assert.equal(decision.requiresConfirmation, true);
   assert.ok(decision.reasonCodes.includes('sensitive_action'));
 });
+
+test('sensitive decisions report the matched rules', () => {
+  const decision = enforcePolicy(
+    {
+      toolName: 'click_element',
+      url: 'https://example.com/account',
+      selector: '#delete-account',
+      actionType: 'click',
+    },
+    config
+  );
+
+  assert.deepEqual(decision.reasonCodes, [
+    'sensitive_action',
+    'sensitive:selector:delete',
+    'confirmation_required',
+  ]);
+});
+
+test('element attributes and form actions are matched', () => {
+  const matches = detectSensitiveAction({
+    selector: '#btn-42',
+    actionType: 'click',
+    element: {
+      tagName: 'button',
+      role: 'button',
+      accessibleName: 'Go',
+      ariaLabel: 'Remove member',
+      name: 'go',
+      type: 'SUBMIT',
+      form: { method: 'post', action: 'https://example.com/cart/checkout' },
+      inPaymentFrame: false,
+      submitsForm: false,
+    },
+  });
+
+  assert.deepEqual(matches, [
+    { source: 'aria-label', rule: 'remove' },
+    { source: 'form-action', rule: 'checkout' },
+    { source: 'type', rule: 'submit' },
+  ]);
+});
+
+test('configured rules merge with the defaults and accept regexes', () => {
+  const rules = resolveSensitiveRules({
+    ...config,
+    sensitiveRules: { elementTextKeywords: ['revoke', '/archiv(e|ieren)/i', '/löschen/'] },
+  });
+
+  assert.ok(rules.elementTextKeywords.includes('delete'));
+  assert.deepEqual(
+    detectSensitiveAction({ actionType: 'click', elementText: 'Archivieren' }, rules),
+    [{ source: 'text', rule: '/archiv(e|ieren)/i' }]
+  );
+  assert.deepEqual(
+    detectSensitiveAction({ actionType: 'click', elementText: 'Löschen' }, rules),
+    []
+  );
+  assert.deepEqual(
+    detectSensitiveAction({ actionType: 'click', elementText: 'Revoke token' }, rules),
+    [{ source: 'text', rule: 'revoke' }]
+  );
+});
+
+test('replace mode drops the defaults and domain rules override global ones', () => {
+  const replaced = {
+    ...config,
+    allowedDomains: ['example.com', 'admin.example.com'],
+    sensitiveRules: { mode: 'replace' as const, selectorKeywords: ['deprovision'] },
+    domainPolicies: {
+      'admin.example.com': { sensitiveRules: { elementTextKeywords: ['revoke'] } },
+    },
+  };
+
+  const click = (url: string, selector: string, elementText?: string) =>
+    enforcePolicy(
+      { toolName: 'click_element', actionType: 'click', url, selector, elementText },
+      replaced
+    );
+
+  assert.equal(click('https://example.com/', '#delete-account').sensitive, false);
+  assert.equal(click('https://example.com/', '#deprovision-user').sensitive, true);
+  assert.equal(click('https://example.com/', '#x', 'Revoke').sensitive, false);
+  assert.deepEqual(click('https://admin.example.com/', '#x', 'Revoke').reasonCodes, [
+    'sensitive_action',
+    'sensitive:text:revoke',
+    'confirmation_required',
+  ]);
+  assert.deepEqual(resolveSensitiveRules(replaced).urlKeywords, []);
+  assert.deepEqual(resolveSensitiveRules(config), DEFAULT_SENSITIVE_RULES);
+});
+
+test('policy files validate sensitive rule regexes', () => {
+  const { config: parsed } = parsePolicyFile(
+    'sensitiveRules:\n  mode: merge\n  attributeKeywords: [deprovision]\n',
+    'policy.yaml'
+  );
+  assert.deepEqual(parsed.sensitiveRules, { mode: 'merge', attributeKeywords: ['deprovision'] });
+
+  assert.throws(
+    () => parsePolicyFile('sensitiveRules:\n  urlKeywords: ["/(unclosed/"]\n', 'policy.yaml'),
+    /sensitiveRules\.urlKeywords\[0\]\): Invalid regular expression/
+  );
+});
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test from 'node:test';
+import { MCPTools } from '../mcp/tools.js';
+import { loadPolicyConfig } from '../policy/policy.js';
+import { PolicyStore } from '../policy/store.js';
+
+class MockPage {
+  clicked = false;
+
+  url() {
+    return 'https://example.com/account';
+  }
+
+  async title() {
+    return 'Account';
+  }
+
+  async waitForSelector() {
+    return;
+  }
+
+  async click() {
+    this.clicked = true;
+  }
+}
+
+async function waitFor(condition: () => Promise<boolean>, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
+
+// Audit entries are written in batches, so the log may not exist yet.
+async function readAuditLog(path: string): Promise<string> {
+  return readFile(path, 'utf8').catch(() => '');
+}
+
+test('reload swaps valid policies and keeps the previous one on invalid edits', async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), 'tabnab-store-'));
+  const policyPath = join(dir, 'policy.yaml');
+  t.after(() => rm(dir, { recursive: true, force: true }));
+
+  const loadFromFile = () => {
+    const previous = { ...process.env };
+    process.env.TABNAB_POLICY_CONFIG_PATH = policyPath;
+    delete process.env.TABNAB_ALLOWED_DOMAINS;
+    try {
+      return loadPolicyConfig();
+    } finally {
+      process.env = previous;
+    }
+  };
+  await writeFile(policyPath, 'allowedDomains: [example.com]\n');
+  const store = new PolicyStore(undefined, loadFromFile);
+  assert.deepEqual(store.current().allowedDomains, ['example.com']);
+
+  const changes: string[][] = [];
+  store.onChange((next) => changes.push(next.allowedDomains));
+
+  await writeFile(policyPath, 'allowedDomains: [other.com]\n');
+  const swapped = store.reload();
+  assert.ok(swapped.ok);
+  assert.deepEqual(store.current().allowedDomains, ['other.com']);
+
+  await writeFile(policyPath, 'allowedDomains: [other.com\n');
+  const rejected = store.reload();
+  assert.equal(rejected.ok, false);
+  assert.deepEqual(store.current().allowedDomains, ['other.com']);
+  assert.deepEqual(changes, [['other.com']]);
+});
+
+test('watchPolicy applies file edits, audits them and keeps pending confirmations', async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), 'tabnab-store-'));
+  const policyPath = join(dir, 'policy.json');
+  const auditLogPath = join(dir, 'audit.log');
+  const previousEnv = { ...process.env };
+  t.after(async () => {
+    process.env = previousEnv;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  delete process.env.TABNAB_ALLOWED_DOMAINS;
+  delete process.env.TABNAB_AUDIT_LOG_PATH;
+  process.env.TABNAB_POLICY_CONFIG_PATH = policyPath;
+  await writeFile(policyPath, JSON.stringify({ allowedDomains: ['example.com'], auditLogPath }));
+
+  const page = new MockPage();
+  const tools = new MCPTools({
+    connection: { getAllTabs: async () => [page], disconnect: async () => undefined } as never,
+    policyStore: new PolicyStore(),
+  });
+  tools.watchPolicy(policyPath, 20);
+  t.after(() => tools.disconnect());
+
+  const pending = await tools.clickElement({ selector: '#delete-account' });
+  assert.equal(pending.error?.code, 'NEEDS_CONFIRMATION');
+  const { confirmationId } = pending.data as { confirmationId: string };
+
+  await writeFile(
+    policyPath,
+    JSON.stringify({ allowedDomains: ['example.com', 'example.org'], auditLogPath, maxSteps: 5 })
+  );
+  await waitFor(async () => (await readAuditLog(auditLogPath)).includes('policy_reloaded'));
+
+  await writeFile(policyPath, '{ "allowedDomains": [');
+  await waitFor(async () => (await readAuditLog(auditLogPath)).includes('policy_invalid'));
+
+  assert.equal((await tools.confirmAction({ confirmationId })).ok, true);
+  const executed = await tools.clickElement({ selector: '#delete-account', confirmationId });
+  assert.equal(executed.ok, true);
+  assert.equal(page.clicked, true);
+  await tools.flushAuditLog();
+});
@@ -0,0 +1,187 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { TabNabMCPServer } from '../mcp/server.js';
+import { enforcePolicy, loadPolicyConfig, PolicySettingsError } from '../policy/policy.js';
+import { parsePolicyFile } from '../policy/policyFile.js';
+import { PolicyStore } from '../policy/store.js';
+import { isToolEnabled, parseToolPermissions } from '../policy/toolPermissions.js';
+import type { PolicyConfig } from '../policy/types.js';
+
+function configWith(overrides: Partial<PolicyConfig> = {}): PolicyConfig {
+  return {
+    allowedDomains: ['example.com', 'bank.example'],
+    allowedPathPrefixes: {},
+    confirmationMode: 'auto',
+    auditLogPath: '/tmp/tabnab-audit.log',
+    maxSteps: 30,
+    selectorLogMode: 'truncate',
+    ...overrides,
+  };
+}
+
+test('parseToolPermissions refuses unknown tools and permissions', () => {
+  assert.deepEqual(parseToolPermissions('fill_input=deny, Press_Key=confirm'), {
+    fill_input: 'deny',
+    press_key: 'confirm',
+  });
+  assert.deepEqual(parseToolPermissions(undefined), {});
+  assert.throws(
+    () => parseToolPermissions('fill_input=deny,launch_rockets=deny,click_element=maybe'),
+    /^Error: "launch_rockets" is not a tool \(use .*fill_input.*\); "maybe" is not a permission for click_element \(use allow, deny, confirm\)$/
+  );
+});
+
+test('a misspelled TABNAB_TOOL_PERMISSIONS stops startup instead of dropping the file denies', async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), 'tabnab-tool-permissions-'));
+  const previous = { ...process.env };
+  t.after(async () => {
+    process.env = previous;
+    await rm(dir, { recursive: true, force: true });
+  });
+  const policyPath = join(dir, 'policy.yaml');
+  await writeFile(policyPath, 'allowedDomains: [example.com]\ntools:\n  fill_input: deny\n');
+  process.env.TABNAB_POLICY_CONFIG_PATH = policyPath;
+
+  for (const [raw, issue] of [
+    ['fill_inptu=deny', 'TABNAB_TOOL_PERMISSIONS: "fill_inptu" is not a tool'],
+    ['press_key=block', 'TABNAB_TOOL_PERMISSIONS: "block" is not a permission for press_key'],
+  ]) {
+    process.env.TABNAB_TOOL_PERMISSIONS = raw;
+    assert.throws(
+      () => loadPolicyConfig(),
+      (error: unknown) => {
+        assert.ok(error instanceof PolicySettingsError);
+        assert.equal(error.issues.length, 1);
+        assert.ok(error.issues[0].startsWith(issue), error.issues[0]);
+        return true;
+      }
+    );
+  }
+
+  delete process.env.TABNAB_TOOL_PERMISSIONS;
+  assert.deepEqual(loadPolicyConfig().toolPermissions, { fill_input: 'deny' });
+});
+
+test('denied tools are blocked with tool_disabled', () => {
+  const config = configWith({ toolPermissions: { fill_input: 'deny' } });
+  const decision = enforcePolicy(
+    { toolName: 'fill_input', actionType: 'fill', url: 'https://example.com/' },
+    config
+  );
+  assert.equal(decision.allowed, false);
+  assert.deepEqual(decision.reasonCodes, ['tool_disabled']);
+
+  const readOnly = enforcePolicy(
+    { toolName: 'screenshot_tab', actionType: 'screenshot', url: 'https://example.com/' },
+    config
+  );
+  assert.equal(readOnly.allowed, true);
+});
+
+test('confirm permissions require confirmation even in auto mode', () => {
+  const decision = enforcePolicy(
+    { toolName: 'press_key', actionType: 'press', url: 'https://example.com/', key: 'a' },
+    configWith({ toolPermissions: { press_key: 'confirm' } })
+  );
+  assert.equal(decision.allowed, true);
+  assert.equal(decision.requiresConfirmation, true);
+  assert.deepEqual(decision.reasonCodes, ['tool_requires_confirmation', 'confirmation_required']);
+});
+
+test('domain permissions override the global matrix', () => {
+  const config = configWith({
+    toolPermissions: { keyboard_type: 'deny' },
+    domainPolicies: {
+      'example.com': { toolPermissions: { keyboard_type: 'allow' } },
+      'bank.example': { toolPermissions: { click_element: 'deny' } },
+    },
+  });
+
+  const typing = (url: string) =>
+    enforcePolicy({ toolName: 'keyboard_type', actionType: 'type', url }, config);
+  assert.equal(typing('https://example.com/').allowed, true);
+  assert.deepEqual(typing('https://bank.example/').reasonCodes, ['tool_disabled']);
+
+  const click = enforcePolicy(
+    { toolName: 'click_element', actionType: 'click', url: 'https://bank.example/' },
+    config
+  );
+  assert.deepEqual(click.reasonCodes, ['tool_disabled']);
+
+  assert.equal(isToolEnabled('keyboard_type', config), true);
+  assert.equal(isToolEnabled('click_element', config), true);
+  assert.equal(isToolEnabled('fill_input', config), true);
+  assert.equal(
+    isToolEnabled('keyboard_type', configWith({ toolPermissions: { keyboard_type: 'deny' } })),
+    false
+  );
+});
+
+test('policy files accept tool matrices globally and per domain', () => {
+  const { config } = parsePolicyFile(
+    [
+      'version: 1',
+      'tools:',
+      '  fill_input: deny',
+      'domains:',
+      '  example.com:',
+      '    tools:',
+      '      fill_input: confirm',
+    ].join('\n'),
+    'policy.yaml'
+  );
+  assert.deepEqual(config.toolPermissions, { fill_input: 'deny' });
+  assert.deepEqual(config.domainPolicies?.['example.com'], {
+    toolPermissions: { fill_input: 'confirm' },
+  });
+
+  assert.throws(() => parsePolicyFile('tools:\n  fill_input: sometimes\n', 'policy.yaml'));
+  assert.throws(() => parsePolicyFile('tools:\n  launch_rockets: deny\n', 'policy.yaml'));
+});
+
+test('the server hides disabled tools and announces matrix changes', async (t) => {
+  let current = configWith({ toolPermissions: { fill_input: 'deny', keyboard_type: 'deny' } });
+  const store = new PolicyStore(current, () => current);
+  const server = new TabNabMCPServer({
+    policyStore: store,
+    connection: { getAllTabs: async () => [], disconnect: async () => {} } as never,
+  });
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  t.after(() => client.close());
+
+  const listed = await client.listTools();
+  const names = listed.tools.map((tool) => tool.name);
+  assert.ok(names.includes('screenshot_tab'));
+  assert.ok(!names.includes('fill_input'));
+  assert.ok(!names.includes('keyboard_type'));
+
+  const called = await client.callTool({
+    name: 'fill_input',
+    arguments: { selector: '#q', value: 'x' },
+  });
+  const content = called.content as { type: string; text: string }[];
+  const response = JSON.parse(content[0].text);
+  assert.equal(response.error.code, 'POLICY_BLOCKED');
+  assert.deepEqual(response.data.reasonCodes, ['tool_disabled']);
+
+  const notified = new Promise<void>((resolve) => {
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => resolve());
+  });
+  current = configWith({ toolPermissions: { keyboard_type: 'deny' } });
+  store.reload();
+  await notified;
+
+  const relisted = await client.listTools();
+  const renamed = relisted.tools.map((tool) => tool.name);
+  assert.ok(renamed.includes('fill_input'));
+  assert.ok(!renamed.includes('keyboard_type'));
+});
@@ -0,0 +1,218 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import test from 'node:test';
+import { FillInputSchema, KeyboardTypeSchema, MCPTools, toolInputSecrets } from '../mcp/tools.js';
+import {
+  EnvSecretStore,
+  SecretConfigError,
+  scrubSecrets,
+  secretFieldNames,
+} from '../policy/secrets.js';
+import { type After, tempDir, testPolicy } from './fixtures/policy.js';
+
+const SECRET = 'hunter2 "quoted" \\ pass';
+
+class MockPage {
+  filled: string[] = [];
+  failWith: string | null = null;
+
+  url() {
+    return 'https://example.com/login';
+  }
+
+  async title() {
+    return 'Login';
+  }
+
+  async waitForSelector() {
+    return;
+  }
+
+  async fill(_selector: string, value: string) {
+    if (this.failWith) {
+      throw new Error(`page.fill: ${this.failWith} ${JSON.stringify(value)}`);
+    }
+    this.filled.push(value);
+  }
+
+  keyboard = {
+    type: async (text: string) => {
+      throw new Error(`keyboard.type: failed to type "${text}"`);
+    },
+  };
+
+  async bringToFront() {
+    return;
+  }
+}
+
+async function setup(t: After, env: NodeJS.ProcessEnv = {}) {
+  const config = testPolicy(await tempDir(t, 'secret-fields'), {
+    allowedDomains: ['example.com'],
+    confirmationMode: 'always-confirm',
+    selectorLogMode: 'plaintext',
+  });
+  const page = new MockPage();
+  const tools = new MCPTools({
+    policyConfig: config,
+    connection: { getAllTabs: async () => [page], disconnect: async () => undefined } as never,
+    secretStore: new EnvSecretStore(env),
+  });
+  const readAuditLog = async () => {
+    await tools.flushAuditLog();
+    return readFile(config.auditLogPath, 'utf8');
+  };
+  return { page, tools, readAuditLog };
+}
+
+/** Records everything written to stderr while `run` executes. */
+async function captureStderr(run: () => Promise<void>): Promise<string> {
+  const chunks: string[] = [];
+  const write = process.stderr.write.bind(process.stderr);
+  const consoleError = console.error;
+  process.stderr.write = ((chunk: string | Uint8Array) => {
+    chunks.push(String(chunk));
+    return true;
+  }) as typeof process.stderr.write;
+  console.error = (...args: unknown[]) => {
+    chunks.push(args.map(String).join(' '));
+  };
+  try {
+    await run();
+  } finally {
+    process.stderr.write = write;
+    console.error = consoleError;
+  }
+  return chunks.join('');
+}
+
+/** Requests the action, approves it and runs it again with the confirmation. */
+async function confirmAndRun(
+  tools: MCPTools,
+  run: (confirmationId?: string) => Promise<{ data?: unknown }>
+) {
+  const pending = await run();
+  const { confirmationId, actionSummary } = pending.data as {
+    confirmationId: string;
+    actionSummary: string;
+  };
+  await tools.confirmAction({ confirmationId });
+  return { actionSummary, result: await run(confirmationId) };
+}
+
+function assertNoSecret(text: string, secret = SECRET) {
+  for (const form of [secret, JSON.stringify(secret).slice(1, -1), 'hunter2']) {
+    assert.ok(!text.includes(form), `leaked ${form} in ${text}`);
+  }
+}
+
+test('secret fields are declared in the tool schemas', () => {
+  assert.deepEqual(secretFieldNames(FillInputSchema), ['value']);
+  assert.deepEqual(secretFieldNames(KeyboardTypeSchema), ['text']);
+  assert.deepEqual(toolInputSecrets('fill_input', { selector: '#p', value: 'pw' }), ['pw']);
+  assert.deepEqual(toolInputSecrets('press_key', { key: 'Enter' }), []);
+  assert.equal(scrubSecrets('got "a\\"b" and a"b', ['a"b']), 'got "[REDACTED]" and [REDACTED]');
+});
+
+test('fill_input values never reach audit events, summaries, errors or stderr', async (t) => {
+  const { page, tools, readAuditLog } = await setup(t);
+  page.failWith = 'element is not an input';
+
+  let outcome: Awaited<ReturnType<typeof confirmAndRun>> | undefined;
+  const stderr = await captureStderr(async () => {
+    outcome = await confirmAndRun(tools, (confirmationId) =>
+      tools.fillInput({ selector: '#password', value: SECRET, confirmationId })
+    );
+  });
+
+  const { actionSummary, result } = outcome as NonNullable<typeof outcome>;
+  assert.equal((result as { error?: { code: string } }).error?.code, 'ACTION_FAILED');
+  assertNoSecret(actionSummary);
+  assertNoSecret(JSON.stringify(result));
+  assertNoSecret(stderr);
+  assertNoSecret(await readAuditLog());
+});
+
+test('keyboard_type text never reaches audit events, summaries, errors or stderr', async (t) => {
+  const { tools, readAuditLog } = await setup(t);
+
+  let outcome: Awaited<ReturnType<typeof confirmAndRun>> | undefined;
+  const stderr = await captureStderr(async () => {
+    outcome = await confirmAndRun(tools, (confirmationId) =>
+      tools.keyboardType({ text: SECRET, confirmationId })
+    );
+  });
+
+  const { actionSummary, result } = outcome as NonNullable<typeof outcome>;
+  assert.match(JSON.stringify(result), /Failed to type text/);
+  assertNoSecret(actionSummary);
+  assertNoSecret(JSON.stringify(result));
+  assertNoSecret(stderr);
+  assertNoSecret(await readAuditLog());
+});
+
+test('valueRef fills a secret from the store without returning it', async (t) => {
+  const { page, tools, readAuditLog } = await setup(t, {
+    TABNAB_SECRET_GITHUB_PASSWORD: 'hunter2-from-env',
+    TABNAB_SECRET_GITLAB_TOKEN: 'glpat-from-env',
+    TABNAB_SECRET_BANK_PIN: '1234',
+    TABNAB_SECRET_DOMAINS: JSON.stringify({
+      'github.password': ['example.com'],
+      'bank.pin': ['bank.example'],
+    }),
+  });
+
+  const { result } = await confirmAndRun(tools, (confirmationId) =>
+    tools.fillInput({ selector: '#password', valueRef: 'github.password', confirmationId })
+  );
+  assert.equal((result as { ok: boolean }).ok, true);
+  assert.deepEqual(page.filled, ['hunter2-from-env']);
+  assertNoSecret(JSON.stringify(result), 'hunter2-from-env');
+  assertNoSecret(await readAuditLog(), 'hunter2-from-env');
+
+  const missing = await tools.fillInput({ selector: '#password', valueRef: 'gitlab.password' });
+  assert.deepEqual(missing.error, {
+    code: 'SECRET_NOT_FOUND',
+    message: 'No secret named gitlab.password is available.',
+  });
+
+  // Secrets are filled only on the domains TABNAB_SECRET_DOMAINS lists for them.
+  const elsewhere = await tools.fillInput({ selector: '#pin', valueRef: 'bank.pin' });
+  assert.equal(elsewhere.error?.message, 'Secret bank.pin may only be filled on bank.example.');
+  assert.deepEqual(elsewhere.data, {
+    auditId: (elsewhere.data as { auditId: string }).auditId,
+    reasonCodes: ['secret_scope_blocked'],
+  });
+  const unscoped = await tools.fillInput({ selector: '#token', valueRef: 'gitlab.token' });
+  assert.equal(unscoped.error?.code, 'POLICY_BLOCKED');
+  assert.match(unscoped.error?.message ?? '', /not scoped to any domain/);
+  assert.deepEqual(page.filled, ['hunter2-from-env']);
+
+  const both = await tools.fillInput({ selector: '#p', value: 'x', valueRef: 'github.password' });
+  assert.equal(both.error?.code, 'INVALID_INPUT');
+  await tools.flushAuditLog();
+});
+
+test('secret names that read the same variable are rejected', () => {
+  assert.throws(
+    () =>
+      new EnvSecretStore({
+        TABNAB_SECRET_DOMAINS: JSON.stringify({
+          'github.password': ['github.com'],
+          'github-password': ['github.com'],
+          'bank pin': ['bank.example'],
+          'gitlab.token': [],
+        }),
+      }),
+    (error: unknown) => {
+      assert.ok(error instanceof SecretConfigError);
+      assert.deepEqual(error.issues, [
+        'TABNAB_SECRET_DOMAINS.github-password: reads TABNAB_SECRET_GITHUB_PASSWORD like "github.password"; rename one of them',
+        'TABNAB_SECRET_DOMAINS.bank pin: secret names use letters, digits, ".", "-" and "_"',
+        'TABNAB_SECRET_DOMAINS.gitlab.token: must be a non-empty list of domain patterns',
+      ]);
+      return true;
+    }
+  );
+  assert.throws(() => new EnvSecretStore({ TABNAB_SECRET_DOMAINS: '["x"]' }), /JSON object/);
+});
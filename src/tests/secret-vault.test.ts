@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import test from 'node:test';
+import { MCPTools } from '../mcp/tools.js';
+import type { PolicyConfig } from '../policy/types.js';
+import { SecretVault, VaultError } from '../policy/vault.js';
+import { type After, tempDir, testPolicy } from './fixtures/policy.js';
+
+const PASSWORD = 'correct horse battery staple';
+
+async function setup(
+  t: After,
+  pageUrl: string,
+  confirmationMode: PolicyConfig['confirmationMode'] = 'auto'
+) {
+  const dir = await tempDir(t, 'vault');
+  const vault = await SecretVault.create(join(dir, 'vault.json'), 'passphrase');
+  await vault.set('example.password', PASSWORD, ['.example.com']);
+  const reveal = vault.reveal.bind(vault);
+  const revealed: string[] = [];
+  vault.reveal = async (name) => {
+    revealed.push(name);
+    return reveal(name);
+  };
+
+  const filled: string[] = [];
+  const page = {
+    url: () => pageUrl,
+    title: async () => 'Sign in',
+    waitForSelector: async () => undefined,
+    $eval: async () => ({
+      tagName: 'input',
+      type: 'password',
+      inPaymentFrame: false,
+      submitsForm: false,
+    }),
+    fill: async (_selector: string, value: string) => {
+      filled.push(value);
+    },
+    bringToFront: async () => undefined,
+  };
+  const config = testPolicy(dir, {
+    allowedDomains: ['example.com', '.example.com', 'example.net'],
+    confirmationMode,
+    selectorLogMode: 'plaintext',
+  });
+  const tools = new MCPTools({
+    policyConfig: config,
+    connection: { getAllTabs: async () => [page], disconnect: async () => undefined } as never,
+    vault,
+  });
+  const readAuditLog = async () => {
+    await tools.flushAuditLog();
+    return readFile(config.auditLogPath, 'utf8');
+  };
+  return { filled, revealed, tools, readAuditLog };
+}
+
+test('the vault encrypts secrets and binds them to their domains', async (t) => {
+  const filePath = join(await tempDir(t, 'vault'), 'vault.json');
+  const vault = await SecretVault.create(filePath, 'passphrase');
+  await vault.set('github.token', 'ghp_secret', ['github.com']);
+  await vault.set('example.password', PASSWORD, ['.example.com', 'https://login.example.net']);
+
+  const raw = await readFile(filePath, 'utf8');
+  assert.ok(!raw.includes('ghp_secret'));
+  assert.ok(!raw.includes(PASSWORD));
+  await assert.rejects(SecretVault.create(filePath, 'passphrase'), VaultError);
+  await assert.rejects(SecretVault.open(filePath, 'wrong'), /Wrong vault passphrase/);
+
+  const reopened = await SecretVault.open(filePath, 'passphrase');
+  assert.deepEqual(
+    (await reopened.list()).map((secret) => [secret.name, secret.domains]),
+    [
+      ['example.password', ['.example.com', 'https://login.example.net']],
+      ['github.token', ['github.com']],
+    ]
+  );
+  assert.deepEqual(await reopened.reveal('github.token'), {
+    value: 'ghp_secret',
+    domains: ['github.com'],
+  });
+  assert.equal(await reopened.reveal('missing'), undefined);
+  await assert.rejects(reopened.set('bad name', 'x', ['github.com']), VaultError);
+  await assert.rejects(reopened.set('ok', 'x', []), VaultError);
+
+  // Widening a secret's scope by editing the file breaks its authentication tag.
+  const file = JSON.parse(raw);
+  file.secrets['github.token'].domains = ['.evil.test'];
+  await writeFile(filePath, JSON.stringify(file));
+  await assert.rejects(reopened.reveal('github.token'), /could not be decrypted/);
+
+  assert.equal(await reopened.remove('github.token'), true);
+  assert.equal(await reopened.remove('github.token'), false);
+});
+
+test('fill_secret fills a secret on its domains without returning or logging it', async (t) => {
+  const { filled, tools, readAuditLog } = await setup(t, 'https://accounts.example.com/login');
+
+  const result = await tools.fillSecret({ name: 'example.password', selector: '#login' });
+  assert.equal(result.ok, true);
+  assert.deepEqual(filled, [PASSWORD]);
+  assert.ok(!JSON.stringify(result).includes(PASSWORD));
+
+  const log = await readAuditLog();
+  assert.ok(!log.includes(PASSWORD));
+  const event = JSON.parse(log.trim().split('\n').at(-1) ?? '');
+  assert.equal(event.toolName, 'fill_secret');
+  assert.equal(event.outcome, 'confirmed');
+  assert.equal(event.secretName, 'example.password');
+});
+
+test('fill_secret refuses pages outside the secret scope and unknown secrets', async (t) => {
+  const { filled, revealed, tools, readAuditLog } = await setup(t, 'https://example.net/login');
+
+  const blocked = await tools.fillSecret({ name: 'example.password', selector: '#login' });
+  assert.equal(blocked.error?.code, 'POLICY_BLOCKED');
+  assert.deepEqual((blocked.data as { reasonCodes: string[] }).reasonCodes, [
+    'secret_scope_blocked',
+  ]);
+
+  const missing = await tools.fillSecret({ name: 'example.token', selector: '#login' });
+  assert.equal(missing.error?.code, 'SECRET_NOT_FOUND');
+  assert.deepEqual(filled, []);
+  assert.deepEqual(revealed, []);
+
+  const log = await readAuditLog();
+  assert.ok(!log.includes(PASSWORD));
+  const events = log
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+  assert.deepEqual(
+    events.map((event) => [event.secretName, event.outcome, event.errorCode]),
+    [
+      ['example.password', 'denied', undefined],
+      ['example.token', 'failed', 'SECRET_NOT_FOUND'],
+    ]
+  );
+});
+
+test('fill_secret decrypts the secret only once the fill is confirmed', async (t) => {
+  const { filled, revealed, tools } = await setup(
+    t,
+    'https://accounts.example.com/login',
+    'always-confirm'
+  );
+
+  const pending = await tools.fillSecret({ name: 'example.password', selector: '#login' });
+  assert.equal(pending.error?.code, 'NEEDS_CONFIRMATION');
+  assert.deepEqual(revealed, []);
+
+  const { confirmationId } = pending.data as { confirmationId: string };
+  await tools.confirmAction({ confirmationId });
+  const result = await tools.fillSecret({
+    name: 'example.password',
+    selector: '#login',
+    confirmationId,
+  });
+  assert.equal(result.ok, true);
+  assert.deepEqual(revealed, ['example.password']);
+  assert.deepEqual(filled, [PASSWORD]);
+  await tools.flushAuditLog();
+});